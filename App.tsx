@@ -1,11 +1,13 @@
 import { useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './components/ui/card';
-import { Calculator, TrendingUp, Users, BarChart3, Settings, Zap } from 'lucide-react';
+import { Calculator, TrendingUp, Users, BarChart3, Settings, Zap, Brain, Shuffle } from 'lucide-react';
 import { SampleSizeCalculator } from './components/SampleSizeCalculator';
 import { SignificanceTestCalculator } from './components/SignificanceTestCalculator';
+import { BayesianAnalysisCalculator } from './components/BayesianAnalysisCalculator';
 import { VirtualUserSimulator } from './components/VirtualUserSimulator';
 import { PowerAnalysisCalculator } from './components/PowerAnalysisCalculator';
+import { BanditSimulator } from './components/BanditSimulator';
 import { SequentialTestingCalculator } from './components/SequentialTestingCalculator';
 import { ExperimentDesigner } from './components/ExperimentDesigner';
 
@@ -26,7 +28,7 @@ export default function App() {
 
         {/* Main Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-6 mb-8">
+          <TabsList className="grid w-full grid-cols-8 mb-8">
             <TabsTrigger value="sample-size" className="flex items-center gap-2 tab-trigger">
               <Calculator className="h-4 w-4" />
               Sample Size
@@ -35,6 +37,10 @@ export default function App() {
               <TrendingUp className="h-4 w-4" />
               Significance
             </TabsTrigger>
+            <TabsTrigger value="bayesian" className="flex items-center gap-2 tab-trigger">
+              <Brain className="h-4 w-4" />
+              Bayesian
+            </TabsTrigger>
             <TabsTrigger value="power-analysis" className="flex items-center gap-2 tab-trigger">
               <BarChart3 className="h-4 w-4" />
               Power Analysis
@@ -43,6 +49,10 @@ export default function App() {
               <Users className="h-4 w-4" />
               Simulation
             </TabsTrigger>
+            <TabsTrigger value="bandits" className="flex items-center gap-2 tab-trigger">
+              <Shuffle className="h-4 w-4" />
+              Bandits
+            </TabsTrigger>
             <TabsTrigger value="sequential" className="flex items-center gap-2 tab-trigger">
               <Zap className="h-4 w-4" />
               Sequential
@@ -61,6 +71,10 @@ export default function App() {
             <SignificanceTestCalculator />
           </TabsContent>
 
+          <TabsContent value="bayesian">
+            <BayesianAnalysisCalculator />
+          </TabsContent>
+
           <TabsContent value="power-analysis">
             <PowerAnalysisCalculator />
           </TabsContent>
@@ -69,6 +83,10 @@ export default function App() {
             <VirtualUserSimulator />
           </TabsContent>
 
+          <TabsContent value="bandits">
+            <BanditSimulator />
+          </TabsContent>
+
           <TabsContent value="sequential">
             <SequentialTestingCalculator />
           </TabsContent>
@@ -0,0 +1,110 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Alert, AlertDescription } from './ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { UserCheck, AlertTriangle } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { AgentSimulationSummary } from '../types/simulation';
+import { SIGNIFICANCE_LEVEL } from '../utils/virtualUsers';
+
+interface AgentSimulationResultsProps {
+  summary: AgentSimulationSummary;
+  numberOfSimulations: number;
+}
+
+export function AgentSimulationResults({ summary, numberOfSimulations }: AgentSimulationResultsProps) {
+  const nominalRate = SIGNIFICANCE_LEVEL * 100;
+  const chartData = [
+    { analysis: 'Visit level (z-test)', falsePositiveRate: summary.visitLevelFalsePositiveRate, power: summary.visitLevelPower },
+    { analysis: 'User level (delta method)', falsePositiveRate: summary.userLevelFalsePositiveRate, power: summary.userLevelPower }
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserCheck className="h-5 w-5" />
+          Visit-Level vs. User-Level Analysis
+        </CardTitle>
+        <CardDescription>
+          {numberOfSimulations} agent-based experiments under H0 (no effect) and H1 ({summary.averageTreatmentLift.toFixed(1)}% average lift on treatment visits), analysed on visit conversion rate
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="result-card">
+            <div className={`value ${summary.visitLevelFalsePositiveRate > 2 * nominalRate ? 'text-red-600' : ''}`}>
+              {summary.visitLevelFalsePositiveRate.toFixed(1)}%
+            </div>
+            <div className="label">Visit-Level FPR</div>
+          </div>
+          <div className="result-card">
+            <div className="value">{summary.userLevelFalsePositiveRate.toFixed(1)}%</div>
+            <div className="label">User-Level FPR</div>
+          </div>
+          <div className="result-card">
+            <div className="value">{summary.averageDesignEffect.toFixed(2)}×</div>
+            <div className="label">Design Effect</div>
+          </div>
+          <div className="result-card">
+            <div className="value">{summary.returningVisitShare.toFixed(0)}%</div>
+            <div className="label">Returning Visits</div>
+          </div>
+        </div>
+
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="analysis" />
+              <YAxis domain={[0, 100]} unit="%" />
+              <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+              <Legend />
+              <ReferenceLine y={nominalRate} stroke="#6b7280" strokeDasharray="5 5" label={`α = ${nominalRate}%`} />
+              <Bar dataKey="falsePositiveRate" fill="#ef4444" name="False positive rate (H0)" />
+              <Bar dataKey="power" fill="#10b981" name="Rejection rate (H1)" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Population (averages under H0)</TableHead>
+              <TableHead className="text-right">Value</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <TableRow>
+              <TableCell>Visits per experiment</TableCell>
+              <TableCell className="text-right">{summary.averageVisits.toFixed(0)}</TableCell>
+            </TableRow>
+            <TableRow>
+              <TableCell>Cookies per person</TableCell>
+              <TableCell className="text-right">{summary.cookiesPerPerson.toFixed(3)}</TableCell>
+            </TableRow>
+            <TableRow>
+              <TableCell>People exposed to both arms</TableCell>
+              <TableCell className="text-right">{summary.contaminatedShare.toFixed(1)}%</TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+
+        {summary.visitLevelFalsePositiveRate > 2 * nominalRate && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Visits from the same person are correlated, so treating each visit as an independent trial understates the
+              variance about {summary.averageDesignEffect.toFixed(1)}-fold and declares {summary.visitLevelFalsePositiveRate.toFixed(0)}% of
+              {' '}A/A tests significant. Analyse per user (cookie) with the delta method, as the ratio metric test in the Significance tab does.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="text-sm text-muted-foreground">
+          The visit-level rejection rate under H1 is not real power: it comes from the same understated variance.
+          Cookie resets split one person into several units, some of them in both arms, which dilutes the measured lift.
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
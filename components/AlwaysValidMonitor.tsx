@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Textarea } from './ui/textarea';
+import { Alert, AlertDescription } from './ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Eye, CheckCircle } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { DifferenceEstimate, InterimLook } from '../types/statistics';
+import { parseNumericRows } from '../utils/dataParsing';
+import { alwaysValidSequence, binomialDifference, meanDifference } from '../utils/alwaysValid';
+
+interface AlwaysValidMonitorProps {
+  looks: InterimLook[];
+  alpha: number;
+}
+
+const formatLimit = (value: number, digits: number): string => isFinite(value) ? value.toFixed(digits) : value > 0 ? '∞' : '-∞';
+
+export function AlwaysValidMonitor({ looks, alpha }: AlwaysValidMonitorProps) {
+  const [metricType, setMetricType] = useState<string>('conversion');
+  const [conversionMixingSD, setConversionMixingSD] = useState<number>(2);
+  const [continuousMixingSD, setContinuousMixingSD] = useState<number>(1);
+  const [continuousRows, setContinuousRows] = useState<string>('');
+
+  const isConversion = metricType === 'conversion';
+
+  // Conversion differences are shown in percentage points, continuous ones in metric units
+  const scale = isConversion ? 100 : 1;
+  const mixingSD = isConversion ? conversionMixingSD : continuousMixingSD;
+
+  const observations: Array<DifferenceEstimate & { label: string }> = isConversion
+    ? looks.map(look => ({
+        label: look.date,
+        ...binomialDifference(look.controlConversions, look.controlVisitors, look.treatmentConversions, look.treatmentVisitors)
+      }))
+    : parseNumericRows(continuousRows)
+        .filter(row => row.length === 6 && row[0] > 1 && row[3] > 1)
+        .map((row, index) => ({
+          label: `Look ${index + 1}`,
+          ...meanDifference(
+            { n: row[0], mean: row[1], standardDeviation: row[2] },
+            { n: row[3], mean: row[4], standardDeviation: row[5] }
+          )
+        }));
+
+  const sequence = alwaysValidSequence(observations, (mixingSD / scale) ** 2, alpha);
+  const firstSignificant = sequence.find(point => point.isSignificant);
+  const current = sequence[sequence.length - 1];
+
+  const chartData = sequence.map((point, index) => ({
+    label: observations[index].label,
+    estimate: point.estimate * scale,
+    lower: isFinite(point.confidenceSequence[0]) ? point.confidenceSequence[0] * scale : undefined,
+    upper: isFinite(point.confidenceSequence[1]) ? point.confidenceSequence[1] * scale : undefined
+  }));
+
+  const unit = isConversion ? ' pp' : '';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Eye className="h-5 w-5" />
+          Always-Valid Monitoring (mSPRT)
+        </CardTitle>
+        <CardDescription>
+          Mixture sequential probability ratio test: p-values and confidence sequences that stay valid however often you look
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Metric Type</Label>
+            <Select value={metricType} onValueChange={setMetricType}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="conversion">Conversion (interim look log)</SelectItem>
+                <SelectItem value="continuous">Continuous (cumulative summaries)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mixingSD">Mixing SD τ{isConversion ? ' (percentage points)' : ' (metric units)'}</Label>
+            <Input
+              id="mixingSD"
+              type="number"
+              step="0.1"
+              min="0"
+              value={mixingSD}
+              onChange={(e) => (isConversion ? setConversionMixingSD : setContinuousMixingSD)(Number(e.target.value))}
+            />
+            <div className="text-xs text-muted-foreground">
+              Set τ near the effect size you expect. Smaller values detect small effects sooner; larger values favour big ones.
+            </div>
+          </div>
+        </div>
+
+        {!isConversion && (
+          <div className="space-y-2">
+            <Label htmlFor="continuousLooks">Cumulative Summaries per Look</Label>
+            <Textarea
+              id="continuousLooks"
+              value={continuousRows}
+              onChange={(e) => setContinuousRows(e.target.value)}
+              placeholder={'One look per line: control n, mean, SD, treatment n, mean, SD\n400, 52.1, 18.3, 410, 54.0, 18.9'}
+              className="h-28 font-mono text-xs"
+            />
+          </div>
+        )}
+
+        {current ? (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="result-card">
+                <div className={`value ${current.isSignificant ? 'text-green-600' : 'text-blue-600'}`}>
+                  {current.isSignificant ? 'Significant' : 'Keep Watching'}
+                </div>
+                <div className="label">Status</div>
+              </div>
+              <div className="result-card">
+                <div className="value">{current.pValue.toFixed(4)}</div>
+                <div className="label">Always-Valid P-Value</div>
+              </div>
+              <div className="result-card">
+                <div className="value">{(current.estimate * scale).toFixed(isConversion ? 2 : 3)}{unit}</div>
+                <div className="label">Difference</div>
+              </div>
+              <div className="result-card">
+                <div className="value text-base">
+                  {formatLimit(current.confidenceSequence[0] * scale, 2)} to {formatLimit(current.confidenceSequence[1] * scale, 2)}
+                </div>
+                <div className="label">{((1 - alpha) * 100).toFixed(0)}% Confidence Sequence</div>
+              </div>
+            </div>
+
+            {firstSignificant && (
+              <Alert>
+                <CheckCircle className="h-4 w-4" />
+                <AlertDescription>
+                  The always-valid p-value fell below {alpha} at {observations[firstSignificant.step - 1].label}. You may stop at that
+                  point or any later one; the type I error guarantee holds either way.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="label" />
+                  <YAxis label={{ value: `Difference${unit}`, angle: -90, position: 'insideLeft' }} />
+                  <Tooltip
+                    formatter={(value: any, name: string) => [
+                      Number(value).toFixed(3),
+                      name === 'estimate' ? 'Estimate' : name === 'lower' ? 'Lower Bound' : 'Upper Bound'
+                    ]}
+                  />
+                  <Line type="monotone" dataKey="upper" stroke="#10b981" strokeWidth={2} strokeDasharray="5 5" dot={false} name="upper" />
+                  <Line type="monotone" dataKey="estimate" stroke="#3b82f6" strokeWidth={3} name="estimate" />
+                  <Line type="monotone" dataKey="lower" stroke="#10b981" strokeWidth={2} strokeDasharray="5 5" dot={false} name="lower" />
+                  <ReferenceLine y={0} stroke="#6b7280" strokeDasharray="2 2" />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Look</TableHead>
+                  <TableHead className="text-right">Difference</TableHead>
+                  <TableHead className="text-right">Mixture LR</TableHead>
+                  <TableHead className="text-right">Always-Valid p</TableHead>
+                  <TableHead className="text-right">Confidence Sequence</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sequence.map((point, index) => (
+                  <TableRow key={point.step}>
+                    <TableCell>
+                      {observations[index].label}
+                      {point.isSignificant && <Badge variant="outline" className="ml-2">p &lt; {alpha}</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right">{(point.estimate * scale).toFixed(3)}{unit}</TableCell>
+                    <TableCell className="text-right">{point.likelihoodRatio.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">{point.pValue.toFixed(4)}</TableCell>
+                    <TableCell className="text-right">
+                      {formatLimit(point.confidenceSequence[0] * scale, 3)} to {formatLimit(point.confidenceSequence[1] * scale, 3)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="text-xs text-muted-foreground">
+              The p-value is the running minimum of 1/LR and the interval the running intersection, so neither ever moves
+              back once evidence has accumulated.
+            </div>
+          </>
+        ) : (
+          <div className="text-center text-muted-foreground py-8">
+            {isConversion ? 'Record at least one interim look to start monitoring' : 'Enter cumulative summaries, one look per line'}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
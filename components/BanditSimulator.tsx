@@ -0,0 +1,400 @@
+import { useState, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Progress } from './ui/progress';
+import { Badge } from './ui/badge';
+import { Separator } from './ui/separator';
+import { Alert, AlertDescription } from './ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Play, RotateCcw, Plus, Trash2, Shuffle, Trophy, AlertTriangle } from 'lucide-react';
+import { LineChart, Line, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { BanditArm, BanditPolicy, BanditRun, BanditSettings, BanditSimulationSummary } from '../types/simulation';
+import { BANDIT_POLICY_OPTIONS, VARIANT_COLORS } from '../constants/experimentDefaults';
+import { simulateBanditRun, summarizeBanditRuns } from '../utils/bandits';
+
+export function BanditSimulator() {
+  const [arms, setArms] = useState<BanditArm[]>([
+    { id: 'arm_a', name: 'Arm A', trueRate: 5 },
+    { id: 'arm_b', name: 'Arm B', trueRate: 5.5 },
+    { id: 'arm_c', name: 'Arm C', trueRate: 6 }
+  ]);
+  const [settings, setSettings] = useState<BanditSettings>({
+    policy: 'thompson',
+    days: 30,
+    dailyVisitors: 1000,
+    epsilon: 0.1,
+    topTwoProbability: 0.5
+  });
+  const [numberOfRuns, setNumberOfRuns] = useState<number>(100);
+
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [results, setResults] = useState<BanditSimulationSummary | null>(null);
+  // Bumped by every start and reset; a loop stops once the generation it started with is stale,
+  // so a reset followed by a quick restart cannot leave the old loop running
+  const runGenerationRef = useRef(0);
+
+  const addArm = () => {
+    const letter = String.fromCharCode(65 + arms.length);
+    setArms(prev => [...prev, { id: `arm_${Date.now()}`, name: `Arm ${letter}`, trueRate: 5 }]);
+  };
+
+  const removeArm = (id: string) => {
+    setArms(prev => prev.filter(arm => arm.id !== id));
+  };
+
+  const updateArm = (id: string, updates: Partial<BanditArm>) => {
+    setArms(prev => prev.map(arm => arm.id === id ? { ...arm, ...updates } : arm));
+  };
+
+  const isValid = arms.length >= 2 &&
+    arms.every(arm => arm.trueRate > 0 && arm.trueRate < 100) &&
+    settings.days >= 1 && settings.dailyVisitors >= arms.length &&
+    settings.epsilon >= 0 && settings.epsilon <= 1 &&
+    settings.topTwoProbability >= 0 && settings.topTwoProbability <= 1 &&
+    numberOfRuns >= 1;
+
+  const runSimulation = async () => {
+    const generation = ++runGenerationRef.current;
+    setIsRunning(true);
+    setResults(null);
+    setProgress(0);
+
+    const trueRates = arms.map(arm => arm.trueRate / 100);
+    const runs: BanditRun[] = [];
+
+    for (let run = 0; run < numberOfRuns; run++) {
+      if (runGenerationRef.current !== generation) return;
+      runs.push(simulateBanditRun(trueRates, settings));
+      setProgress((run / numberOfRuns) * 100);
+
+      // Allow UI to update
+      if (run % 10 === 0) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+    }
+
+    if (runGenerationRef.current !== generation) return;
+    setResults(summarizeBanditRuns(runs, trueRates, settings));
+    setProgress(100);
+    setIsRunning(false);
+  };
+
+  const resetSimulation = () => {
+    runGenerationRef.current++;
+    setResults(null);
+    setProgress(0);
+    setIsRunning(false);
+  };
+
+  const policyLabel = (policy: BanditPolicy) => BANDIT_POLICY_OPTIONS.find(option => option.value === policy)?.label ?? policy;
+
+  const finalRegret = results?.regretPath[results.regretPath.length - 1];
+  const conversionsGained = results ? results.expectedConversions - results.fixedExpectedConversions : 0;
+  const allocationData = results?.allocationPath.map(point => ({
+    day: point.day,
+    ...Object.fromEntries(point.shares.map((share, i) => [`arm${i}`, share * 100]))
+  })) ?? [];
+
+  return (
+    <div className="space-y-6">
+      {/* Control Panel */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Shuffle className="h-5 w-5" />
+            Multi-Armed Bandit Simulation
+          </CardTitle>
+          <CardDescription>
+            Allocate traffic day by day with an adaptive policy and compare it with a fixed equal split over the same period
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="space-y-4">
+              <h4>Arms (True Conversion Rates)</h4>
+              {arms.map((arm, index) => (
+                <div key={arm.id} className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: VARIANT_COLORS[index % VARIANT_COLORS.length] }}></div>
+                  <Input
+                    value={arm.name}
+                    onChange={(e) => updateArm(arm.id, { name: e.target.value })}
+                    className="h-8"
+                  />
+                  <Input
+                    type="number"
+                    step="0.1"
+                    value={arm.trueRate}
+                    onChange={(e) => updateArm(arm.id, { trueRate: Number(e.target.value) })}
+                    className="h-8 w-24"
+                  />
+                  <span className="text-sm text-muted-foreground">%</span>
+                  {index > 1 && (
+                    <Button variant="ghost" size="sm" onClick={() => removeArm(arm.id)} disabled={isRunning}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {arms.length < VARIANT_COLORS.length && (
+                <Button onClick={addArm} variant="outline" size="sm" className="w-full" disabled={isRunning}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Arm
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-4">
+              <h4>Policy</h4>
+              <div className="space-y-3">
+                <div className="space-y-2">
+                  <Label>Allocation Policy</Label>
+                  <Select
+                    value={settings.policy}
+                    onValueChange={(value) => setSettings(prev => ({ ...prev, policy: value as BanditPolicy }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {BANDIT_POLICY_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {settings.policy === 'epsilon-greedy' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="banditEpsilon">Exploration Rate (ε)</Label>
+                    <Input
+                      id="banditEpsilon"
+                      type="number"
+                      step="0.05"
+                      value={settings.epsilon}
+                      onChange={(e) => setSettings(prev => ({ ...prev, epsilon: Number(e.target.value) }))}
+                    />
+                  </div>
+                )}
+                {settings.policy === 'top-two-thompson' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="banditTopTwo">Leader Probability (β)</Label>
+                    <Input
+                      id="banditTopTwo"
+                      type="number"
+                      step="0.05"
+                      value={settings.topTwoProbability}
+                      onChange={(e) => setSettings(prev => ({ ...prev, topTwoProbability: Number(e.target.value) }))}
+                    />
+                  </div>
+                )}
+                <p className="text-sm text-muted-foreground">
+                  Allocation is updated once a day from all data collected so far; the winner is the arm with the highest posterior mean at the end.
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <h4>Traffic & Runs</h4>
+              <div className="space-y-3">
+                <div className="space-y-2">
+                  <Label htmlFor="banditDays">Days</Label>
+                  <Input
+                    id="banditDays"
+                    type="number"
+                    value={settings.days}
+                    onChange={(e) => setSettings(prev => ({ ...prev, days: Number(e.target.value) }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="banditDailyVisitors">Visitors per Day</Label>
+                  <Input
+                    id="banditDailyVisitors"
+                    type="number"
+                    value={settings.dailyVisitors}
+                    onChange={(e) => setSettings(prev => ({ ...prev, dailyVisitors: Number(e.target.value) }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="banditRuns">Number of Runs</Label>
+                  <Input
+                    id="banditRuns"
+                    type="number"
+                    value={numberOfRuns}
+                    onChange={(e) => setNumberOfRuns(Number(e.target.value))}
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <Separator className="my-6" />
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button onClick={runSimulation} disabled={isRunning || !isValid} className="flex items-center gap-2">
+                <Play className="h-4 w-4" />
+                {isRunning ? 'Running...' : 'Run Simulation'}
+              </Button>
+              <Button onClick={resetSimulation} variant="outline" className="flex items-center gap-2">
+                <RotateCcw className="h-4 w-4" />
+                Reset
+              </Button>
+            </div>
+            {isRunning && (
+              <div className="flex items-center gap-4 w-64">
+                <Progress value={progress} className="flex-1" />
+                <span className="text-sm text-muted-foreground">{progress.toFixed(0)}%</span>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {results && finalRegret && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Trophy className="h-5 w-5" />
+                {policyLabel(results.policy)} vs. Fixed Split
+              </CardTitle>
+              <CardDescription>
+                Averages over {results.runs} runs; regret is the expected conversions given up against always serving {arms[results.bestArm]?.name}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="result-card">
+                  <div className="value">{finalRegret.bandit.toFixed(1)}</div>
+                  <div className="label">Bandit Regret</div>
+                </div>
+                <div className="result-card">
+                  <div className="value">{finalRegret.fixed.toFixed(1)}</div>
+                  <div className="label">Fixed-Split Regret</div>
+                </div>
+                <div className="result-card">
+                  <div className={`value ${conversionsGained >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {conversionsGained >= 0 ? '+' : ''}{conversionsGained.toFixed(1)}
+                  </div>
+                  <div className="label">Conversions vs. Fixed</div>
+                </div>
+                <div className="result-card">
+                  <div className="value">{(results.probabilityCorrectBest * 100).toFixed(0)}%</div>
+                  <div className="label">P(Correct Best)</div>
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Allocation</TableHead>
+                    <TableHead className="text-right">Expected Conversions</TableHead>
+                    <TableHead className="text-right">Cumulative Regret</TableHead>
+                    <TableHead className="text-right">P(Correct Best)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <TableRow>
+                    <TableCell>{policyLabel(results.policy)}</TableCell>
+                    <TableCell className="text-right">{results.expectedConversions.toFixed(1)}</TableCell>
+                    <TableCell className="text-right">{finalRegret.bandit.toFixed(1)}</TableCell>
+                    <TableCell className="text-right">{(results.probabilityCorrectBest * 100).toFixed(1)}%</TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>Fixed equal split</TableCell>
+                    <TableCell className="text-right">{results.fixedExpectedConversions.toFixed(1)}</TableCell>
+                    <TableCell className="text-right">{finalRegret.fixed.toFixed(1)}</TableCell>
+                    <TableCell className="text-right">{(results.fixedProbabilityCorrectBest * 100).toFixed(1)}%</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+
+              {results.probabilityCorrectBest < results.fixedProbabilityCorrectBest && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    The bandit earns more during the test but identifies the best arm less often than the fixed split,
+                    because starved arms are estimated from fewer visitors.
+                  </AlertDescription>
+                </Alert>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Cumulative Regret</CardTitle>
+                <CardDescription>Expected conversions lost to inferior arms, by day</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="h-80">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={results.regretPath}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="day" />
+                      <YAxis />
+                      <Tooltip formatter={(value: number) => value.toFixed(1)} />
+                      <Legend />
+                      <Line type="monotone" dataKey="bandit" stroke="#3b82f6" strokeWidth={2} name={policyLabel(results.policy)} dot={false} />
+                      <Line type="monotone" dataKey="fixed" stroke="#ef4444" strokeWidth={2} strokeDasharray="5 5" name="Fixed split" dot={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Allocation Path</CardTitle>
+                <CardDescription>Average share of each day's traffic sent to each arm</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="h-80">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart data={allocationData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="day" />
+                      <YAxis domain={[0, 100]} unit="%" />
+                      <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+                      <Legend />
+                      {arms.map((arm, index) => (
+                        <Area
+                          key={arm.id}
+                          type="monotone"
+                          dataKey={`arm${index}`}
+                          stackId="allocation"
+                          stroke={VARIANT_COLORS[index % VARIANT_COLORS.length]}
+                          fill={VARIANT_COLORS[index % VARIANT_COLORS.length]}
+                          name={arm.name}
+                        />
+                      ))}
+                    </AreaChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Final-Day Allocation</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-wrap gap-2">
+                {results.allocationPath[results.allocationPath.length - 1].shares.map((share, index) => (
+                  <Badge key={arms[index]?.id ?? index} variant={index === results.bestArm ? 'default' : 'outline'}>
+                    {arms[index]?.name}: {(share * 100).toFixed(1)}%
+                  </Badge>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
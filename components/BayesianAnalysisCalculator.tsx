@@ -0,0 +1,323 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Separator } from './ui/separator';
+import { Alert, AlertDescription } from './ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Brain, Plus, Trash2, Trophy, AlertTriangle } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { BayesianArmResult, VariantObservation } from '../types/statistics';
+import { VARIANT_COLORS } from '../constants/experimentDefaults';
+import { calculateBayesianResults, getPosteriorDensityCurve } from '../utils/bayesianAnalysis';
+
+export function BayesianAnalysisCalculator() {
+  const [variants, setVariants] = useState<VariantObservation[]>([
+    { id: 'control', name: 'Control (A)', visitors: 1000, conversions: 50 },
+    { id: 'treatment', name: 'Treatment (B)', visitors: 1000, conversions: 60 }
+  ]);
+  const [priorAlpha, setPriorAlpha] = useState<number>(1);
+  const [priorBeta, setPriorBeta] = useState<number>(1);
+  const [credibleLevel, setCredibleLevel] = useState<number>(95);
+  const [lossThreshold, setLossThreshold] = useState<number>(0.1);
+
+  const [results, setResults] = useState<BayesianArmResult[] | null>(null);
+  const [densityCurve, setDensityCurve] = useState<Array<{ [key: string]: number }>>([]);
+
+  const addVariant = () => {
+    const letter = String.fromCharCode(65 + variants.length);
+    setVariants(prev => [
+      ...prev,
+      { id: `variant_${Date.now()}`, name: `Variant ${letter}`, visitors: 1000, conversions: 50 }
+    ]);
+  };
+
+  const removeVariant = (id: string) => {
+    setVariants(prev => prev.filter(v => v.id !== id));
+  };
+
+  const updateVariant = (id: string, updates: Partial<VariantObservation>) => {
+    setVariants(prev => prev.map(v => v.id === id ? { ...v, ...updates } : v));
+  };
+
+  useEffect(() => {
+    const isValid = variants.length >= 2 &&
+      priorAlpha > 0 && priorBeta > 0 &&
+      variants.every(v => v.visitors > 0 && v.conversions >= 0 && v.conversions <= v.visitors);
+
+    if (!isValid) {
+      setResults(null);
+      return;
+    }
+
+    const armResults = calculateBayesianResults(variants, { alpha: priorAlpha, beta: priorBeta }, credibleLevel / 100);
+    setResults(armResults);
+    setDensityCurve(getPosteriorDensityCurve(armResults));
+  }, [variants, priorAlpha, priorBeta, credibleLevel]);
+
+  const bestArm = results?.reduce((best, arm) => arm.probabilityToBeBest > best.probabilityToBeBest ? arm : best);
+  const isDecisionReady = bestArm ? bestArm.expectedLoss * 100 < lossThreshold : false;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Input Data */}
+      <div className="lg:col-span-1">
+        <Card>
+          <CardHeader>
+            <CardTitle>Test Data</CardTitle>
+            <CardDescription>Visitors and conversions per arm; the first arm is the control</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {variants.map((variant, index) => (
+              <div key={variant.id} className="space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 flex-1">
+                    <div className="w-3 h-3 rounded-full" style={{ backgroundColor: VARIANT_COLORS[index % VARIANT_COLORS.length] }}></div>
+                    <Input
+                      value={variant.name}
+                      onChange={(e) => updateVariant(variant.id, { name: e.target.value })}
+                      className="h-8"
+                    />
+                  </div>
+                  {index > 1 && (
+                    <Button variant="ghost" size="sm" onClick={() => removeVariant(variant.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Visitors</Label>
+                    <Input
+                      type="number"
+                      value={variant.visitors}
+                      onChange={(e) => updateVariant(variant.id, { visitors: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Conversions</Label>
+                    <Input
+                      type="number"
+                      value={variant.conversions}
+                      onChange={(e) => updateVariant(variant.id, { conversions: Number(e.target.value) })}
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            {variants.length < VARIANT_COLORS.length && (
+              <Button onClick={addVariant} variant="outline" size="sm" className="w-full">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Variant
+              </Button>
+            )}
+
+            <Separator />
+
+            <div className="space-y-3">
+              <h4>Beta Prior</h4>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="priorAlpha">Alpha (α)</Label>
+                  <Input
+                    id="priorAlpha"
+                    type="number"
+                    step="0.5"
+                    value={priorAlpha}
+                    onChange={(e) => setPriorAlpha(Number(e.target.value))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="priorBeta">Beta (β)</Label>
+                  <Input
+                    id="priorBeta"
+                    type="number"
+                    step="0.5"
+                    value={priorBeta}
+                    onChange={(e) => setPriorBeta(Number(e.target.value))}
+                  />
+                </div>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                Beta(1, 1) is uniform. An informative prior such as Beta(5, 95) encodes a ~5% historical rate worth 100 visitors.
+              </div>
+            </div>
+
+            <Separator />
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="credibleLevel">Credible Level (%)</Label>
+                <select
+                  id="credibleLevel"
+                  className="w-full p-2 border rounded-md"
+                  value={credibleLevel}
+                  onChange={(e) => setCredibleLevel(Number(e.target.value))}
+                >
+                  <option value={90}>90%</option>
+                  <option value={95}>95%</option>
+                  <option value={99}>99%</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lossThreshold">Loss Threshold (pp)</Label>
+                <Input
+                  id="lossThreshold"
+                  type="number"
+                  step="0.01"
+                  value={lossThreshold}
+                  onChange={(e) => setLossThreshold(Number(e.target.value))}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Results */}
+      <div className="lg:col-span-2">
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Brain className="h-5 w-5" />
+                Bayesian Results
+              </CardTitle>
+              <CardDescription>
+                Beta-binomial posteriors with a Beta({priorAlpha}, {priorBeta}) prior
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {results && bestArm ? (
+                <div className="space-y-6">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="result-card">
+                      <div className="value">{bestArm.name}</div>
+                      <div className="label">Most Likely Best</div>
+                    </div>
+                    <div className="result-card">
+                      <div className="value">{(bestArm.probabilityToBeBest * 100).toFixed(1)}%</div>
+                      <div className="label">P(Best)</div>
+                    </div>
+                    <div className="result-card">
+                      <div className="value">{(results[1].probabilityToBeatControl * 100).toFixed(1)}%</div>
+                      <div className="label">P({results[1].name} &gt; {results[0].name})</div>
+                    </div>
+                    <div className="result-card">
+                      <div className="value">{(bestArm.expectedLoss * 100).toFixed(3)}pp</div>
+                      <div className="label">Expected Loss</div>
+                    </div>
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Arm</TableHead>
+                        <TableHead className="text-right">Posterior Mean</TableHead>
+                        <TableHead className="text-right">{credibleLevel}% CrI</TableHead>
+                        <TableHead className="text-right">P(Beat Control)</TableHead>
+                        <TableHead className="text-right">P(Best)</TableHead>
+                        <TableHead className="text-right">Expected Loss</TableHead>
+                        <TableHead className="text-right">Relative Lift {credibleLevel}% CrI</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {results.map((arm, index) => (
+                        <TableRow key={arm.id}>
+                          <TableCell>
+                            {arm.name}
+                            {index === 0 && <Badge variant="outline" className="ml-2">Control</Badge>}
+                          </TableCell>
+                          <TableCell className="text-right">{(arm.posteriorMean * 100).toFixed(2)}%</TableCell>
+                          <TableCell className="text-right">
+                            {(arm.credibleInterval[0] * 100).toFixed(2)}% – {(arm.credibleInterval[1] * 100).toFixed(2)}%
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {index === 0 ? '—' : `${(arm.probabilityToBeatControl * 100).toFixed(1)}%`}
+                          </TableCell>
+                          <TableCell className="text-right">{(arm.probabilityToBeBest * 100).toFixed(1)}%</TableCell>
+                          <TableCell className="text-right">{(arm.expectedLoss * 100).toFixed(3)}pp</TableCell>
+                          <TableCell className="text-right">
+                            {index === 0
+                              ? '—'
+                              : `${arm.relativeLiftCredibleInterval[0].toFixed(1)}% to ${arm.relativeLiftCredibleInterval[1].toFixed(1)}%`}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+
+                  {isDecisionReady ? (
+                    <Alert>
+                      <Trophy className="h-4 w-4" />
+                      <AlertDescription>
+                        Choosing {bestArm.name} risks an expected loss of {(bestArm.expectedLoss * 100).toFixed(3)} percentage points,
+                        below your {lossThreshold}pp threshold. It is safe to ship.
+                      </AlertDescription>
+                    </Alert>
+                  ) : (
+                    <Alert>
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertDescription>
+                        The expected loss of the leading arm is still above {lossThreshold}pp. Keep collecting data before deciding.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                </div>
+              ) : (
+                <div className="text-center text-muted-foreground py-8">
+                  Enter valid visitors, conversions and a positive prior to see results
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {results && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Posterior Distributions</CardTitle>
+                <CardDescription>Belief about each arm's conversion rate after seeing the data</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="h-80">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={densityCurve}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis
+                        dataKey="rate"
+                        type="number"
+                        domain={['dataMin', 'dataMax']}
+                        tickFormatter={(value: number) => `${value.toFixed(1)}%`}
+                        label={{ value: 'Conversion Rate (%)', position: 'insideBottom', offset: -5 }}
+                      />
+                      <YAxis label={{ value: 'Density', angle: -90, position: 'insideLeft' }} />
+                      <Tooltip
+                        formatter={(value: any, name: string) => [value.toFixed(3), name]}
+                        labelFormatter={(label: number) => `Rate: ${label.toFixed(2)}%`}
+                      />
+                      <Legend />
+                      {results.map((arm, index) => (
+                        <Line
+                          key={arm.id}
+                          type="monotone"
+                          dataKey={arm.id}
+                          stroke={VARIANT_COLORS[index % VARIANT_COLORS.length]}
+                          strokeWidth={2}
+                          dot={false}
+                          name={arm.name}
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,430 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Separator } from './ui/separator';
+import { Textarea } from './ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Alert, AlertDescription } from './ui/alert';
+import { CheckCircle, XCircle, AlertTriangle, TrendingUp, Gauge, ShieldAlert } from 'lucide-react';
+import { SampleRatioMismatchCheck } from './SampleRatioMismatchCheck';
+import { CupedResult, PrePostObservation, SampleSummary, WelchTTestResult } from '../types/statistics';
+import { summarizeSample, welchTTest } from '../utils/hypothesisTests';
+import { parseNumericRows, parseNumericValues } from '../utils/dataParsing';
+import { cupedAnalysis } from '../utils/cuped';
+import { detectSampleRatioMismatch } from '../utils/sampleRatioMismatch';
+
+// Each line holds one user's pre-period and in-experiment value
+const parsePrePost = (text: string): PrePostObservation[] => {
+  return parseNumericRows(text)
+    .filter(row => row.length === 2)
+    .map(([pre, post]) => ({ pre, post }));
+};
+
+export function ContinuousMetricAnalysis() {
+  const [inputMode, setInputMode] = useState<string>('summary');
+  const [meanA, setMeanA] = useState<number>(25);
+  const [standardDeviationA, setStandardDeviationA] = useState<number>(40);
+  const [sampleSizeA, setSampleSizeA] = useState<number>(1000);
+  const [meanB, setMeanB] = useState<number>(27.5);
+  const [standardDeviationB, setStandardDeviationB] = useState<number>(42);
+  const [sampleSizeB, setSampleSizeB] = useState<number>(1000);
+  const [rawValuesA, setRawValuesA] = useState<string>('');
+  const [rawValuesB, setRawValuesB] = useState<string>('');
+  const [prePostA, setPrePostA] = useState<string>('');
+  const [prePostB, setPrePostB] = useState<string>('');
+  const [confidenceLevel, setConfidenceLevel] = useState<number>(95);
+  const [plannedAllocations, setPlannedAllocations] = useState<{ [key: string]: number }>({});
+  const [srmThreshold, setSrmThreshold] = useState<number>(0.001);
+
+  const [results, setResults] = useState<WelchTTestResult | null>(null);
+  const [cupedResult, setCupedResult] = useState<CupedResult | null>(null);
+
+  const getSummaries = (): [SampleSummary, SampleSummary] => {
+    if (inputMode === 'raw') {
+      return [
+        summarizeSample(parseNumericValues(rawValuesA)),
+        summarizeSample(parseNumericValues(rawValuesB))
+      ];
+    }
+    if (inputMode === 'cuped') {
+      return [
+        summarizeSample(parsePrePost(prePostA).map(o => o.post)),
+        summarizeSample(parsePrePost(prePostB).map(o => o.post))
+      ];
+    }
+    return [
+      { mean: meanA, standardDeviation: standardDeviationA, n: sampleSizeA },
+      { mean: meanB, standardDeviation: standardDeviationB, n: sampleSizeB }
+    ];
+  };
+
+  useEffect(() => {
+    const [summaryA, summaryB] = getSummaries();
+    const alpha = (100 - confidenceLevel) / 100;
+    if (summaryA.n > 1 && summaryB.n > 1 && (summaryA.standardDeviation > 0 || summaryB.standardDeviation > 0)) {
+      if (inputMode === 'cuped') {
+        const cuped = cupedAnalysis(parsePrePost(prePostA), parsePrePost(prePostB), alpha);
+        setCupedResult(cuped);
+        setResults(cuped.adjusted);
+      } else {
+        setCupedResult(null);
+        setResults(welchTTest(summaryA, summaryB, alpha));
+      }
+    } else {
+      setCupedResult(null);
+      setResults(null);
+    }
+  }, [inputMode, meanA, standardDeviationA, sampleSizeA, meanB, standardDeviationB, sampleSizeB, rawValuesA, rawValuesB, prePostA, prePostB, confidenceLevel]);
+
+  const [summaryA, summaryB] = getSummaries();
+
+  // Users per arm are the assignment counts; arms without an explicit plan get an equal split
+  const arms = [
+    { id: 'control', name: 'Variant A (Control)', visitors: summaryA.n },
+    { id: 'treatment', name: 'Variant B (Treatment)', visitors: summaryB.n }
+  ];
+  const allocations = arms.map(arm => plannedAllocations[arm.id] ?? 50);
+  const srmResult = summaryA.n > 0 && summaryB.n > 0
+    ? detectSampleRatioMismatch(arms.map(arm => arm.visitors), allocations, srmThreshold)
+    : null;
+  const isVerdictBlocked = srmResult?.isMismatch ?? false;
+
+  const renderArmInputs = (
+    arm: 'A' | 'B',
+    mean: number,
+    setMean: (value: number) => void,
+    standardDeviation: number,
+    setStandardDeviation: (value: number) => void,
+    sampleSize: number,
+    setSampleSize: (value: number) => void,
+    rawValues: string,
+    setRawValues: (value: string) => void,
+    prePost: string,
+    setPrePost: (value: string) => void
+  ) => (
+    inputMode === 'cuped' ? (
+      <div className="space-y-2">
+        <Label htmlFor={`prePost${arm}`}>Per-user pre, post values</Label>
+        <Textarea
+          id={`prePost${arm}`}
+          value={prePost}
+          onChange={(e) => setPrePost(e.target.value)}
+          placeholder={'One user per line: pre-period value, experiment value\ne.g. 12.5, 14.0'}
+          className="h-32 font-mono text-xs"
+        />
+      </div>
+    ) : inputMode === 'raw' ? (
+      <div className="space-y-2">
+        <Label htmlFor={`raw${arm}`}>Per-user values</Label>
+        <Textarea
+          id={`raw${arm}`}
+          value={rawValues}
+          onChange={(e) => setRawValues(e.target.value)}
+          placeholder="Paste one value per line, or comma separated"
+          className="h-32 font-mono text-xs"
+        />
+      </div>
+    ) : (
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor={`mean${arm}`}>Mean</Label>
+          <Input
+            id={`mean${arm}`}
+            type="number"
+            value={mean}
+            onChange={(e) => setMean(Number(e.target.value))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`sd${arm}`}>Std. Dev.</Label>
+          <Input
+            id={`sd${arm}`}
+            type="number"
+            value={standardDeviation}
+            onChange={(e) => setStandardDeviation(Number(e.target.value))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`n${arm}`}>Users</Label>
+          <Input
+            id={`n${arm}`}
+            type="number"
+            value={sampleSize}
+            onChange={(e) => setSampleSize(Number(e.target.value))}
+          />
+        </div>
+      </div>
+    )
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Input Data */}
+      <div className="lg:col-span-1">
+        <Card>
+          <CardHeader>
+            <CardTitle>Test Data</CardTitle>
+            <CardDescription>Enter per-arm summaries or raw per-user values</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-2">
+              <Label>Input Method</Label>
+              <Select value={inputMode} onValueChange={setInputMode}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="summary">Summary Statistics</SelectItem>
+                  <SelectItem value="raw">Raw Per-User Values</SelectItem>
+                  <SelectItem value="cuped">Pre/Post Values (CUPED)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-4">
+              <h4 className="flex items-center gap-2">
+                <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
+                Variant A (Control)
+              </h4>
+              {renderArmInputs('A', meanA, setMeanA, standardDeviationA, setStandardDeviationA, sampleSizeA, setSampleSizeA, rawValuesA, setRawValuesA, prePostA, setPrePostA)}
+              {inputMode !== 'summary' && (
+                <div className="text-sm text-muted-foreground">
+                  n = {summaryA.n}, mean = {summaryA.mean.toFixed(2)}, sd = {summaryA.standardDeviation.toFixed(2)}
+                </div>
+              )}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-4">
+              <h4 className="flex items-center gap-2">
+                <div className="w-3 h-3 bg-green-500 rounded-full"></div>
+                Variant B (Treatment)
+              </h4>
+              {renderArmInputs('B', meanB, setMeanB, standardDeviationB, setStandardDeviationB, sampleSizeB, setSampleSizeB, rawValuesB, setRawValuesB, prePostB, setPrePostB)}
+              {inputMode !== 'summary' && (
+                <div className="text-sm text-muted-foreground">
+                  n = {summaryB.n}, mean = {summaryB.mean.toFixed(2)}, sd = {summaryB.standardDeviation.toFixed(2)}
+                </div>
+              )}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label htmlFor="continuousConfidenceLevel">Confidence Level (%)</Label>
+              <select
+                id="continuousConfidenceLevel"
+                className="w-full p-2 border rounded-md"
+                value={confidenceLevel}
+                onChange={(e) => setConfidenceLevel(Number(e.target.value))}
+              >
+                <option value={90}>90%</option>
+                <option value={95}>95%</option>
+                <option value={99}>99%</option>
+              </select>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Results */}
+      <div className="lg:col-span-2">
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {results?.isSignificant && !isVerdictBlocked ? (
+                  <CheckCircle className="h-5 w-5 text-green-600" />
+                ) : (
+                  <XCircle className="h-5 w-5 text-red-600" />
+                )}
+                {cupedResult ? "CUPED-Adjusted Welch's t-test Results" : "Welch's t-test Results"}
+              </CardTitle>
+              <CardDescription>
+                Difference in means at {confidenceLevel}% confidence level, without assuming equal variances
+                {cupedResult && ', after adjusting for the pre-period covariate'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {results ? (
+                <div className="space-y-6">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="result-card">
+                      {isVerdictBlocked ? (
+                        <div className="value text-yellow-600">SRM</div>
+                      ) : (
+                        <div className={`value ${results.isSignificant ? 'text-green-600' : results.pValue < 0.1 ? 'text-yellow-600' : 'text-red-600'}`}>
+                          {results.isSignificant ? "YES" : "NO"}
+                        </div>
+                      )}
+                      <div className="label">Significant</div>
+                    </div>
+                    <div className="result-card">
+                      <div className="value">{results.pValue.toFixed(4)}</div>
+                      <div className="label">P-Value</div>
+                    </div>
+                    <div className="result-card">
+                      <div className="value">{results.relativeDifference > 0 ? '+' : ''}{results.relativeDifference.toFixed(1)}%</div>
+                      <div className="label">Relative Change</div>
+                    </div>
+                    <div className="result-card">
+                      <div className="value">{results.tStatistic.toFixed(2)}</div>
+                      <div className="label">t-Statistic</div>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="p-4 bg-muted/50 rounded-lg">
+                      <h4 className="mb-2">Absolute Difference ({confidenceLevel}% CI)</h4>
+                      <div className="text-sm text-muted-foreground mb-2">
+                        Estimate: {results.absoluteDifference.toFixed(3)}
+                      </div>
+                      <Badge variant="outline" className="text-lg px-3 py-1">
+                        {results.absoluteConfidenceInterval[0].toFixed(3)} to {results.absoluteConfidenceInterval[1].toFixed(3)}
+                      </Badge>
+                    </div>
+                    <div className="p-4 bg-muted/50 rounded-lg">
+                      <h4 className="mb-2">Relative Difference ({confidenceLevel}% CI)</h4>
+                      <div className="text-sm text-muted-foreground mb-2">
+                        Estimate: {results.relativeDifference.toFixed(2)}%
+                      </div>
+                      <Badge variant="outline" className="text-lg px-3 py-1">
+                        {results.relativeConfidenceInterval[0].toFixed(2)}% to {results.relativeConfidenceInterval[1].toFixed(2)}%
+                      </Badge>
+                    </div>
+                  </div>
+
+                  {isVerdictBlocked && (
+                    <Alert>
+                      <ShieldAlert className="h-4 w-4" />
+                      <AlertDescription>
+                        A sample ratio mismatch was detected, so this result cannot be trusted. Investigate assignment
+                        and logging before acting on it.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                </div>
+              ) : (
+                <div className="text-center text-muted-foreground py-8">
+                  Enter at least two observations per variant to see results
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {cupedResult && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Gauge className="h-5 w-5" />
+                  Variance Reduction
+                </CardTitle>
+                <CardDescription>How much the pre-period covariate tightened the estimate</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                  <div className="result-card">
+                    <div className="value text-green-600">{(cupedResult.varianceReduction * 100).toFixed(1)}%</div>
+                    <div className="label">Variance Reduction</div>
+                  </div>
+                  <div className="result-card">
+                    <div className="value">{cupedResult.correlation.toFixed(3)}</div>
+                    <div className="label">Pre/Post Correlation</div>
+                  </div>
+                  <div className="result-card">
+                    <div className="value">{cupedResult.theta.toFixed(3)}</div>
+                    <div className="label">θ (Adjustment Slope)</div>
+                  </div>
+                </div>
+
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span>Unadjusted difference ({confidenceLevel}% CI):</span>
+                    <Badge variant="outline">
+                      {cupedResult.unadjusted.absoluteDifference.toFixed(3)} [{cupedResult.unadjusted.absoluteConfidenceInterval[0].toFixed(3)}, {cupedResult.unadjusted.absoluteConfidenceInterval[1].toFixed(3)}]
+                    </Badge>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>CUPED difference ({confidenceLevel}% CI):</span>
+                    <Badge variant="outline">
+                      {cupedResult.adjusted.absoluteDifference.toFixed(3)} [{cupedResult.adjusted.absoluteConfidenceInterval[0].toFixed(3)}, {cupedResult.adjusted.absoluteConfidenceInterval[1].toFixed(3)}]
+                    </Badge>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Unadjusted p-value:</span>
+                    <Badge variant="outline">{cupedResult.unadjusted.pValue.toFixed(4)}</Badge>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {results && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <TrendingUp className="h-5 w-5" />
+                  Detailed Analysis
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-3">
+                    <h4>Test Statistics</h4>
+                    <div className="space-y-2">
+                      <div className="flex justify-between">
+                        <span className="text-sm">Welch–Satterthwaite df:</span>
+                        <Badge variant="outline">{results.degreesOfFreedom.toFixed(1)}</Badge>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-sm">Standard error:</span>
+                        <Badge variant="outline">{results.standardError.toFixed(4)}</Badge>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="space-y-3">
+                    <h4>Means</h4>
+                    <div className="space-y-2">
+                      <div className="flex justify-between">
+                        <span className="text-sm">Control (A):</span>
+                        <Badge variant="outline">{results.meanA.toFixed(3)}</Badge>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-sm">Treatment (B):</span>
+                        <Badge variant="outline">{results.meanB.toFixed(3)}</Badge>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+
+                {Math.min(summaryA.n, summaryB.n) < 30 && (
+                  <Alert>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      Small samples: the t-test relies on approximately normal means. Skewed metrics such as revenue need more users per arm.
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {srmResult && (
+            <SampleRatioMismatchCheck
+              variants={arms}
+              allocations={allocations}
+              onAllocationChange={(id, allocation) => setPlannedAllocations(prev => ({ ...prev, [id]: allocation }))}
+              threshold={srmThreshold}
+              onThresholdChange={setSrmThreshold}
+              result={srmResult}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,12 +5,17 @@ import { Label } from './ui/label';
 import { Button } from './ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Textarea } from './ui/textarea';
-import { Settings, Download, Copy } from 'lucide-react';
+import { Checkbox } from './ui/checkbox';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Settings, Download, Copy, Layers } from 'lucide-react';
 import { PieChart, Pie, Cell, ResponsiveContainer } from 'recharts';
 import { VariantConfig } from './VariantConfig';
-import { ExperimentConfig, DesignAnalysis } from '../types/experiment';
-import { DEFAULT_EXPERIMENT_CONFIG, PRIMARY_METRICS, POWER_OPTIONS, SIGNIFICANCE_OPTIONS } from '../constants/experimentDefaults';
-import { calculateSampleSize, calculateBonferroniAdjustment } from '../utils/statisticalCalculations';
+import { ExperimentConfig, ExperimentVariant, DesignAnalysis, ComparisonAlpha, CorrectionPenalty } from '../types/experiment';
+import { MultipleComparisonCorrection } from '../types/statistics';
+import { DEFAULT_EXPERIMENT_CONFIG, PRIMARY_METRICS, POWER_OPTIONS, SIGNIFICANCE_OPTIONS, MULTIPLE_COMPARISON_OPTIONS } from '../constants/experimentDefaults';
+import { calculateBonferroniAdjustment, calculateSampleSize } from '../utils/statisticalCalculations';
+import { getPlanningAlphas, getDunnettPlanningAlpha } from '../utils/multipleComparisons';
 
 export function ExperimentDesigner() {
   const [config, setConfig] = useState<ExperimentConfig>(DEFAULT_EXPERIMENT_CONFIG);
@@ -18,6 +23,60 @@ export function ExperimentDesigner() {
   const [dailyTraffic, setDailyTraffic] = useState<number>(1000);
   const [costPerVisitor, setCostPerVisitor] = useState<number>(0.50);
 
+  const getMetricLabel = (metric: string) => PRIMARY_METRICS.find(m => m.value === metric)?.label ?? metric;
+
+  // Per-comparison α for every treatment × metric pair. Primary-metric comparisons are
+  // expected to be tested first, largest expected effect leading, then secondary metrics.
+  const getComparisonAlphas = (
+    strategy: MultipleComparisonCorrection,
+    controlVariant: ExperimentVariant,
+    treatmentVariants: ExperimentVariant[],
+    alpha: number
+  ): ComparisonAlpha[] => {
+    const metrics = [config.primaryMetric, ...config.secondaryMetrics];
+    const orderedTreatments = [...treatmentVariants].sort((a, b) =>
+      Math.abs(b.expectedConversionRate - controlVariant.expectedConversionRate) -
+      Math.abs(a.expectedConversionRate - controlVariant.expectedConversionRate)
+    );
+    const comparisons = metrics.flatMap(metric => orderedTreatments.map(variant => ({
+      id: `${metric}:${variant.id}`,
+      variantId: variant.id,
+      variantName: variant.name,
+      metric
+    })));
+
+    if (strategy === 'dunnett') {
+      // Dunnett covers the many-to-one family within a metric; metrics are split by Bonferroni
+      const lambdas = orderedTreatments.map(variant => {
+        const control = Math.max(controlVariant.trafficAllocation, 1e-6);
+        const treatment = Math.max(variant.trafficAllocation, 1e-6);
+        return Math.sqrt(treatment / (treatment + control));
+      });
+      const perComparisonAlpha = getDunnettPlanningAlpha(calculateBonferroniAdjustment(metrics.length, alpha), lambdas);
+      return comparisons.map(comparison => ({ ...comparison, adjustedAlpha: perComparisonAlpha }));
+    }
+
+    const alphas = getPlanningAlphas(alpha, comparisons.length, strategy);
+    return comparisons.map((comparison, rank) => ({ ...comparison, adjustedAlpha: alphas[rank] }));
+  };
+
+  const getVariantSampleSize = (controlVariant: ExperimentVariant, variant: ExperimentVariant, alpha: number) => {
+    const effectSize = ((variant.expectedConversionRate - controlVariant.expectedConversionRate) / controlVariant.expectedConversionRate) * 100;
+    return calculateSampleSize(controlVariant.expectedConversionRate, Math.abs(effectSize), config.power, alpha);
+  };
+
+  // Sample size is driven by the primary metric, each comparison at its own adjusted α
+  const getTotalSampleSize = (
+    controlVariant: ExperimentVariant,
+    treatmentVariants: ExperimentVariant[],
+    alphaFor: (variant: ExperimentVariant) => number
+  ) => {
+    const maxSampleSize = Math.max(0, ...treatmentVariants.map(variant =>
+      getVariantSampleSize(controlVariant, variant, alphaFor(variant))
+    ));
+    return (maxSampleSize * config.variants.length) / (config.totalTrafficAllocation / 100);
+  };
+
   const performDesignAnalysis = (): DesignAnalysis => {
     const controlVariant = config.variants.find(v => v.isControl);
     const treatmentVariants = config.variants.filter(v => !v.isControl);
@@ -29,24 +88,28 @@ export function ExperimentDesigner() {
         expectedDuration: 0,
         powerAnalysis: {},
         multipleComparisonsAdjustment: 0,
+        comparisonAlphas: [],
+        correctionPenalties: [],
         estimatedCost: 0
       };
     }
 
     const alpha = (100 - config.significance) / 100;
-    const numComparisons = treatmentVariants.length;
-    const adjustedAlpha = calculateBonferroniAdjustment(numComparisons, alpha);
+    const primaryAlphaFor = (comparisonAlphas: ComparisonAlpha[]) => (variant: ExperimentVariant) =>
+      comparisonAlphas.find(c => c.metric === config.primaryMetric && c.variantId === variant.id)?.adjustedAlpha ?? alpha;
+
+    const comparisonAlphas = getComparisonAlphas(config.multipleComparisonCorrection, controlVariant, treatmentVariants, alpha);
+    const getAdjustedAlpha = primaryAlphaFor(comparisonAlphas);
     
     const sampleSizePerVariant: { [key: string]: number } = {};
     const powerAnalysis: { [key: string]: number } = {};
     let maxSampleSize = 0;
     
     treatmentVariants.forEach(variant => {
-      const effectSize = ((variant.expectedConversionRate - controlVariant.expectedConversionRate) / controlVariant.expectedConversionRate) * 100;
-      const sampleSize = calculateSampleSize(controlVariant.expectedConversionRate, Math.abs(effectSize), config.power, adjustedAlpha);
+      const sampleSize = getVariantSampleSize(controlVariant, variant, getAdjustedAlpha(variant));
       
       sampleSizePerVariant[variant.id] = sampleSize;
-      sampleSizePerVariant[controlVariant.id] = sampleSize;
+      sampleSizePerVariant[controlVariant.id] = Math.max(sampleSizePerVariant[controlVariant.id] ?? 0, sampleSize);
       powerAnalysis[variant.id] = config.power;
       
       maxSampleSize = Math.max(maxSampleSize, sampleSize);
@@ -57,12 +120,25 @@ export function ExperimentDesigner() {
     const expectedDuration = Math.ceil(adjustedTotalSample / dailyTraffic);
     const estimatedCost = adjustedTotalSample * costPerVisitor;
 
+    const unadjustedTotal = getTotalSampleSize(controlVariant, treatmentVariants, () => alpha);
+    const correctionPenalties: CorrectionPenalty[] = MULTIPLE_COMPARISON_OPTIONS.map(option => {
+      const strategyAlphas = getComparisonAlphas(option.value, controlVariant, treatmentVariants, alpha);
+      const strategyTotal = getTotalSampleSize(controlVariant, treatmentVariants, primaryAlphaFor(strategyAlphas));
+      return {
+        strategy: option.value,
+        totalSampleSize: strategyTotal,
+        penalty: unadjustedTotal > 0 ? (strategyTotal / unadjustedTotal - 1) * 100 : 0
+      };
+    });
+
     return {
       totalSampleSize: adjustedTotalSample,
       sampleSizePerVariant,
       expectedDuration,
       powerAnalysis,
-      multipleComparisonsAdjustment: adjustedAlpha,
+      multipleComparisonsAdjustment: Math.min(alpha, ...comparisonAlphas.map(c => c.adjustedAlpha)),
+      comparisonAlphas,
+      correctionPenalties,
       estimatedCost
     };
   };
@@ -148,7 +224,11 @@ export function ExperimentDesigner() {
                 <Label htmlFor="primaryMetric">Primary Metric</Label>
                 <Select 
                   value={config.primaryMetric} 
-                  onValueChange={(value) => setConfig(prev => ({ ...prev, primaryMetric: value }))}
+                  onValueChange={(value) => setConfig(prev => ({
+                    ...prev,
+                    primaryMetric: value,
+                    secondaryMetrics: prev.secondaryMetrics.filter(m => m !== value)
+                  }))}
                 >
                   <SelectTrigger>
                     <SelectValue />
@@ -163,6 +243,27 @@ export function ExperimentDesigner() {
                 </Select>
               </div>
               
+              <div className="space-y-2">
+                <Label>Secondary Metrics</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {PRIMARY_METRICS.filter(metric => metric.value !== config.primaryMetric).map(metric => (
+                    <div key={metric.value} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`secondary-${metric.value}`}
+                        checked={config.secondaryMetrics.includes(metric.value)}
+                        onCheckedChange={(checked) => setConfig(prev => ({
+                          ...prev,
+                          secondaryMetrics: checked
+                            ? [...prev.secondaryMetrics, metric.value]
+                            : prev.secondaryMetrics.filter(m => m !== metric.value)
+                        }))}
+                      />
+                      <Label htmlFor={`secondary-${metric.value}`} className="text-sm">{metric.label}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label>Min. Detectable Effect (%)</Label>
@@ -211,6 +312,25 @@ export function ExperimentDesigner() {
                 </Select>
               </div>
               
+              <div className="space-y-2">
+                <Label>Multiple Comparison Correction</Label>
+                <Select 
+                  value={config.multipleComparisonCorrection} 
+                  onValueChange={(value) => setConfig(prev => ({ ...prev, multipleComparisonCorrection: value as MultipleComparisonCorrection }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MULTIPLE_COMPARISON_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
               <div className="space-y-2">
                 <Label htmlFor="successCriteria">Success Criteria</Label>
                 <Textarea
@@ -295,7 +415,7 @@ export function ExperimentDesigner() {
                     <div>${analysis.estimatedCost.toFixed(2)}</div>
                   </div>
                   <div>
-                    <div className="text-muted-foreground">Adjusted α</div>
+                    <div className="text-muted-foreground">Strictest Adjusted α</div>
                     <div>{analysis.multipleComparisonsAdjustment.toFixed(4)}</div>
                   </div>
                 </div>
@@ -305,6 +425,77 @@ export function ExperimentDesigner() {
         </Card>
       </div>
 
+      {/* Multiple Comparison Adjustment */}
+      {analysis && analysis.comparisonAlphas.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Layers className="h-5 w-5" />
+              Multiple Comparison Adjustment
+            </CardTitle>
+            <CardDescription>
+              {analysis.comparisonAlphas.length} comparisons across {config.secondaryMetrics.length + 1} metric{config.secondaryMetrics.length > 0 ? 's' : ''}, 
+              planned with the largest expected effects tested first
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <h4 className="text-sm">Adjusted α per Comparison</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Variant</TableHead>
+                    <TableHead>Metric</TableHead>
+                    <TableHead className="text-right">Adjusted α</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {analysis.comparisonAlphas.map(comparison => (
+                    <TableRow key={comparison.id}>
+                      <TableCell>{comparison.variantName}</TableCell>
+                      <TableCell>
+                        {getMetricLabel(comparison.metric)}
+                        {comparison.metric === config.primaryMetric && <Badge variant="outline" className="ml-2">Primary</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right">{comparison.adjustedAlpha.toFixed(4)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm">Sample Size Penalty by Strategy</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Strategy</TableHead>
+                    <TableHead className="text-right">Total Sample</TableHead>
+                    <TableHead className="text-right">Penalty</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {analysis.correctionPenalties.map(penalty => (
+                    <TableRow key={penalty.strategy}>
+                      <TableCell>
+                        {MULTIPLE_COMPARISON_OPTIONS.find(o => o.value === penalty.strategy)?.label}
+                        {penalty.strategy === config.multipleComparisonCorrection && <Badge className="ml-2">Selected</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right">{Math.ceil(penalty.totalSampleSize).toLocaleString()}</TableCell>
+                      <TableCell className="text-right">+{penalty.penalty.toFixed(1)}%</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <div className="text-xs text-muted-foreground">
+                Penalty is the extra sample needed relative to testing every comparison at the unadjusted α. 
+                Benjamini–Hochberg controls the false discovery rate rather than the family-wise error rate.
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Traffic Allocation Visualization */}
       {config.variants.length > 0 && (
         <Card>
@@ -0,0 +1,154 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription } from './ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { CheckCircle, XCircle, AlertTriangle, Layers, ShieldAlert } from 'lucide-react';
+import { MultipleComparisonCorrection, VariantObservation } from '../types/statistics';
+import { MULTIPLE_COMPARISON_OPTIONS } from '../constants/experimentDefaults';
+import { chiSquareHomogeneityTest, compareToControl } from '../utils/hypothesisTests';
+
+interface MultiVariantComparisonProps {
+  variants: VariantObservation[];
+  confidenceLevel: number;
+  correction: MultipleComparisonCorrection;
+  isVerdictBlocked?: boolean;
+}
+
+export function MultiVariantComparison({ variants, confidenceLevel, correction, isVerdictBlocked = false }: MultiVariantComparisonProps) {
+  const alpha = (100 - confidenceLevel) / 100;
+  const omnibus = chiSquareHomogeneityTest(variants);
+  const comparisons = compareToControl(variants, alpha, correction);
+  const isOmnibusSignificant = omnibus.pValue < alpha;
+  const correctionLabel = MULTIPLE_COMPARISON_OPTIONS.find(o => o.value === correction)?.label ?? correction;
+  const winners = comparisons.filter(c => c.isSignificant && c.absoluteDifference > 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Omnibus Test */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {isOmnibusSignificant ? (
+              <CheckCircle className="h-5 w-5 text-green-600" />
+            ) : (
+              <XCircle className="h-5 w-5 text-red-600" />
+            )}
+            Chi-Square Test of Homogeneity
+          </CardTitle>
+          <CardDescription>
+            Do any of the {variants.length} arms differ? Tested at {confidenceLevel}% confidence level
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="result-card">
+              {isVerdictBlocked ? (
+                <div className="value text-yellow-600">SRM</div>
+              ) : (
+                <div className={`value ${isOmnibusSignificant ? 'text-green-600' : 'text-red-600'}`}>
+                  {isOmnibusSignificant ? "YES" : "NO"}
+                </div>
+              )}
+              <div className="label">Any Difference</div>
+            </div>
+            <div className="result-card">
+              <div className="value">{omnibus.statistic.toFixed(2)}</div>
+              <div className="label">χ² Statistic</div>
+            </div>
+            <div className="result-card">
+              <div className="value">{omnibus.degreesOfFreedom}</div>
+              <div className="label">Degrees of Freedom</div>
+            </div>
+            <div className="result-card">
+              <div className="value">{omnibus.pValue.toFixed(4)}</div>
+              <div className="label">P-Value</div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Pairwise Comparisons */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Comparisons Against Control
+          </CardTitle>
+          <CardDescription>
+            {correctionLabel} correction with {confidenceLevel}% simultaneous confidence intervals for the difference
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Variant</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead className="text-right">Relative Change</TableHead>
+                <TableHead className="text-right">Z-Score</TableHead>
+                <TableHead className="text-right">Raw P</TableHead>
+                <TableHead className="text-right">Adjusted P</TableHead>
+                <TableHead className="text-right">Simultaneous CI</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {comparisons.map(comparison => (
+                <TableRow key={comparison.id}>
+                  <TableCell>
+                    {comparison.name}
+                    {comparison.isSignificant && !isVerdictBlocked && <Badge className="ml-2">Significant</Badge>}
+                  </TableCell>
+                  <TableCell className="text-right">{comparison.conversionRate.toFixed(2)}%</TableCell>
+                  <TableCell className="text-right">
+                    {comparison.relativeDifference > 0 ? '+' : ''}{comparison.relativeDifference.toFixed(1)}%
+                  </TableCell>
+                  <TableCell className="text-right">{comparison.zScore.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">{comparison.pValue.toFixed(4)}</TableCell>
+                  <TableCell className="text-right">{comparison.adjustedPValue.toFixed(4)}</TableCell>
+                  <TableCell className="text-right">
+                    {comparison.simultaneousConfidenceInterval[0].toFixed(2)}pp to {comparison.simultaneousConfidenceInterval[1].toFixed(2)}pp
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="text-sm text-muted-foreground">
+            Control rate: <Badge variant="outline">{comparisons[0]?.controlRate.toFixed(2)}%</Badge>
+          </div>
+
+          {(correction === 'holm' || correction === 'hochberg' || correction === 'benjamini-hochberg') && (
+            <div className="text-xs text-muted-foreground">
+              Step-wise procedures have no matching simultaneous intervals; Bonferroni-width intervals are shown.
+            </div>
+          )}
+
+          {isVerdictBlocked ? (
+            <Alert>
+              <ShieldAlert className="h-4 w-4" />
+              <AlertDescription>
+                A sample ratio mismatch was detected, so no variant can be declared a winner until it is resolved.
+              </AlertDescription>
+            </Alert>
+          ) : winners.length > 0 ? (
+            <Alert>
+              <CheckCircle className="h-4 w-4" />
+              <AlertDescription>
+                {winners.map(w => w.name).join(', ')} significantly outperform{winners.length === 1 ? 's' : ''} the control
+                after {correctionLabel} correction.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                No variant beats the control after correcting for {comparisons.length} comparisons.
+                {isOmnibusSignificant && ' The omnibus test suggests arms differ, so a variant may be worse than control.'}
+              </AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,353 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Label } from './ui/label';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Textarea } from './ui/textarea';
+import { Alert, AlertDescription } from './ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Upload, TrendingDown, TrendingUp, Minus, AlertTriangle } from 'lucide-react';
+import { ComposedChart, Line, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { DailyArmCounts, LiftTrendPattern, SegmentLiftTrend } from '../types/statistics';
+import { parseNumericRows } from '../utils/dataParsing';
+import { liftTrendTest, MIN_TREND_DAYS, pooledLiftEstimate, segmentLiftDifferencePValue } from '../utils/liftTrend';
+
+// Novelty example: returning users' lift fades while new users keep a steady lift
+const EXAMPLE_DAILY_RESULTS = `1, 1200, 61, 1200, 78, 2800, 138, 2800, 203
+2, 1180, 58, 1190, 77, 2810, 142, 2790, 191
+3, 1210, 60, 1205, 76, 2795, 141, 2805, 182
+4, 1195, 62, 1200, 75, 2790, 137, 2800, 175
+5, 1220, 59, 1215, 74, 2820, 143, 2810, 169
+6, 1190, 60, 1185, 76, 2800, 139, 2795, 165
+7, 1205, 61, 1200, 77, 2785, 140, 2790, 161
+8, 1200, 58, 1210, 78, 2805, 142, 2800, 158
+9, 1185, 60, 1190, 77, 2810, 138, 2815, 156
+10, 1215, 62, 1220, 75, 2790, 141, 2785, 154
+11, 1200, 59, 1195, 74, 2800, 140, 2800, 153
+12, 1190, 61, 1200, 75, 2815, 139, 2810, 151
+13, 1210, 60, 1205, 77, 2795, 142, 2800, 150
+14, 1200, 60, 1200, 78, 2800, 140, 2805, 150`;
+
+const SEGMENT_LABELS: Record<SegmentLiftTrend['segment'], string> = {
+  all: 'All users',
+  new: 'New users',
+  returning: 'Returning users'
+};
+
+const SEGMENT_COLORS: Record<SegmentLiftTrend['segment'], string> = {
+  all: '#3b82f6',
+  new: '#10b981',
+  returning: '#f59e0b'
+};
+
+const PATTERN_LABELS: Record<LiftTrendPattern, string> = {
+  novelty: 'Decaying lift (novelty)',
+  primacy: 'Growing lift (primacy)',
+  stable: 'No significant trend'
+};
+
+const toCounts = (day: number, values: number[]): DailyArmCounts => ({
+  day,
+  controlVisitors: values[0],
+  controlConversions: values[1],
+  treatmentVisitors: values[2],
+  treatmentConversions: values[3]
+});
+
+// Rows are "day, control visitors, control conversions, treatment visitors, treatment conversions",
+// optionally followed by the same four counts again so the first four are new and the last four
+// returning users. The segments are only compared when every row is split; otherwise split rows
+// still count both segments towards all users
+const parseDailyResults = (text: string): {
+  all: DailyArmCounts[];
+  newUsers: DailyArmCounts[];
+  returningUsers: DailyArmCounts[];
+  isPartlySplit: boolean;
+} => {
+  const rows = parseNumericRows(text).filter(row => row.length === 5 || row.length === 9);
+  const splitRows = rows.filter(row => row.length === 9).length;
+  const bySegment = splitRows > 0 && splitRows === rows.length;
+  const newUsers = bySegment ? rows.map(row => toCounts(row[0], row.slice(1, 5))) : [];
+  const returningUsers = bySegment ? rows.map(row => toCounts(row[0], row.slice(5, 9))) : [];
+  const all = rows.map(row => toCounts(row[0], row.length === 9
+    ? row.slice(1, 5).map((value, i) => value + row[5 + i])
+    : row.slice(1, 5)
+  ));
+  return { all, newUsers, returningUsers, isPartlySplit: splitRows > 0 && !bySegment };
+};
+
+export function NoveltyEffectDetector() {
+  const [dailyText, setDailyText] = useState<string>(EXAMPLE_DAILY_RESULTS);
+  const [confidenceLevel, setConfidenceLevel] = useState<number>(95);
+
+  const [segments, setSegments] = useState<SegmentLiftTrend[]>([]);
+  const [segmentDifferencePValue, setSegmentDifferencePValue] = useState<number | null>(null);
+  const [isPartlySplit, setIsPartlySplit] = useState<boolean>(false);
+
+  useEffect(() => {
+    const alpha = (100 - confidenceLevel) / 100;
+    const { all, newUsers, returningUsers, isPartlySplit: partlySplit } = parseDailyResults(dailyText);
+    const candidates: Array<[SegmentLiftTrend['segment'], DailyArmCounts[]]> = [
+      ['all', all],
+      ['new', newUsers],
+      ['returning', returningUsers]
+    ];
+
+    setSegments(candidates.flatMap(([segment, days]) => {
+      const overall = pooledLiftEstimate(days, confidenceLevel / 100);
+      return overall ? [{ segment, overall, trend: liftTrendTest(days, alpha) }] : [];
+    }));
+    setSegmentDifferencePValue(newUsers.length > 0 ? segmentLiftDifferencePValue(newUsers, returningUsers) : null);
+    setIsPartlySplit(partlySplit);
+  }, [dailyText, confidenceLevel]);
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    setDailyText(await file.text());
+  };
+
+  const alpha = (100 - confidenceLevel) / 100;
+  const allUsers = segments.find(s => s.segment === 'all');
+  const newUsers = segments.find(s => s.segment === 'new');
+  const returningUsers = segments.find(s => s.segment === 'returning');
+  const chartDays = allUsers?.trend?.points.map(point => point.day) ?? [];
+  const chartData = chartDays.map(day => {
+    const row: { [key: string]: number } = { day };
+    segments.forEach(segment => {
+      const point = segment.trend?.points.find(p => p.day === day);
+      if (point) {
+        row[`${segment.segment}Lift`] = point.lift;
+        row[`${segment.segment}Fitted`] = point.fitted;
+      }
+    });
+    return row;
+  });
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Input Data */}
+      <div className="lg:col-span-1">
+        <Card>
+          <CardHeader>
+            <CardTitle>Daily Results</CardTitle>
+            <CardDescription>
+              One row per day: day, control visitors, control conversions, treatment visitors, treatment conversions.
+              Repeat the four counts to split new (first) and returning (second) users.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="dailyResults">Daily Counts</Label>
+              <Textarea
+                id="dailyResults"
+                value={dailyText}
+                onChange={(e) => setDailyText(e.target.value)}
+                className="h-64 font-mono text-xs"
+              />
+              {isPartlySplit && (
+                <p className="text-sm text-red-600">
+                  Only some rows split new and returning users, so only all users are analyzed. Give every row
+                  eight counts to compare the segments.
+                </p>
+              )}
+            </div>
+
+            <Button asChild variant="outline" className="w-full">
+              <label htmlFor="dailyResultsFile" className="cursor-pointer">
+                <Upload className="h-4 w-4 mr-2" />
+                Upload CSV
+              </label>
+            </Button>
+            <input
+              id="dailyResultsFile"
+              type="file"
+              accept=".csv,.txt,text/csv,text/plain"
+              className="hidden"
+              onChange={(e) => {
+                loadFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+
+            <div className="space-y-2">
+              <Label htmlFor="trendConfidenceLevel">Confidence Level (%)</Label>
+              <select
+                id="trendConfidenceLevel"
+                className="w-full p-2 border rounded-md"
+                value={confidenceLevel}
+                onChange={(e) => setConfidenceLevel(Number(e.target.value))}
+              >
+                <option value={90}>90%</option>
+                <option value={95}>95%</option>
+                <option value={99}>99%</option>
+              </select>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Results */}
+      <div className="lg:col-span-2">
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {allUsers?.trend?.pattern === 'novelty' ? (
+                  <TrendingDown className="h-5 w-5 text-red-600" />
+                ) : allUsers?.trend?.pattern === 'primacy' ? (
+                  <TrendingUp className="h-5 w-5 text-green-600" />
+                ) : (
+                  <Minus className="h-5 w-5" />
+                )}
+                Lift Trend Over Time
+              </CardTitle>
+              <CardDescription>
+                Inverse-variance weighted regression of daily relative lift on experiment day
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {allUsers?.trend ? (
+                <div className="space-y-6">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="result-card">
+                      <div className={`value ${allUsers.trend.pattern === 'stable' ? '' : 'text-yellow-600'}`}>
+                        {allUsers.trend.pattern === 'stable' ? 'NO' : 'YES'}
+                      </div>
+                      <div className="label">Significant Trend</div>
+                    </div>
+                    <div className="result-card">
+                      <div className="value">{allUsers.trend.slope > 0 ? '+' : ''}{allUsers.trend.slope.toFixed(2)}</div>
+                      <div className="label">Lift Change (pp/day)</div>
+                    </div>
+                    <div className="result-card">
+                      <div className="value">{allUsers.trend.pValue.toFixed(4)}</div>
+                      <div className="label">Trend P-Value</div>
+                    </div>
+                    <div className="result-card">
+                      <div className="value">{allUsers.overall.lift > 0 ? '+' : ''}{allUsers.overall.lift.toFixed(1)}%</div>
+                      <div className="label">Pooled Lift</div>
+                    </div>
+                  </div>
+
+                  <div className="h-80">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <ComposedChart data={chartData}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="day" type="number" domain={['dataMin', 'dataMax']} allowDecimals={false} />
+                        <YAxis unit="%" />
+                        <Tooltip formatter={(value: number) => `${value.toFixed(2)}%`} />
+                        <Legend />
+                        <ReferenceLine y={0} stroke="#6b7280" />
+                        {segments.filter(segment => segment.trend).map(segment => [
+                          <Scatter
+                            key={`${segment.segment}Lift`}
+                            dataKey={`${segment.segment}Lift`}
+                            fill={SEGMENT_COLORS[segment.segment]}
+                            name={`${SEGMENT_LABELS[segment.segment]} (daily)`}
+                          />,
+                          <Line
+                            key={`${segment.segment}Fitted`}
+                            type="linear"
+                            dataKey={`${segment.segment}Fitted`}
+                            stroke={SEGMENT_COLORS[segment.segment]}
+                            strokeDasharray="5 5"
+                            dot={false}
+                            name={`${SEGMENT_LABELS[segment.segment]} (trend)`}
+                          />
+                        ])}
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              ) : (
+                <div className="text-center text-muted-foreground py-8">
+                  Enter at least {MIN_TREND_DAYS} days with conversions in both arms to test for a trend
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {segments.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Estimates by User Type</CardTitle>
+                <CardDescription>Pooled lift with {confidenceLevel}% confidence interval and the daily trend in each group</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Users</TableHead>
+                      <TableHead className="text-right">Lift</TableHead>
+                      <TableHead className="text-right">{confidenceLevel}% CI</TableHead>
+                      <TableHead className="text-right">Trend (pp/day)</TableHead>
+                      <TableHead className="text-right">Trend P-Value</TableHead>
+                      <TableHead>Pattern</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {segments.map(segment => (
+                      <TableRow key={segment.segment}>
+                        <TableCell>{SEGMENT_LABELS[segment.segment]}</TableCell>
+                        <TableCell className="text-right">{segment.overall.lift.toFixed(2)}%</TableCell>
+                        <TableCell className="text-right">
+                          {segment.overall.confidenceInterval[0].toFixed(1)}% to {segment.overall.confidenceInterval[1].toFixed(1)}%
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {segment.trend ? `${segment.trend.slope > 0 ? '+' : ''}${segment.trend.slope.toFixed(2)} ± ${segment.trend.slopeStandardError.toFixed(2)}` : '-'}
+                        </TableCell>
+                        <TableCell className="text-right">{segment.trend ? segment.trend.pValue.toFixed(4) : '-'}</TableCell>
+                        <TableCell>
+                          {segment.trend && (
+                            <Badge variant={segment.trend.pattern === 'stable' ? 'outline' : 'secondary'}>
+                              {PATTERN_LABELS[segment.trend.pattern]}
+                            </Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                {segmentDifferencePValue !== null && newUsers && returningUsers && (
+                  <div className="text-sm text-muted-foreground">
+                    New vs. returning lift difference: p = {segmentDifferencePValue.toFixed(4)}
+                    {segmentDifferencePValue < alpha ? ' (significant)' : ''}
+                  </div>
+                )}
+
+                {allUsers?.trend?.pattern === 'novelty' && (
+                  <Alert>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      The lift is falling over time, so the pooled estimate overstates the long-run effect. Wait for the trend to
+                      flatten or base the decision on the later days{newUsers ? ' and on returning users' : ''}.
+                    </AlertDescription>
+                  </Alert>
+                )}
+                {allUsers?.trend?.pattern === 'primacy' && (
+                  <Alert>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      The lift is still growing as users adapt to the change, so the pooled estimate understates the long-run effect.
+                    </AlertDescription>
+                  </Alert>
+                )}
+                {newUsers && returningUsers && segmentDifferencePValue !== null && segmentDifferencePValue < alpha && (
+                  <Alert>
+                    <AlertDescription>
+                      New users see a {newUsers.overall.lift > returningUsers.overall.lift ? 'larger' : 'smaller'} lift than returning users.
+                      {newUsers.overall.lift > returningUsers.overall.lift
+                        ? ' Returning users whose lift has worn off while newcomers still react is the signature of novelty.'
+                        : ' Returning users benefiting more suggests a learning (primacy) effect.'}
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
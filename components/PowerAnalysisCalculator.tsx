@@ -8,6 +8,7 @@ import { Separator } from './ui/separator';
 import { Alert, AlertDescription } from './ui/alert';
 import { BarChart3, TrendingUp, Target, Zap } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, AreaChart } from 'recharts';
+import { normalInverse, normalCDF, calculateContinuousSampleSize, calculateContinuousPower } from '../utils/statisticalCalculations';
 
 interface PowerAnalysisResult {
   power: number;
@@ -27,58 +28,17 @@ export function PowerAnalysisCalculator() {
   const [power, setPower] = useState<number>(80);
   const [significance, setSignificance] = useState<number>(95);
   const [testType, setTestType] = useState<string>('two-tailed');
+  const [metricType, setMetricType] = useState<string>('proportion');
+  const [baselineMean, setBaselineMean] = useState<number>(25);
+  const [standardDeviation, setStandardDeviation] = useState<number>(40);
   
   const [results, setResults] = useState<PowerAnalysisResult | null>(null);
 
-  // Statistical functions
-  const normalInverse = (p: number): number => {
-    // Approximation of inverse normal distribution
-    const a = [0, -3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
-    const b = [0, -5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
-    const c = [0, -7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
-    const d = [0, 7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
-
-    const pLow = 0.02425;
-    const pHigh = 1 - pLow;
-    let q, r, x;
-
-    if (p < pLow) {
-      q = Math.sqrt(-2 * Math.log(p));
-      x = (((((c[1] * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) * q + c[6]) / ((((d[1] * q + d[2]) * q + d[3]) * q + d[4]) * q + 1);
-    } else if (p <= pHigh) {
-      q = p - 0.5;
-      r = q * q;
-      x = (((((a[1] * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * r + a[6]) * q / (((((b[1] * r + b[2]) * r + b[3]) * r + b[4]) * r + b[5]) * r + 1);
-    } else {
-      q = Math.sqrt(-2 * Math.log(1 - p));
-      x = -(((((c[1] * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) * q + c[6]) / ((((d[1] * q + d[2]) * q + d[3]) * q + d[4]) * q + 1);
+  const calculatePower = (n: number, effect: number, alpha: number): number => {
+    if (metricType === 'continuous') {
+      return calculateContinuousPower(n, baselineMean, standardDeviation, effect, alpha, testType === 'two-tailed' ? 2 : 1);
     }
 
-    return x;
-  };
-
-  const normalCDF = (x: number): number => {
-    return 0.5 * (1 + erf(x / Math.sqrt(2)));
-  };
-
-  const erf = (x: number): number => {
-    const a1 = 0.254829592;
-    const a2 = -0.284496736;
-    const a3 = 1.421413741;
-    const a4 = -1.453152027;
-    const a5 = 1.061405429;
-    const p = 0.3275911;
-    
-    const sign = x >= 0 ? 1 : -1;
-    x = Math.abs(x);
-    
-    const t = 1.0 / (1.0 + p * x);
-    const y = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-x * x);
-    
-    return sign * y;
-  };
-
-  const calculatePower = (n: number, effect: number, alpha: number): number => {
     const p1 = baselineRate / 100;
     const p2 = p1 * (1 + effect / 100);
     
@@ -92,6 +52,10 @@ export function PowerAnalysisCalculator() {
   };
 
   const calculateSampleSize = (targetPower: number, effect: number, alpha: number): number => {
+    if (metricType === 'continuous') {
+      return calculateContinuousSampleSize(baselineMean, standardDeviation, effect, targetPower, alpha, testType === 'two-tailed' ? 2 : 1);
+    }
+
     const p1 = baselineRate / 100;
     const p2 = p1 * (1 + effect / 100);
     
@@ -176,11 +140,12 @@ export function PowerAnalysisCalculator() {
   };
 
   useEffect(() => {
-    if (baselineRate && (sampleSize || power || effectSize)) {
+    const hasBaseline = metricType === 'continuous' ? baselineMean && standardDeviation : baselineRate;
+    if (hasBaseline && (sampleSize || power || effectSize)) {
       const result = performAnalysis();
       setResults(result);
     }
-  }, [analysisType, baselineRate, sampleSize, effectSize, power, significance, testType]);
+  }, [analysisType, baselineRate, sampleSize, effectSize, power, significance, testType, metricType, baselineMean, standardDeviation]);
 
   const getPowerColor = (power: number): string => {
     if (power >= 80) return "text-green-600";
@@ -246,13 +211,46 @@ export function PowerAnalysisCalculator() {
               <h4>Test Parameters</h4>
               <div className="space-y-3">
                 <div className="space-y-2">
-                  <Label>Baseline Rate (%)</Label>
-                  <Input
-                    type="number"
-                    value={baselineRate}
-                    onChange={(e) => setBaselineRate(Number(e.target.value))}
-                  />
+                  <Label>Metric Type</Label>
+                  <Select value={metricType} onValueChange={setMetricType}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="proportion">Proportion (conversion rate)</SelectItem>
+                      <SelectItem value="continuous">Continuous (mean per user)</SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
+                {metricType === 'continuous' ? (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Baseline Mean</Label>
+                      <Input
+                        type="number"
+                        value={baselineMean}
+                        onChange={(e) => setBaselineMean(Number(e.target.value))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Std. Deviation</Label>
+                      <Input
+                        type="number"
+                        value={standardDeviation}
+                        onChange={(e) => setStandardDeviation(Number(e.target.value))}
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <Label>Baseline Rate (%)</Label>
+                    <Input
+                      type="number"
+                      value={baselineRate}
+                      onChange={(e) => setBaselineRate(Number(e.target.value))}
+                    />
+                  </div>
+                )}
                 <div className="space-y-2">
                   <Label>Significance Level (%)</Label>
                   <Select value={significance.toString()} onValueChange={(value) => setSignificance(Number(value))}>
@@ -0,0 +1,332 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Separator } from './ui/separator';
+import { Textarea } from './ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Alert, AlertDescription } from './ui/alert';
+import { CheckCircle, XCircle, AlertTriangle, TrendingUp, ShieldAlert } from 'lucide-react';
+import { SampleRatioMismatchCheck } from './SampleRatioMismatchCheck';
+import { RatioMetricSummary, RatioMetricTestResult } from '../types/statistics';
+import { parseNumericRows } from '../utils/dataParsing';
+import { ratioMetricTest, summarizeRatioRows } from '../utils/ratioMetrics';
+import { detectSampleRatioMismatch } from '../utils/sampleRatioMismatch';
+
+const SUMMARY_FIELDS: Array<{ key: keyof RatioMetricSummary; label: string }> = [
+  { key: 'n', label: 'Units' },
+  { key: 'numeratorMean', label: 'Numerator Mean' },
+  { key: 'denominatorMean', label: 'Denominator Mean' },
+  { key: 'numeratorVariance', label: 'Numerator Var.' },
+  { key: 'denominatorVariance', label: 'Denominator Var.' },
+  { key: 'covariance', label: 'Covariance' }
+];
+
+const parseRatioRows = (text: string): RatioMetricSummary => {
+  return summarizeRatioRows(parseNumericRows(text).filter(row => row.length === 2));
+};
+
+export function RatioMetricAnalysis() {
+  const [inputMode, setInputMode] = useState<string>('summary');
+  const [summaryA, setSummaryA] = useState<RatioMetricSummary>({
+    n: 5000, numeratorMean: 0.5, denominatorMean: 5, numeratorVariance: 0.9, denominatorVariance: 16, covariance: 2.4
+  });
+  const [summaryB, setSummaryB] = useState<RatioMetricSummary>({
+    n: 5000, numeratorMean: 0.55, denominatorMean: 5, numeratorVariance: 1.0, denominatorVariance: 16, covariance: 2.6
+  });
+  const [rawRowsA, setRawRowsA] = useState<string>('');
+  const [rawRowsB, setRawRowsB] = useState<string>('');
+  const [confidenceLevel, setConfidenceLevel] = useState<number>(95);
+  const [plannedAllocations, setPlannedAllocations] = useState<{ [key: string]: number }>({});
+  const [srmThreshold, setSrmThreshold] = useState<number>(0.001);
+
+  const [results, setResults] = useState<RatioMetricTestResult | null>(null);
+
+  const getSummaries = (): [RatioMetricSummary, RatioMetricSummary] => {
+    if (inputMode === 'raw') {
+      return [parseRatioRows(rawRowsA), parseRatioRows(rawRowsB)];
+    }
+    return [summaryA, summaryB];
+  };
+
+  useEffect(() => {
+    const [a, b] = getSummaries();
+    if (a.n > 1 && b.n > 1 && a.denominatorMean > 0 && b.denominatorMean > 0) {
+      setResults(ratioMetricTest(a, b, (100 - confidenceLevel) / 100));
+    } else {
+      setResults(null);
+    }
+  }, [inputMode, summaryA, summaryB, rawRowsA, rawRowsB, confidenceLevel]);
+
+  const [activeA, activeB] = getSummaries();
+
+  // Units per arm are the assignment counts; arms without an explicit plan get an equal split
+  const arms = [
+    { id: 'control', name: 'Variant A (Control)', visitors: activeA.n },
+    { id: 'treatment', name: 'Variant B (Treatment)', visitors: activeB.n }
+  ];
+  const allocations = arms.map(arm => plannedAllocations[arm.id] ?? 50);
+  const srmResult = activeA.n > 0 && activeB.n > 0
+    ? detectSampleRatioMismatch(arms.map(arm => arm.visitors), allocations, srmThreshold)
+    : null;
+  const isVerdictBlocked = srmResult?.isMismatch ?? false;
+
+  const renderArmInputs = (
+    arm: 'A' | 'B',
+    summary: RatioMetricSummary,
+    setSummary: (summary: RatioMetricSummary) => void,
+    rawRows: string,
+    setRawRows: (value: string) => void
+  ) => (
+    inputMode === 'raw' ? (
+      <div className="space-y-2">
+        <Label htmlFor={`ratioRaw${arm}`}>Per-unit numerator, denominator</Label>
+        <Textarea
+          id={`ratioRaw${arm}`}
+          value={rawRows}
+          onChange={(e) => setRawRows(e.target.value)}
+          placeholder={'One unit per line, e.g. clicks, sessions\n3, 12'}
+          className="h-32 font-mono text-xs"
+        />
+      </div>
+    ) : (
+      <div className="grid grid-cols-3 gap-2">
+        {SUMMARY_FIELDS.map(field => (
+          <div key={field.key} className="space-y-2">
+            <Label htmlFor={`${field.key}${arm}`} className="text-xs">{field.label}</Label>
+            <Input
+              id={`${field.key}${arm}`}
+              type="number"
+              value={summary[field.key]}
+              onChange={(e) => setSummary({ ...summary, [field.key]: Number(e.target.value) })}
+            />
+          </div>
+        ))}
+      </div>
+    )
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Input Data */}
+      <div className="lg:col-span-1">
+        <Card>
+          <CardHeader>
+            <CardTitle>Test Data</CardTitle>
+            <CardDescription>Per-unit numerator and denominator, e.g. clicks and sessions per user</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-2">
+              <Label>Input Method</Label>
+              <Select value={inputMode} onValueChange={setInputMode}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="summary">Means, Variances & Covariance</SelectItem>
+                  <SelectItem value="raw">Raw Per-Unit Rows</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-4">
+              <h4 className="flex items-center gap-2">
+                <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
+                Variant A (Control)
+              </h4>
+              {renderArmInputs('A', summaryA, setSummaryA, rawRowsA, setRawRowsA)}
+              {inputMode === 'raw' && (
+                <div className="text-sm text-muted-foreground">
+                  n = {activeA.n}, ratio = {activeA.denominatorMean > 0 ? (activeA.numeratorMean / activeA.denominatorMean).toFixed(4) : '-'}
+                </div>
+              )}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-4">
+              <h4 className="flex items-center gap-2">
+                <div className="w-3 h-3 bg-green-500 rounded-full"></div>
+                Variant B (Treatment)
+              </h4>
+              {renderArmInputs('B', summaryB, setSummaryB, rawRowsB, setRawRowsB)}
+              {inputMode === 'raw' && (
+                <div className="text-sm text-muted-foreground">
+                  n = {activeB.n}, ratio = {activeB.denominatorMean > 0 ? (activeB.numeratorMean / activeB.denominatorMean).toFixed(4) : '-'}
+                </div>
+              )}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label htmlFor="ratioConfidenceLevel">Confidence Level (%)</Label>
+              <select
+                id="ratioConfidenceLevel"
+                className="w-full p-2 border rounded-md"
+                value={confidenceLevel}
+                onChange={(e) => setConfidenceLevel(Number(e.target.value))}
+              >
+                <option value={90}>90%</option>
+                <option value={95}>95%</option>
+                <option value={99}>99%</option>
+              </select>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Results */}
+      <div className="lg:col-span-2">
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {results?.isSignificant && !isVerdictBlocked ? (
+                  <CheckCircle className="h-5 w-5 text-green-600" />
+                ) : (
+                  <XCircle className="h-5 w-5 text-red-600" />
+                )}
+                Delta-Method Ratio Test Results
+              </CardTitle>
+              <CardDescription>
+                Difference in ratio of means at {confidenceLevel}% confidence level, with units as the independent observations
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {results ? (
+                <div className="space-y-6">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="result-card">
+                      {isVerdictBlocked ? (
+                        <div className="value text-yellow-600">SRM</div>
+                      ) : (
+                        <div className={`value ${results.isSignificant ? 'text-green-600' : results.pValue < 0.1 ? 'text-yellow-600' : 'text-red-600'}`}>
+                          {results.isSignificant ? "YES" : "NO"}
+                        </div>
+                      )}
+                      <div className="label">Significant</div>
+                    </div>
+                    <div className="result-card">
+                      <div className="value">{results.pValue.toFixed(4)}</div>
+                      <div className="label">P-Value</div>
+                    </div>
+                    <div className="result-card">
+                      <div className="value">{results.relativeDifference > 0 ? '+' : ''}{results.relativeDifference.toFixed(1)}%</div>
+                      <div className="label">Relative Change</div>
+                    </div>
+                    <div className="result-card">
+                      <div className="value">{results.zScore.toFixed(2)}</div>
+                      <div className="label">Z-Score</div>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="p-4 bg-muted/50 rounded-lg">
+                      <h4 className="mb-2">Absolute Difference ({confidenceLevel}% CI)</h4>
+                      <div className="text-sm text-muted-foreground mb-2">
+                        Estimate: {results.absoluteDifference.toFixed(4)}
+                      </div>
+                      <Badge variant="outline" className="text-lg px-3 py-1">
+                        {results.absoluteConfidenceInterval[0].toFixed(4)} to {results.absoluteConfidenceInterval[1].toFixed(4)}
+                      </Badge>
+                    </div>
+                    <div className="p-4 bg-muted/50 rounded-lg">
+                      <h4 className="mb-2">Relative Difference ({confidenceLevel}% CI)</h4>
+                      <div className="text-sm text-muted-foreground mb-2">
+                        Estimate: {results.relativeDifference.toFixed(2)}%
+                      </div>
+                      <Badge variant="outline" className="text-lg px-3 py-1">
+                        {results.relativeConfidenceInterval[0].toFixed(2)}% to {results.relativeConfidenceInterval[1].toFixed(2)}%
+                      </Badge>
+                    </div>
+                  </div>
+
+                  {isVerdictBlocked && (
+                    <Alert>
+                      <ShieldAlert className="h-4 w-4" />
+                      <AlertDescription>
+                        A sample ratio mismatch was detected, so this result cannot be trusted. Investigate assignment
+                        and logging before acting on it.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                </div>
+              ) : (
+                <div className="text-center text-muted-foreground py-8">
+                  Enter at least two units per variant with a positive denominator to see results
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {results && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <TrendingUp className="h-5 w-5" />
+                  Detailed Analysis
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-3">
+                    <h4>Ratios</h4>
+                    <div className="space-y-2">
+                      <div className="flex justify-between">
+                        <span className="text-sm">Control (A):</span>
+                        <Badge variant="outline">{results.ratioA.toFixed(4)}</Badge>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-sm">Treatment (B):</span>
+                        <Badge variant="outline">{results.ratioB.toFixed(4)}</Badge>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="space-y-3">
+                    <h4>Variance</h4>
+                    <div className="space-y-2">
+                      <div className="flex justify-between">
+                        <span className="text-sm">Delta-method standard error:</span>
+                        <Badge variant="outline">{results.standardError.toFixed(5)}</Badge>
+                      </div>
+                      {results.designEffect > 0 && (
+                        <div className="flex justify-between">
+                          <span className="text-sm">Design effect vs. independent events:</span>
+                          <Badge variant="outline">{results.designEffect.toFixed(2)}×</Badge>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </div>
+
+                {results.designEffect > 1.1 && (
+                  <Alert>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      Treating each denominator event as an independent trial would understate the variance
+                      {' '}{results.designEffect.toFixed(1)}-fold and overstate significance.
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {srmResult && (
+            <SampleRatioMismatchCheck
+              variants={arms}
+              allocations={allocations}
+              onAllocationChange={(id, allocation) => setPlannedAllocations(prev => ({ ...prev, [id]: allocation }))}
+              threshold={srmThreshold}
+              onThresholdChange={setSrmThreshold}
+              result={srmResult}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Alert, AlertDescription } from './ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { DollarSign, AlertTriangle } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { RevenueMethodOutcome, RevenueSimulationSummary } from '../types/simulation';
+import { REVENUE_TEST_METHOD_OPTIONS } from '../constants/experimentDefaults';
+import { SIGNIFICANCE_LEVEL } from '../utils/virtualUsers';
+
+interface RevenueSimulationResultsProps {
+  summary: RevenueSimulationSummary;
+  trueLift: number;
+  numberOfSimulations: number;
+}
+
+export function RevenueSimulationResults({ summary, trueLift, numberOfSimulations }: RevenueSimulationResultsProps) {
+  const nominalRate = SIGNIFICANCE_LEVEL * 100;
+  const labelFor = (method: RevenueMethodOutcome['method']) => REVENUE_TEST_METHOD_OPTIONS.find(option => option.value === method)?.label ?? method;
+  const chartData = summary.outcomes.map(outcome => ({
+    method: labelFor(outcome.method),
+    falsePositiveRate: outcome.falsePositiveRate,
+    power: outcome.power
+  }));
+
+  // Monte Carlo noise on a rejection rate near α; anything beyond it counts as inflated
+  const tolerance = 2 * Math.sqrt((nominalRate * (100 - nominalRate)) / Math.max(numberOfSimulations, 1));
+  const calibrated = summary.outcomes.filter(outcome => outcome.falsePositiveRate <= nominalRate + tolerance);
+  const inflated = summary.outcomes.filter(outcome => outcome.falsePositiveRate > nominalRate + tolerance);
+  const best = calibrated.reduce<RevenueMethodOutcome | null>((top, outcome) => (!top || outcome.power > top.power ? outcome : top), null);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DollarSign className="h-5 w-5" />
+          Revenue Analysis Methods
+        </CardTitle>
+        <CardDescription>
+          {numberOfSimulations} simulated revenue experiments under H0 (no effect) and H1 ({trueLift}% lift in revenue per user), each analysed four ways
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="method" />
+              <YAxis domain={[0, 100]} unit="%" />
+              <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+              <Legend />
+              <ReferenceLine y={nominalRate} stroke="#6b7280" strokeDasharray="5 5" label={`α = ${nominalRate}%`} />
+              <Bar dataKey="falsePositiveRate" fill="#ef4444" name="False positive rate (H0)" />
+              <Bar dataKey="power" fill="#10b981" name="Power (H1)" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Method</TableHead>
+              <TableHead className="text-right">False Positive Rate</TableHead>
+              <TableHead className="text-right">Power</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {summary.outcomes.map(outcome => (
+              <TableRow key={outcome.method} className={outcome === best ? 'font-medium' : ''}>
+                <TableCell>{labelFor(outcome.method)}</TableCell>
+                <TableCell className={`text-right ${inflated.includes(outcome) ? 'text-red-600' : ''}`}>
+                  {outcome.falsePositiveRate.toFixed(1)}%
+                </TableCell>
+                <TableCell className="text-right">{outcome.power.toFixed(1)}%</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {best && (
+          <Alert>
+            <AlertDescription>
+              {labelFor(best.method)} has the most power ({best.power.toFixed(1)}%) among the methods that kept the false positive
+              {' '}rate within Monte Carlo error of {nominalRate}% for this spend distribution.
+              {best.method === 'mann-whitney' && ' Note that it tests whether treatment users tend to spend more, not whether mean revenue per user rose.'}
+              {best.method === 'winsorized-t' && ' Capping changes the estimand: the lift it reports is for capped revenue, not total revenue.'}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {inflated.length > 0 && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              {inflated.map(outcome => labelFor(outcome.method)).join(', ')} rejected more than {nominalRate}% of A/A tests here;
+              {' '}heavy tails make its nominal level unreliable at this sample size.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="text-sm text-muted-foreground">
+          Whale orders made up {summary.whaleRevenueShare.toFixed(1)}% of revenue under H0. A single whale landing in one arm moves
+          {' '}that arm's mean and inflates the variance of the t-test, which costs it power; rank and capped analyses are far less
+          {' '}affected by a few extreme orders.
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
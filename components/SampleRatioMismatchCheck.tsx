@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Textarea } from './ui/textarea';
+import { Alert, AlertDescription } from './ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { ShieldCheck, ShieldAlert } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { SampleRatioMismatchResult, VariantObservation } from '../types/statistics';
+import { SRM_THRESHOLD_OPTIONS } from '../constants/experimentDefaults';
+import { parseNumericRows } from '../utils/dataParsing';
+import { getDailySampleRatioTrend } from '../utils/sampleRatioMismatch';
+
+interface SampleRatioMismatchCheckProps {
+  // Only assignment counts matter here, so continuous and ratio arms pass their user counts as visitors
+  variants: Array<Pick<VariantObservation, 'id' | 'name' | 'visitors'>>;
+  allocations: number[];
+  onAllocationChange: (id: string, allocation: number) => void;
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+  result: SampleRatioMismatchResult | null;
+}
+
+// -log10(p), capped so p-values that underflow to zero still plot
+const toEvidence = (pValue: number) => -Math.log10(Math.max(pValue, 1e-300));
+
+export function SampleRatioMismatchCheck({
+  variants,
+  allocations,
+  onAllocationChange,
+  threshold,
+  onThresholdChange,
+  result
+}: SampleRatioMismatchCheckProps) {
+  const [dailyCounts, setDailyCounts] = useState<string>('');
+
+  const dailyRows = parseNumericRows(dailyCounts).filter(row => row.length === variants.length);
+  const dailyTrend = dailyRows.length > 0 ? getDailySampleRatioTrend(dailyRows, allocations, threshold) : [];
+  const firstMismatchDay = dailyTrend.find(point => point.isMismatch)?.day;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {result?.isMismatch ? (
+            <ShieldAlert className="h-5 w-5 text-red-600" />
+          ) : (
+            <ShieldCheck className="h-5 w-5 text-green-600" />
+          )}
+          Sample Ratio Mismatch Check
+        </CardTitle>
+        <CardDescription>
+          Chi-square goodness-of-fit of observed visitors against the planned traffic allocation
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Planned Allocation (%)</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {variants.map((variant, index) => (
+                <div key={variant.id} className="space-y-1">
+                  <div className="text-xs text-muted-foreground truncate">{variant.name}</div>
+                  <Input
+                    type="number"
+                    value={allocations[index]}
+                    onChange={(e) => onAllocationChange(variant.id, Number(e.target.value))}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Mismatch Threshold</Label>
+            <Select value={threshold.toString()} onValueChange={(value) => onThresholdChange(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SRM_THRESHOLD_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value.toString()}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="text-xs text-muted-foreground">
+              A strict threshold keeps false SRM alarms rare, since the check runs on every experiment.
+            </div>
+          </div>
+        </div>
+
+        {result && (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Variant</TableHead>
+                  <TableHead className="text-right">Observed</TableHead>
+                  <TableHead className="text-right">Expected</TableHead>
+                  <TableHead className="text-right">Observed Share</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {variants.map((variant, index) => (
+                  <TableRow key={variant.id}>
+                    <TableCell>{variant.name}</TableCell>
+                    <TableCell className="text-right">{variant.visitors.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{Math.round(result.expectedVisitors[index]).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{result.observedShares[index].toFixed(2)}%</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">χ² = {result.statistic.toFixed(2)}</Badge>
+              <Badge variant="outline">df = {result.degreesOfFreedom}</Badge>
+              <Badge variant={result.isMismatch ? "destructive" : "outline"}>p = {result.pValue.toExponential(2)}</Badge>
+            </div>
+
+            {result.isMismatch ? (
+              <Alert>
+                <ShieldAlert className="h-4 w-4" />
+                <AlertDescription>
+                  Sample ratio mismatch detected (p &lt; {threshold}). Traffic does not match the planned split, so
+                  assignment or logging is likely broken. Significance verdicts are blocked until the cause is found.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <div className="text-sm text-muted-foreground">
+                No sample ratio mismatch at p &lt; {threshold}.
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="srm-daily">Daily Visitors (optional)</Label>
+          <Textarea
+            id="srm-daily"
+            value={dailyCounts}
+            onChange={(e) => setDailyCounts(e.target.value)}
+            placeholder={`One line per day, ${variants.length} comma-separated counts in variant order`}
+            rows={4}
+          />
+        </div>
+
+        {dailyTrend.length > 0 && (
+          <div className="space-y-2">
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={dailyTrend.map(point => ({
+                  day: point.day,
+                  daily: toEvidence(point.dailyPValue),
+                  cumulative: toEvidence(point.cumulativePValue)
+                }))}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="day" label={{ value: 'Day', position: 'insideBottom', offset: -5 }} />
+                  <YAxis label={{ value: '-log10(p)', angle: -90, position: 'insideLeft' }} />
+                  <Tooltip
+                    formatter={(value: any, name: string) => [
+                      `p = ${Math.pow(10, -value).toExponential(2)}`,
+                      name === 'cumulative' ? 'Cumulative' : 'Daily'
+                    ]}
+                  />
+                  <Line type="monotone" dataKey="cumulative" stroke="#3b82f6" strokeWidth={2} dot={false} name="cumulative" />
+                  <Line type="monotone" dataKey="daily" stroke="#f59e0b" strokeWidth={1} strokeDasharray="5 5" dot={false} name="daily" />
+                  <ReferenceLine y={toEvidence(threshold)} stroke="#ef4444" strokeDasharray="2 2" />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {firstMismatchDay
+                ? `Cumulative counts first crossed the threshold on day ${firstMismatchDay}.`
+                : 'Cumulative counts stayed below the threshold (red line) on every day.'}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
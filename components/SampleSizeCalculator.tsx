@@ -8,6 +8,18 @@ import { Badge } from './ui/badge';
 import { Separator } from './ui/separator';
 import { AlertTriangle, Info, TrendingUp } from 'lucide-react';
 import { Alert, AlertDescription } from './ui/alert';
+import { normalInverse, normalCDF, calculateContinuousSampleSize, calculateContinuousPower } from '../utils/statisticalCalculations';
+import { cupedVarianceFactor } from '../utils/cuped';
+import { calculateRatioSampleSize, getRatio, getRatioDesignEffect, ratioUnitVariance } from '../utils/ratioMetrics';
+import { RatioMetricSummary } from '../types/statistics';
+
+interface VarianceReducedPlan {
+  correlation: number;
+  varianceReduction: number;
+  sampleSizePerVariant: number;
+  totalSampleSize: number;
+  expectedDuration: number;
+}
 
 interface SampleSizeResult {
   sampleSizePerVariant: number;
@@ -16,6 +28,9 @@ interface SampleSizeResult {
   minimumDetectableEffect: number;
   actualPower: number;
   confidenceInterval: [number, number];
+  isContinuous: boolean;
+  standardizedEffect: number;
+  cuped: VarianceReducedPlan | null;
 }
 
 export function SampleSizeCalculator() {
@@ -27,38 +42,106 @@ export function SampleSizeCalculator() {
   const [dailyTraffic, setDailyTraffic] = useState<number>(1000);
   const [testType, setTestType] = useState<string>('conversion');
   const [variants, setVariants] = useState<number>(2);
+  const [baselineMean, setBaselineMean] = useState<number>(25);
+  const [variabilityInput, setVariabilityInput] = useState<string>('sd');
+  const [standardDeviation, setStandardDeviation] = useState<number>(40);
+  const [coefficientOfVariation, setCoefficientOfVariation] = useState<number>(160);
+  const [covariateCorrelation, setCovariateCorrelation] = useState<number>(0);
+  const [ratioBaseline, setRatioBaseline] = useState<RatioMetricSummary>({
+    n: 1, numeratorMean: 0.5, denominatorMean: 5, numeratorVariance: 0.9, denominatorVariance: 16, covariance: 2.4
+  });
   
   const [results, setResults] = useState<SampleSizeResult | null>(null);
   const [isCalculating, setIsCalculating] = useState(false);
 
-  // Statistical functions
-  const normalInverse = (p: number): number => {
-    // Approximation of inverse normal distribution
-    const a = [0, -3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
-    const b = [0, -5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
-    const c = [0, -7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
-    const d = [0, 7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
-
-    const pLow = 0.02425;
-    const pHigh = 1 - pLow;
-    let q, r, x;
-
-    if (p < pLow) {
-      q = Math.sqrt(-2 * Math.log(p));
-      x = (((((c[1] * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) * q + c[6]) / ((((d[1] * q + d[2]) * q + d[3]) * q + d[4]) * q + 1);
-    } else if (p <= pHigh) {
-      q = p - 0.5;
-      r = q * q;
-      x = (((((a[1] * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * r + a[6]) * q / (((((b[1] * r + b[2]) * r + b[3]) * r + b[4]) * r + b[5]) * r + 1);
-    } else {
-      q = Math.sqrt(-2 * Math.log(1 - p));
-      x = -(((((c[1] * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) * q + c[6]) / ((((d[1] * q + d[2]) * q + d[3]) * q + d[4]) * q + 1);
-    }
+  // Revenue and engagement are per-user averages rather than proportions
+  const isContinuousMetric = testType === 'revenue' || testType === 'engagement';
+
+  // CUPED scales the required sample by 1 - ρ² for a pre-period covariate with correlation ρ
+  const getVarianceReducedPlan = (sampleSizePerVariant: number): VarianceReducedPlan | null => {
+    if (covariateCorrelation <= 0 || covariateCorrelation >= 1) return null;
+
+    const factor = cupedVarianceFactor(covariateCorrelation);
+    const adjustedSampleSize = Math.ceil(Math.ceil(sampleSizePerVariant * factor) / (trafficAllocation / 100));
+    return {
+      correlation: covariateCorrelation,
+      varianceReduction: (1 - factor) * 100,
+      sampleSizePerVariant: adjustedSampleSize,
+      totalSampleSize: adjustedSampleSize * variants,
+      expectedDuration: Math.ceil(adjustedSampleSize / dailyTraffic)
+    };
+  };
+
+  const calculateMeanSampleSize = (): SampleSizeResult => {
+    const alpha = (100 - significance) / 100;
+    const z_alpha = normalInverse(1 - alpha / 2);
+
+    const sd = variabilityInput === 'cv' ? Math.abs(baselineMean) * coefficientOfVariation / 100 : standardDeviation;
+    const difference = Math.abs(baselineMean * minimumDetectableEffect / 100);
+
+    const sampleSizePerVariant = calculateContinuousSampleSize(baselineMean, sd, minimumDetectableEffect, power, alpha);
+
+    // Adjust for traffic allocation
+    const adjustedSampleSize = Math.ceil(sampleSizePerVariant / (trafficAllocation / 100));
+    const expectedDuration = Math.ceil(adjustedSampleSize / dailyTraffic);
+
+    const actualPower = calculateContinuousPower(sampleSizePerVariant, baselineMean, sd, minimumDetectableEffect, alpha);
+
+    // Confidence interval for the difference in means
+    const margin = z_alpha * sd * Math.sqrt(2 / sampleSizePerVariant);
+    const confidenceInterval: [number, number] = [difference - margin, difference + margin];
 
-    return x;
+    return {
+      sampleSizePerVariant: adjustedSampleSize,
+      totalSampleSize: adjustedSampleSize * variants,
+      expectedDuration,
+      minimumDetectableEffect: difference,
+      actualPower,
+      confidenceInterval,
+      isContinuous: true,
+      standardizedEffect: sd > 0 ? difference / sd : 0,
+      cuped: getVarianceReducedPlan(sampleSizePerVariant)
+    };
+  };
+
+  // Ratio metrics (e.g. clicks per session) use the delta-method variance per randomization unit
+  const calculateRatioMetricSampleSize = (): SampleSizeResult => {
+    const alpha = (100 - significance) / 100;
+    const z_alpha = normalInverse(1 - alpha / 2);
+
+    const unitVariance = ratioUnitVariance(ratioBaseline);
+    const difference = Math.abs(getRatio(ratioBaseline) * minimumDetectableEffect / 100);
+    const sampleSizePerVariant = calculateRatioSampleSize(ratioBaseline, minimumDetectableEffect, power, alpha);
+
+    // Adjust for traffic allocation
+    const adjustedSampleSize = Math.ceil(sampleSizePerVariant / (trafficAllocation / 100));
+    const expectedDuration = Math.ceil(adjustedSampleSize / dailyTraffic);
+
+    const se = Math.sqrt(2 * unitVariance / sampleSizePerVariant);
+    const actualPower = se > 0 ? normalCDF(difference / se - z_alpha) * 100 : 0;
+    const confidenceInterval: [number, number] = [difference - z_alpha * se, difference + z_alpha * se];
+
+    return {
+      sampleSizePerVariant: adjustedSampleSize,
+      totalSampleSize: adjustedSampleSize * variants,
+      expectedDuration,
+      minimumDetectableEffect: difference,
+      actualPower,
+      confidenceInterval,
+      isContinuous: true,
+      standardizedEffect: unitVariance > 0 ? difference / Math.sqrt(unitVariance) : 0,
+      cuped: getVarianceReducedPlan(sampleSizePerVariant)
+    };
   };
 
   const calculateSampleSize = (): SampleSizeResult => {
+    if (testType === 'ratio') {
+      return calculateRatioMetricSampleSize();
+    }
+    if (isContinuousMetric) {
+      return calculateMeanSampleSize();
+    }
+
     const alpha = (100 - significance) / 100;
     const beta = (100 - power) / 100;
     
@@ -76,7 +159,6 @@ export function SampleSizeCalculator() {
     const n = (Math.pow(z_alpha * Math.sqrt(2 * pooledVariance) + z_beta * Math.sqrt(p1 * (1 - p1) + p2 * (1 - p2)), 2)) / Math.pow(p2 - p1, 2);
     
     const sampleSizePerVariant = Math.ceil(n);
-    const totalSampleSize = sampleSizePerVariant * variants;
     
     // Adjust for traffic allocation
     const adjustedSampleSize = Math.ceil(sampleSizePerVariant / (trafficAllocation / 100));
@@ -100,31 +182,13 @@ export function SampleSizeCalculator() {
       expectedDuration,
       minimumDetectableEffect: Math.abs(p2 - p1) * 100,
       actualPower,
-      confidenceInterval
+      confidenceInterval,
+      isContinuous: false,
+      standardizedEffect: 2 * (Math.asin(Math.sqrt(p2)) - Math.asin(Math.sqrt(p1))),
+      cuped: getVarianceReducedPlan(sampleSizePerVariant)
     };
   };
 
-  const normalCDF = (x: number): number => {
-    return 0.5 * (1 + erf(x / Math.sqrt(2)));
-  };
-
-  const erf = (x: number): number => {
-    const a1 = 0.254829592;
-    const a2 = -0.284496736;
-    const a3 = 1.421413741;
-    const a4 = -1.453152027;
-    const a5 = 1.061405429;
-    const p = 0.3275911;
-    
-    const sign = x >= 0 ? 1 : -1;
-    x = Math.abs(x);
-    
-    const t = 1.0 / (1.0 + p * x);
-    const y = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-x * x);
-    
-    return sign * y;
-  };
-
   const handleCalculate = () => {
     setIsCalculating(true);
     setTimeout(() => {
@@ -135,10 +199,13 @@ export function SampleSizeCalculator() {
   };
 
   useEffect(() => {
-    if (baselineRate && minimumDetectableEffect && power && significance) {
+    const hasBaseline = testType === 'ratio'
+      ? ratioBaseline.denominatorMean > 0 && ratioUnitVariance(ratioBaseline) > 0
+      : isContinuousMetric ? baselineMean : baselineRate;
+    if (hasBaseline && minimumDetectableEffect && power && significance) {
       handleCalculate();
     }
-  }, [baselineRate, minimumDetectableEffect, power, significance, trafficAllocation, dailyTraffic, testType, variants]);
+  }, [baselineRate, minimumDetectableEffect, power, significance, trafficAllocation, dailyTraffic, testType, variants, baselineMean, variabilityInput, standardDeviation, coefficientOfVariation, covariateCorrelation, ratioBaseline]);
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -161,20 +228,103 @@ export function SampleSizeCalculator() {
                   <SelectItem value="revenue">Revenue per User</SelectItem>
                   <SelectItem value="retention">Retention Rate</SelectItem>
                   <SelectItem value="engagement">Engagement Rate</SelectItem>
+                  <SelectItem value="ratio">Ratio Metric (e.g. Click-through Rate)</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="baselineRate">Baseline Rate (%)</Label>
-              <Input
-                id="baselineRate"
-                type="number"
-                value={baselineRate}
-                onChange={(e) => setBaselineRate(Number(e.target.value))}
-                placeholder="e.g., 5"
-              />
-            </div>
+            {testType === 'ratio' ? (
+              <div className="space-y-2">
+                <Label>Baseline Per-User Aggregates</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {([
+                    ['numeratorMean', 'Numerator Mean'],
+                    ['denominatorMean', 'Denominator Mean'],
+                    ['numeratorVariance', 'Numerator Var.'],
+                    ['denominatorVariance', 'Denominator Var.'],
+                    ['covariance', 'Covariance']
+                  ] as const).map(([key, label]) => (
+                    <div key={key} className="space-y-1">
+                      <Label htmlFor={`ratio-${key}`} className="text-xs">{label}</Label>
+                      <Input
+                        id={`ratio-${key}`}
+                        type="number"
+                        value={ratioBaseline[key]}
+                        onChange={(e) => setRatioBaseline(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Baseline ratio {getRatio(ratioBaseline).toFixed(4)}
+                  {getRatioDesignEffect(ratioBaseline) > 0 &&
+                    `, ${getRatioDesignEffect(ratioBaseline).toFixed(2)}× the variance of treating each event as independent`}
+                </p>
+              </div>
+            ) : isContinuousMetric ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="baselineMean">Baseline Mean</Label>
+                  <Input
+                    id="baselineMean"
+                    type="number"
+                    value={baselineMean}
+                    onChange={(e) => setBaselineMean(Number(e.target.value))}
+                    placeholder="e.g., 25"
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Variability</Label>
+                    <Select value={variabilityInput} onValueChange={setVariabilityInput}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="sd">Std. Deviation</SelectItem>
+                        <SelectItem value="cv">Coeff. of Variation</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {variabilityInput === 'cv' ? (
+                    <div className="space-y-2">
+                      <Label htmlFor="coefficientOfVariation">CV (%)</Label>
+                      <Input
+                        id="coefficientOfVariation"
+                        type="number"
+                        value={coefficientOfVariation}
+                        onChange={(e) => setCoefficientOfVariation(Number(e.target.value))}
+                        placeholder="e.g., 160"
+                      />
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <Label htmlFor="standardDeviation">Std. Deviation</Label>
+                      <Input
+                        id="standardDeviation"
+                        type="number"
+                        value={standardDeviation}
+                        onChange={(e) => setStandardDeviation(Number(e.target.value))}
+                        placeholder="e.g., 40"
+                      />
+                    </div>
+                  )}
+                </div>
+              </>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="baselineRate">Baseline Rate (%)</Label>
+                <Input
+                  id="baselineRate"
+                  type="number"
+                  value={baselineRate}
+                  onChange={(e) => setBaselineRate(Number(e.target.value))}
+                  placeholder="e.g., 5"
+                />
+              </div>
+            )}
 
             <div className="space-y-2">
               <Label htmlFor="mde">Minimum Detectable Effect (%)</Label>
@@ -233,6 +383,23 @@ export function SampleSizeCalculator() {
               </Select>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="covariateCorrelation">Pre-period Correlation (ρ)</Label>
+              <Input
+                id="covariateCorrelation"
+                type="number"
+                step="0.05"
+                min="0"
+                max="0.99"
+                value={covariateCorrelation}
+                onChange={(e) => setCovariateCorrelation(Number(e.target.value))}
+                placeholder="e.g., 0.5"
+              />
+              <p className="text-xs text-muted-foreground">
+                Correlation between each user's pre-experiment and in-experiment metric. Set to 0 to plan without CUPED.
+              </p>
+            </div>
+
             <Separator />
 
             <div className="space-y-2">
@@ -291,6 +458,26 @@ export function SampleSizeCalculator() {
                     <div className="value">{results.actualPower.toFixed(1)}%</div>
                     <div className="label">Actual Power</div>
                   </div>
+                  {results.cuped && (
+                    <>
+                      <div className="result-card">
+                        <div className="value text-green-600">{results.cuped.sampleSizePerVariant.toLocaleString()}</div>
+                        <div className="label">Per Variant (CUPED)</div>
+                      </div>
+                      <div className="result-card">
+                        <div className="value text-green-600">{results.cuped.totalSampleSize.toLocaleString()}</div>
+                        <div className="label">Total (CUPED)</div>
+                      </div>
+                      <div className="result-card">
+                        <div className="value text-green-600">{results.cuped.expectedDuration}</div>
+                        <div className="label">Days (CUPED)</div>
+                      </div>
+                      <div className="result-card">
+                        <div className="value">{results.cuped.varianceReduction.toFixed(1)}%</div>
+                        <div className="label">Variance Reduction</div>
+                      </div>
+                    </>
+                  )}
                 </div>
               ) : (
                 <div className="text-center text-muted-foreground py-8">
@@ -313,21 +500,39 @@ export function SampleSizeCalculator() {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <h4>Effect Size Analysis</h4>
-                    <p className="text-sm text-muted-foreground">
-                      Minimum detectable effect: <Badge variant="outline">{results.minimumDetectableEffect.toFixed(2)}%</Badge>
-                    </p>
-                    <p className="text-sm text-muted-foreground">
-                      {results.minimumDetectableEffect < 5 ? "Small effect - requires large sample" : 
-                       results.minimumDetectableEffect < 15 ? "Medium effect - moderate sample needed" : 
-                       "Large effect - smaller sample sufficient"}
-                    </p>
+                    {results.isContinuous ? (
+                      <>
+                        <p className="text-sm text-muted-foreground">
+                          Minimum detectable difference: <Badge variant="outline">{results.minimumDetectableEffect.toFixed(2)}</Badge>
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          Cohen's d: <Badge variant="outline">{results.standardizedEffect.toFixed(3)}</Badge>{' '}
+                          {results.standardizedEffect < 0.2 ? "Small effect - requires large sample" :
+                           results.standardizedEffect < 0.5 ? "Medium effect - moderate sample needed" :
+                           "Large effect - smaller sample sufficient"}
+                        </p>
+                      </>
+                    ) : (
+                      <>
+                        <p className="text-sm text-muted-foreground">
+                          Minimum detectable effect: <Badge variant="outline">{results.minimumDetectableEffect.toFixed(2)}%</Badge>
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {results.minimumDetectableEffect < 5 ? "Small effect - requires large sample" : 
+                           results.minimumDetectableEffect < 15 ? "Medium effect - moderate sample needed" : 
+                           "Large effect - smaller sample sufficient"}
+                        </p>
+                      </>
+                    )}
                   </div>
                   
                   <div className="space-y-2">
                     <h4>Confidence Interval</h4>
                     <p className="text-sm text-muted-foreground">
                       Expected range: <Badge variant="outline">
-                        {results.confidenceInterval[0].toFixed(2)}% to {results.confidenceInterval[1].toFixed(2)}%
+                        {results.isContinuous
+                          ? `${results.confidenceInterval[0].toFixed(2)} to ${results.confidenceInterval[1].toFixed(2)}`
+                          : `${results.confidenceInterval[0].toFixed(2)}% to ${results.confidenceInterval[1].toFixed(2)}%`}
                       </Badge>
                     </p>
                   </div>
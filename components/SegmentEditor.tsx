@@ -0,0 +1,108 @@
+import { Input } from './ui/input';
+import { Button } from './ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Plus, Trash2 } from 'lucide-react';
+import { ExperimentSegment } from '../types/experiment';
+import { VARIANT_COLORS } from '../constants/experimentDefaults';
+import { isValidSegmentation } from '../utils/segmentSimulation';
+
+interface SegmentEditorProps {
+  segments: ExperimentSegment[];
+  onChange: (segments: ExperimentSegment[]) => void;
+  disabled?: boolean;
+}
+
+export function SegmentEditor({ segments, onChange, disabled }: SegmentEditorProps) {
+  const addSegment = () => {
+    onChange([...segments, {
+      id: `segment_${Date.now()}`,
+      name: `Segment ${segments.length + 1}`,
+      trafficShare: 20,
+      baselineRate: 5,
+      lift: 5,
+      treatmentShare: 50,
+      finalTreatmentShare: 50
+    }]);
+  };
+
+  const removeSegment = (id: string) => {
+    onChange(segments.filter(segment => segment.id !== id));
+  };
+
+  const updateSegment = (id: string, updates: Partial<ExperimentSegment>) => {
+    onChange(segments.map(segment => segment.id === id ? { ...segment, ...updates } : segment));
+  };
+
+  const numberField = (segment: ExperimentSegment, key: Exclude<keyof ExperimentSegment, 'id' | 'name'>, step: string) => (
+    <Input
+      type="number"
+      step={step}
+      value={segment[key]}
+      onChange={(e) => updateSegment(segment.id, { [key]: Number(e.target.value) })}
+      className="h-8 w-20 ml-auto"
+      disabled={disabled}
+    />
+  );
+
+  return (
+    <div className="space-y-3">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Segment</TableHead>
+            <TableHead className="text-right">Traffic (%)</TableHead>
+            <TableHead className="text-right">Baseline (%)</TableHead>
+            <TableHead className="text-right">Lift (%)</TableHead>
+            <TableHead className="text-right">Treatment Day 1 (%)</TableHead>
+            <TableHead className="text-right">Treatment Day 30 (%)</TableHead>
+            <TableHead></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {segments.map((segment, index) => (
+            <TableRow key={segment.id}>
+              <TableCell>
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: VARIANT_COLORS[index % VARIANT_COLORS.length] }}></div>
+                  <Input
+                    value={segment.name}
+                    onChange={(e) => updateSegment(segment.id, { name: e.target.value })}
+                    className="h-8"
+                    disabled={disabled}
+                  />
+                </div>
+              </TableCell>
+              <TableCell>{numberField(segment, 'trafficShare', '5')}</TableCell>
+              <TableCell>{numberField(segment, 'baselineRate', '0.5')}</TableCell>
+              <TableCell>{numberField(segment, 'lift', '1')}</TableCell>
+              <TableCell>{numberField(segment, 'treatmentShare', '5')}</TableCell>
+              <TableCell>{numberField(segment, 'finalTreatmentShare', '5')}</TableCell>
+              <TableCell>
+                {segments.length > 2 && (
+                  <Button variant="ghost" size="sm" onClick={() => removeSegment(segment.id)} disabled={disabled}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {segments.length < VARIANT_COLORS.length && (
+        <Button onClick={addSegment} variant="outline" size="sm" disabled={disabled}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Segment
+        </Button>
+      )}
+      {!isValidSegmentation(segments) && (
+        <p className="text-sm text-red-600">
+          Use at least two segments with positive traffic, baselines between 0 and 100%, lifts above -100% and treatment shares from 0 to 100%
+        </p>
+      )}
+      <p className="text-sm text-muted-foreground">
+        Segment rates and lifts replace the baseline rate and treatment effect; traffic shares are normalized to the total.
+        The treatment share of each segment moves linearly from day 1 to day 30; keep both equal for a fixed allocation.
+      </p>
+    </div>
+  );
+}
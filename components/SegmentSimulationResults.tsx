@@ -0,0 +1,119 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Alert, AlertDescription } from './ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Layers, AlertTriangle } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { SegmentSimulationSummary } from '../types/simulation';
+import { SIGNIFICANCE_LEVEL } from '../utils/virtualUsers';
+
+interface SegmentSimulationResultsProps {
+  summary: SegmentSimulationSummary;
+  numberOfSimulations: number;
+}
+
+export function SegmentSimulationResults({ summary, numberOfSimulations }: SegmentSimulationResultsProps) {
+  const rows = [...summary.segments, summary.pooled];
+  const chartData = rows.map(row => ({ name: row.name, expectedLift: row.expectedLift, averageLift: row.averageLift }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          Segment vs. Pooled Results
+        </CardTitle>
+        <CardDescription>
+          {numberOfSimulations} simulated experiments analysed per segment and pooled over all segments
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="result-card">
+            <div className={`value ${summary.isSimpsonsParadox ? 'text-red-600' : ''}`}>
+              {summary.pooled.expectedLift.toFixed(1)}%
+            </div>
+            <div className="label">Pooled Lift</div>
+          </div>
+          <div className="result-card">
+            <div className="value">{summary.expectedStratifiedLift.toFixed(1)}%</div>
+            <div className="label">Stratified Lift</div>
+          </div>
+          <div className="result-card">
+            <div className="value">{summary.reversalRate.toFixed(1)}%</div>
+            <div className="label">Runs with Reversal</div>
+          </div>
+          <div className="result-card">
+            <div className={`value ${summary.misleadingSignificantRate > 0 ? 'text-red-600' : ''}`}>
+              {summary.misleadingSignificantRate.toFixed(1)}%
+            </div>
+            <div className="label">Significant, Wrong Sign</div>
+          </div>
+        </div>
+
+        {summary.isSimpsonsParadox && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Simpson's paradox: every segment {summary.segments[0]?.expectedLift > 0 ? 'improves' : 'gets worse'} under treatment, yet the pooled
+              {' '}comparison shows a {summary.pooled.expectedLift.toFixed(1)}% lift. The treatment share differs between segments (or drifts
+              {' '}over time), so the pooled arms mix segments with different baselines in different proportions. Compare within segments or
+              {' '}use the stratified estimate ({summary.expectedStratifiedLift.toFixed(1)}%).
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Segment</TableHead>
+              <TableHead className="text-right">Traffic</TableHead>
+              <TableHead className="text-right">In Treatment</TableHead>
+              <TableHead className="text-right">Control Rate</TableHead>
+              <TableHead className="text-right">Treatment Rate</TableHead>
+              <TableHead className="text-right">Expected Lift</TableHead>
+              <TableHead className="text-right">Mean Observed Lift</TableHead>
+              <TableHead className="text-right">Significant (p &lt; {SIGNIFICANCE_LEVEL})</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.name} className={row === summary.pooled ? 'font-medium' : ''}>
+                <TableCell>{row.name}</TableCell>
+                <TableCell className="text-right">{row.trafficShare.toFixed(0)}%</TableCell>
+                <TableCell className="text-right">{row.treatmentShare.toFixed(1)}%</TableCell>
+                <TableCell className="text-right">{row.expectedControlRate.toFixed(2)}%</TableCell>
+                <TableCell className="text-right">{row.expectedTreatmentRate.toFixed(2)}%</TableCell>
+                <TableCell className={`text-right ${row === summary.pooled && summary.isSimpsonsParadox ? 'text-red-600' : ''}`}>
+                  {row.expectedLift.toFixed(1)}%
+                </TableCell>
+                <TableCell className="text-right">{row.averageLift.toFixed(1)}%</TableCell>
+                <TableCell className="text-right">{row.significantRate.toFixed(1)}%</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" />
+              <YAxis unit="%" />
+              <Tooltip formatter={(value: number) => `${value.toFixed(2)}%`} />
+              <Legend />
+              <ReferenceLine y={0} stroke="#6b7280" />
+              <Bar dataKey="expectedLift" fill="#3b82f6" name="Expected lift" />
+              <Bar dataKey="averageLift" fill="#10b981" name="Mean observed lift" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="text-sm text-muted-foreground">
+          Rates, treatment shares and expected lifts are what the configured segments produce without sampling noise.
+          The stratified lift weights each segment's rates by its traffic share, as if every segment had the same allocation;
+          its mean over the simulated runs was {summary.averageStratifiedLift.toFixed(1)}%.
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
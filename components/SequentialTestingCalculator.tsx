@@ -7,8 +7,34 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Badge } from './ui/badge';
 import { Switch } from './ui/switch';
 import { Alert, AlertDescription } from './ui/alert';
-import { Zap, TrendingUp, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Zap, TrendingUp, AlertTriangle, CheckCircle, Plus, Trash2, Download, ClipboardList, Target, Crosshair } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { AlwaysValidMonitor } from './AlwaysValidMonitor';
+import { WaldSprtPanel } from './WaldSprtPanel';
+import {
+  GroupSequentialLook,
+  InterimDecision,
+  InterimLook,
+  SampleSizeAdaptation,
+  SampleSizeReestimation,
+  SequentialDecision,
+  SequentialMethod,
+  SpendingFunction
+} from '../types/statistics';
+import { SEQUENTIAL_METHOD_OPTIONS, SPENDING_FUNCTION_OPTIONS } from '../constants/experimentDefaults';
+import { normalCDF, normalInverse } from '../utils/statisticalCalculations';
+import {
+  computeGroupSequentialBoundaries,
+  evaluateInterimLooks,
+  getLookStatistics,
+  getMonitoringSchedule,
+  groupSequentialOperatingCharacteristic,
+  LOOK_TOLERANCE,
+  stagewiseInference
+} from '../utils/groupSequential';
+import { conditionalPower, currentTrendDrift, predictivePower, promisingZoneReestimation } from '../utils/conditionalPower';
+import { parseNumericValues } from '../utils/dataParsing';
 
 interface SequentialBounds {
   upper: number;
@@ -16,221 +42,355 @@ interface SequentialBounds {
   futility: number;
 }
 
+// Differences are in absolute conversion rate; all intervals are two-sided at 1 - α
+interface AdjustedEstimate {
+  date: string;
+  controlRate: number;
+  naiveDifference: number;
+  naiveInterval: [number, number];
+  naivePValue: number;
+  medianUnbiasedDifference: number;
+  exactInterval: [number, number];
+  stagewisePValue: number;
+  repeatedInterval: [number, number];
+}
+
 interface SequentialResult {
   currentZ: number;
   currentP: number;
   bounds: SequentialBounds;
-  recommendation: 'continue' | 'stop_success' | 'stop_futility' | 'stop_harm';
-  probabilityOfSuccess: number;
+  recommendation: SequentialDecision;
+  stoppingDecision: InterimDecision | null;
+  conditionalPower: {
+    currentTrend: number;
+    alternative: number;
+    assumedEffect: number;
+  };
+  predictivePower: number;
+  reestimation: SampleSizeReestimation | null;
+  adjustedEstimate: AdjustedEstimate | null;
+  repeatedIntervals: Array<{ lookId: string; date: string; difference: number; interval: [number, number] }>;
   expectedSampleSize: number;
+  looks: GroupSequentialLook[];
+  decisions: InterimDecision[];
   boundaryHistory: Array<{
     n: number;
-    upperBound: number;
-    lowerBound: number;
-    futilityBound: number;
+    upperBound?: number;
+    lowerBound?: number;
+    futilityBound?: number;
     zScore?: number;
   }>;
 }
 
+type LookEntry = Omit<InterimLook, 'id' | 'recordedAt'>;
+
+const today = (): string => new Date().toISOString().slice(0, 10);
+
+const formatPoints = (difference: number): string => `${difference > 0 ? '+' : ''}${(difference * 100).toFixed(2)} pp`;
+
+const formatLift = (difference: number, controlRate: number): string => {
+  if (controlRate <= 0) return '-';
+  const lift = (difference / controlRate) * 100;
+  return `${lift > 0 ? '+' : ''}${lift.toFixed(1)}%`;
+};
+
+const formatBound = (bound: number): string => isFinite(bound) ? bound.toFixed(2) : bound > 0 ? '∞' : '-∞';
+
 export function SequentialTestingCalculator() {
-  const [currentSampleSize, setCurrentSampleSize] = useState<number>(500);
+  const [looks, setLooks] = useState<InterimLook[]>([{
+    id: 'look_1',
+    date: today(),
+    controlVisitors: 250,
+    controlConversions: 25,
+    treatmentVisitors: 250,
+    treatmentConversions: 35,
+    recordedAt: new Date().toISOString()
+  }]);
+  const [newLook, setNewLook] = useState<LookEntry>({
+    date: today(),
+    controlVisitors: 500,
+    controlConversions: 50,
+    treatmentVisitors: 500,
+    treatmentConversions: 65
+  });
   const [maxSampleSize, setMaxSampleSize] = useState<number>(2000);
-  const [controlConversions, setControlConversions] = useState<number>(25);
-  const [treatmentConversions, setTreatmentConversions] = useState<number>(35);
   const [alpha, setAlpha] = useState<number>(0.05);
   const [beta, setBeta] = useState<number>(0.2);
   const [minimumEffect, setMinimumEffect] = useState<number>(20);
   const [enableFutility, setEnableFutility] = useState<boolean>(true);
   const [enableHarm, setEnableHarm] = useState<boolean>(true);
-  const [boundaryType, setBoundaryType] = useState<string>('obrien-fleming');
+  const [boundaryType, setBoundaryType] = useState<SpendingFunction>('obrien-fleming');
+  const [spendingParameter, setSpendingParameter] = useState<number>(0);
+  const [plannedLooks, setPlannedLooks] = useState<number>(5);
+  const [customFractions, setCustomFractions] = useState<string>('');
+  const [method, setMethod] = useState<SequentialMethod>('group-sequential');
+  const [assumedEffect, setAssumedEffect] = useState<number>(10);
+  const [futilityPowerThreshold, setFutilityPowerThreshold] = useState<number>(10);
+  const [promisingThreshold, setPromisingThreshold] = useState<number>(30);
+  const [sampleSizeCapMultiple, setSampleSizeCapMultiple] = useState<number>(2);
+  const [adaptation, setAdaptation] = useState<SampleSizeAdaptation | null>(null);
   
   const [results, setResults] = useState<SequentialResult | null>(null);
 
-  // O'Brien-Fleming boundary function
-  const getOBrienFlemingBound = (t: number, alpha: number): number => {
-    // t is the information fraction (current/max sample size)
-    return Math.sqrt(-2 * Math.log(alpha / 2)) / Math.sqrt(t);
+  // The latest look is the current analysis; counts in the log are cumulative
+  const currentLook = looks[looks.length - 1];
+  const currentSampleSize = currentLook ? currentLook.controlVisitors + currentLook.treatmentVisitors : 0;
+  const newLookSampleSize = newLook.controlVisitors + newLook.treatmentVisitors;
+  const newLookError = !newLook.date
+    ? 'Enter the date of the look'
+    : newLook.controlConversions > newLook.controlVisitors || newLook.treatmentConversions > newLook.treatmentVisitors
+      ? 'Conversions cannot exceed visitors'
+      : newLook.controlVisitors <= 0 || newLook.treatmentVisitors <= 0
+        ? 'Both arms need visitors'
+        : newLookSampleSize <= currentSampleSize
+          ? 'Counts are cumulative, so each look needs more visitors than the last'
+          : null;
+
+  const recordLook = () => {
+    if (newLookError) return;
+    const look: InterimLook = { ...newLook, id: `look_${Date.now()}`, recordedAt: new Date().toISOString() };
+    setLooks(prev => [...prev, look]);
   };
 
-  // Pocock boundary function
-  const getPocockBound = (alpha: number, maxAnalyses: number): number => {
-    // Approximation for Pocock boundaries
-    const c = 2.024; // For alpha = 0.05 and 5 analyses
-    return c;
+  const removeLook = (id: string) => {
+    setLooks(prev => prev.filter(look => look.id !== id));
+    if (adaptation?.lookId === id) undoAdaptation();
   };
 
-  // Wang-Tsiatis boundary function
-  const getWangTsiatiBound = (t: number, alpha: number, delta: number = 0.25): number => {
-    const phi = normalInverse(1 - alpha / 2);
-    return phi * Math.pow(t, delta - 0.5);
+  const applyAdaptation = (newMaxSampleSize: number) => {
+    if (!currentLook) return;
+    setAdaptation({ lookId: currentLook.id, originalMaxSampleSize: maxSampleSize, newMaxSampleSize });
+    setMaxSampleSize(newMaxSampleSize);
   };
 
-  const normalInverse = (p: number): number => {
-    // Approximation of inverse normal distribution
-    const a = [0, -3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
-    const b = [0, -5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
-    
-    if (p <= 0) return -Infinity;
-    if (p >= 1) return Infinity;
-    if (p === 0.5) return 0;
-    
-    const sign = p < 0.5 ? -1 : 1;
-    const r = p < 0.5 ? p : 1 - p;
-    
-    const t = Math.sqrt(-2 * Math.log(r));
-    let x = t - ((a[2] + a[1] * t) / (1 + b[1] * t + b[2] * t * t));
-    
-    return sign * x;
+  const undoAdaptation = () => {
+    if (!adaptation) return;
+    setMaxSampleSize(adaptation.originalMaxSampleSize);
+    setAdaptation(null);
   };
 
-  const normalCDF = (x: number): number => {
-    return 0.5 * (1 + erf(x / Math.sqrt(2)));
+  const selectBoundaryType = (value: SpendingFunction) => {
+    setBoundaryType(value);
+    setSpendingParameter(SPENDING_FUNCTION_OPTIONS.find(o => o.value === value)?.defaultParameter ?? 0);
   };
 
-  const erf = (x: number): number => {
-    const a1 = 0.254829592;
-    const a2 = -0.284496736;
-    const a3 = 1.421413741;
-    const a4 = -1.453152027;
-    const a5 = 1.061405429;
-    const p = 0.3275911;
-    
-    const sign = x >= 0 ? 1 : -1;
-    x = Math.abs(x);
-    
-    const t = 1.0 / (1.0 + p * x);
-    const y = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-x * x);
-    
-    return sign * y;
+  // Planned information fractions: custom values if given, otherwise equally spaced looks.
+  // The final analysis is always at t = 1.
+  const getPlannedFractions = (): number[] => {
+    const custom = parseNumericValues(customFractions).filter(t => t > 0 && t < 1);
+    const fractions = custom.length > 0
+      ? custom
+      : Array.from({ length: Math.max(plannedLooks, 1) - 1 }, (_, i) => (i + 1) / Math.max(plannedLooks, 1));
+    return [...Array.from(new Set(fractions)).sort((a, b) => a - b), 1];
   };
 
-  const calculateSequentialBounds = (n: number, nMax: number): SequentialBounds => {
-    const t = n / nMax; // Information fraction
-    let upperBound: number;
-    let lowerBound: number;
-    
-    switch (boundaryType) {
-      case 'obrien-fleming':
-        upperBound = getOBrienFlemingBound(t, alpha);
-        lowerBound = -upperBound;
-        break;
-      case 'pocock':
-        upperBound = getPocockBound(alpha, 5);
-        lowerBound = -upperBound;
-        break;
-      case 'wang-tsiatis':
-        upperBound = getWangTsiatiBound(t, alpha);
-        lowerBound = -upperBound;
-        break;
-      default:
-        upperBound = normalInverse(1 - alpha / 2);
-        lowerBound = -upperBound;
-    }
-    
-    // Futility bound (conditional power approach)
-    const futilityBound = enableFutility ? normalInverse(beta) : -Infinity;
-    
-    return { upper: upperBound, lower: lowerBound, futility: futilityBound };
+  const getBoundsAt = (looks: GroupSequentialLook[], fraction: number): SequentialBounds => {
+    const current = looks.find(look => Math.abs(look.informationFraction - fraction) < LOOK_TOLERANCE) ??
+      looks[looks.length - 1];
+
+    return {
+      upper: current.efficacyBound,
+      lower: -current.efficacyBound,
+      futility: current.futilityBound ?? -Infinity
+    };
   };
 
-  const calculateCurrentZScore = (): number => {
-    const n = currentSampleSize / 2; // per variant
-    const pControl = controlConversions / n;
-    const pTreatment = treatmentConversions / n;
-    
-    const pooledP = (controlConversions + treatmentConversions) / currentSampleSize;
-    const se = Math.sqrt(pooledP * (1 - pooledP) * (2 / n));
-    
-    if (se === 0) return 0;
-    return (pTreatment - pControl) / se;
+  // Sample size at an information fraction. After an increase, information past the
+  // adaptation look is spread over the enlarged second stage.
+  const getSampleSizeAt = (fraction: number): number => {
+    const base = adaptation ? looks.find(look => look.id === adaptation.lookId) : undefined;
+    if (!adaptation || !base) return fraction * maxSampleSize;
+
+    const baseSize = base.controlVisitors + base.treatmentVisitors;
+    const baseFraction = Math.min(baseSize / adaptation.originalMaxSampleSize, 1);
+    if (fraction <= baseFraction || baseFraction >= 1) return fraction * adaptation.originalMaxSampleSize;
+    return baseSize + (fraction - baseFraction) / (1 - baseFraction) * (maxSampleSize - baseSize);
   };
 
-  const calculateProbabilityOfSuccess = (currentZ: number, bounds: SequentialBounds): number => {
-    // Approximate probability of eventually crossing upper boundary
-    // This is a simplified calculation
-    const remainingInformation = 1 - (currentSampleSize / maxSampleSize);
-    const drift = currentZ * Math.sqrt(currentSampleSize / maxSampleSize);
-    
-    if (remainingInformation <= 0) {
-      return currentZ > bounds.upper ? 1 : 0;
-    }
-    
-    // Use normal approximation
-    const adjustedUpperBound = bounds.upper * Math.sqrt(1 - remainingInformation);
-    const adjustedZ = currentZ + drift * Math.sqrt(remainingInformation);
-    
-    return 1 - normalCDF(adjustedUpperBound - adjustedZ);
+  // How much an adaptation stretches the remaining increments relative to the original plan
+  const getStageTwoScale = (): number => {
+    const base = adaptation ? looks.find(look => look.id === adaptation.lookId) : undefined;
+    if (!adaptation || !base) return 1;
+    const baseSize = base.controlVisitors + base.treatmentVisitors;
+    const plannedRemainder = adaptation.originalMaxSampleSize - baseSize;
+    return plannedRemainder > 0 ? Math.sqrt((maxSampleSize - baseSize) / plannedRemainder) : 1;
   };
 
-  const generateBoundaryHistory = (): Array<{
-    n: number;
-    upperBound: number;
-    lowerBound: number;
-    futilityBound: number;
-    zScore?: number;
-  }> => {
-    const history = [];
-    const steps = 20;
-    
-    for (let i = 1; i <= steps; i++) {
-      const n = (maxSampleSize * i) / steps;
-      const bounds = calculateSequentialBounds(n, maxSampleSize);
-      
-      const point: any = {
-        n,
-        upperBound: bounds.upper,
-        lowerBound: bounds.lower,
-        futilityBound: bounds.futility
-      };
-      
-      // Add current z-score at current sample size
-      if (Math.abs(n - currentSampleSize) < maxSampleSize / steps) {
-        point.zScore = calculateCurrentZScore();
-      }
-      
-      history.push(point);
-    }
-    
-    return history;
+  // Expected Z at the original maximum sample size for a relative lift over the control rate
+  const getEffectDrift = (relativeEffect: number): number => {
+    if (!currentLook) return 0;
+    const plannedMaximum = adaptation?.originalMaxSampleSize ?? maxSampleSize;
+    const p0 = currentLook.controlConversions / currentLook.controlVisitors;
+    const p1 = Math.min(p0 * (1 + relativeEffect / 100), 1);
+    const variance = (p0 * (1 - p0) + p1 * (1 - p1)) / (plannedMaximum / 2);
+    return variance > 0 ? (p1 - p0) / Math.sqrt(variance) : 0;
+  };
+
+  const getDifference = (look: InterimLook): number => {
+    return look.treatmentConversions / look.treatmentVisitors - look.controlConversions / look.controlVisitors;
+  };
+
+  // Standard error behind the pooled Z, so intervals and tests agree
+  const getPooledStandardError = (look: InterimLook): number => {
+    const pooled = (look.controlConversions + look.treatmentConversions) / (look.controlVisitors + look.treatmentVisitors);
+    return Math.sqrt(pooled * (1 - pooled) * (1 / look.controlVisitors + 1 / look.treatmentVisitors));
+  };
+
+  // Naive estimates at an early stop are biased away from zero because the trial stopped when
+  // the data happened to look extreme. Stagewise ordering accounts for the stopping rule; the
+  // drift scale maps to the rate difference through the stopping look's standard error.
+  const calculateAdjustedEstimate = (
+    boundaries: GroupSequentialLook[],
+    decision: InterimDecision
+  ): AdjustedEstimate | null => {
+    const look = looks.find(l => l.id === decision.lookId);
+    const stopIndex = boundaries.findIndex(b => Math.abs(b.informationFraction - decision.informationFraction) < LOOK_TOLERANCE);
+    if (!look || stopIndex < 0) return null;
+
+    const inference = stagewiseInference(boundaries, stopIndex, decision.zScore, alpha);
+    const standardError = getPooledStandardError(look);
+    const toDifference = (drift: number) => drift * Math.sqrt(decision.informationFraction) * standardError;
+    const difference = getDifference(look);
+    const zCritical = normalInverse(1 - alpha / 2);
+
+    return {
+      date: look.date,
+      controlRate: look.controlConversions / look.controlVisitors,
+      naiveDifference: difference,
+      naiveInterval: [difference - zCritical * standardError, difference + zCritical * standardError],
+      naivePValue: 2 * normalCDF(-Math.abs(decision.zScore)),
+      medianUnbiasedDifference: toDifference(inference.medianUnbiasedDrift),
+      exactInterval: [toDifference(inference.driftInterval[0]), toDifference(inference.driftInterval[1])],
+      stagewisePValue: inference.pValue,
+      repeatedInterval: [difference - decision.efficacyBound * standardError, difference + decision.efficacyBound * standardError]
+    };
+  };
+
+  const generateBoundaryHistory = (looks: GroupSequentialLook[], decisions: InterimDecision[]): SequentialResult['boundaryHistory'] => {
+    return looks.map(look => ({
+      n: Math.round(getSampleSizeAt(look.informationFraction)),
+      upperBound: isFinite(look.efficacyBound) ? look.efficacyBound : undefined,
+      lowerBound: isFinite(look.efficacyBound) ? -look.efficacyBound : undefined,
+      futilityBound: look.futilityBound !== null && isFinite(look.futilityBound) ? look.futilityBound : undefined,
+      zScore: decisions.find(d => Math.abs(d.informationFraction - look.informationFraction) < LOOK_TOLERANCE)?.zScore
+    }));
   };
 
+  // Boundaries are recomputed from the spending function at every observed information
+  // fraction, so looks may fall anywhere without inflating α
   const performSequentialAnalysis = (): SequentialResult => {
-    const currentZ = calculateCurrentZScore();
-    const bounds = calculateSequentialBounds(currentSampleSize, maxSampleSize);
-    const currentP = 2 * (1 - normalCDF(Math.abs(currentZ)));
-    
-    let recommendation: SequentialResult['recommendation'] = 'continue';
-    
-    if (currentZ >= bounds.upper) {
-      recommendation = 'stop_success';
-    } else if (currentZ <= bounds.lower) {
-      recommendation = enableHarm ? 'stop_harm' : 'continue';
-    } else if (enableFutility && currentZ <= bounds.futility) {
-      recommendation = 'stop_futility';
-    }
-    
-    const probabilityOfSuccess = calculateProbabilityOfSuccess(currentZ, bounds);
-    
-    // Estimate expected sample size (simplified)
-    const expectedSampleSize = currentSampleSize + (maxSampleSize - currentSampleSize) * (1 - probabilityOfSuccess);
+    const statistics = getLookStatistics(looks, maxSampleSize, adaptation);
+    const boundaries = computeGroupSequentialBoundaries(
+      getMonitoringSchedule(statistics.map(s => s.informationFraction), getPlannedFractions()),
+      alpha,
+      boundaryType,
+      spendingParameter,
+      enableFutility ? beta : null
+    );
+    const decisions = evaluateInterimLooks(looks, statistics, boundaries, enableFutility, enableHarm);
+    const current = decisions[decisions.length - 1];
+    const bounds = getBoundsAt(boundaries, current.informationFraction);
+    const currentZ = current.zScore;
+    const currentP = 2 * normalCDF(-Math.abs(currentZ));
+
+    // Once a boundary is crossed the trial is over; later looks cannot overturn that decision
+    const stoppingDecision = decisions.find(d => d.decision !== 'continue') ?? null;
+    const recommendation = stoppingDecision?.decision ?? 'continue';
+
+    // Conditional power is judged against the final efficacy bound
+    const t = current.informationFraction;
+    const finalBound = boundaries[boundaries.length - 1].efficacyBound;
+    const scale = getStageTwoScale();
+    const trendDrift = currentTrendDrift(currentZ, t);
+
+    // Expected sample size if the current trend is the truth, respecting the looks still ahead
+    const { expectedInformation } = groupSequentialOperatingCharacteristic(
+      boundaries, trendDrift * scale, { informationFraction: t, zScore: currentZ }
+    );
+
+    // Only one adaptation is allowed, and only while the trial is still running
+    const plannedMaximum = adaptation?.originalMaxSampleSize ?? maxSampleSize;
+    const reestimation = adaptation || stoppingDecision || t >= 1 ? null : promisingZoneReestimation(
+      currentZ,
+      t,
+      finalBound,
+      currentSampleSize,
+      plannedMaximum,
+      1 - beta,
+      promisingThreshold / 100,
+      plannedMaximum * sampleSizeCapMultiple
+    );
     
     return {
       currentZ,
       currentP,
       bounds,
       recommendation,
-      probabilityOfSuccess,
-      expectedSampleSize,
-      boundaryHistory: generateBoundaryHistory()
+      stoppingDecision,
+      conditionalPower: {
+        currentTrend: conditionalPower(currentZ, t, finalBound, trendDrift * scale),
+        alternative: conditionalPower(currentZ, t, finalBound, getEffectDrift(minimumEffect) * scale),
+        assumedEffect: conditionalPower(currentZ, t, finalBound, getEffectDrift(assumedEffect) * scale)
+      },
+      predictivePower: predictivePower(currentZ, t, finalBound, scale),
+      reestimation,
+      adjustedEstimate: stoppingDecision && stoppingDecision.decision !== 'stop_futility'
+        ? calculateAdjustedEstimate(boundaries, stoppingDecision)
+        : null,
+      // Repeated confidence intervals hold simultaneously at every look, stopped or not
+      repeatedIntervals: decisions.flatMap(decision => {
+        const look = looks.find(l => l.id === decision.lookId);
+        if (!look || !isFinite(decision.efficacyBound)) return [];
+        const difference = getDifference(look);
+        const halfWidth = decision.efficacyBound * getPooledStandardError(look);
+        return [{ lookId: look.id, date: look.date, difference, interval: [difference - halfWidth, difference + halfWidth] as [number, number] }];
+      }),
+      expectedSampleSize: Math.max(getSampleSizeAt(expectedInformation), currentSampleSize),
+      looks: boundaries,
+      decisions,
+      boundaryHistory: generateBoundaryHistory(boundaries, decisions)
     };
   };
 
+  const exportAuditTrail = () => {
+    if (!results) return;
+    const auditTrail = {
+      exportedAt: new Date().toISOString(),
+      design: {
+        maxSampleSize,
+        alpha,
+        beta: enableFutility ? beta : null,
+        minimumEffect,
+        spendingFunction: boundaryType,
+        spendingParameter,
+        plannedFractions: getPlannedFractions(),
+        futilityMonitoring: enableFutility,
+        harmMonitoring: enableHarm
+      },
+      adaptation,
+      looks,
+      decisions: results.decisions,
+      boundaries: results.looks
+    };
+    const blob = new Blob([JSON.stringify(auditTrail, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `sequential_audit_trail_${today()}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   useEffect(() => {
-    if (currentSampleSize && controlConversions >= 0 && treatmentConversions >= 0) {
+    if (currentSampleSize > 0 && maxSampleSize > 0) {
       const result = performSequentialAnalysis();
       setResults(result);
+    } else {
+      setResults(null);
     }
-  }, [currentSampleSize, maxSampleSize, controlConversions, treatmentConversions, alpha, beta, minimumEffect, enableFutility, enableHarm, boundaryType]);
+  }, [looks, maxSampleSize, alpha, beta, minimumEffect, enableFutility, enableHarm, boundaryType, spendingParameter, plannedLooks, customFractions, assumedEffect, promisingThreshold, sampleSizeCapMultiple, adaptation]);
 
   const getRecommendationColor = (recommendation: string): string => {
     switch (recommendation) {
@@ -274,37 +434,59 @@ export function SequentialTestingCalculator() {
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            {/* Current Data */}
+            {/* Interim Look Entry */}
             <div className="space-y-4">
-              <h4>Current Test Data</h4>
+              <h4>Record Interim Look</h4>
               <div className="space-y-3">
                 <div className="space-y-2">
-                  <Label>Current Sample Size</Label>
+                  <Label htmlFor="lookDate">Date</Label>
                   <Input
-                    type="number"
-                    value={currentSampleSize}
-                    onChange={(e) => setCurrentSampleSize(Number(e.target.value))}
+                    id="lookDate"
+                    type="date"
+                    value={newLook.date}
+                    onChange={(e) => setNewLook({ ...newLook, date: e.target.value })}
                   />
                 </div>
-                <div className="space-y-2">
-                  <Label>Control Conversions</Label>
-                  <Input
-                    type="number"
-                    value={controlConversions}
-                    onChange={(e) => setControlConversions(Number(e.target.value))}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label>Treatment Conversions</Label>
-                  <Input
-                    type="number"
-                    value={treatmentConversions}
-                    onChange={(e) => setTreatmentConversions(Number(e.target.value))}
-                  />
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label>Control Visitors</Label>
+                    <Input
+                      type="number"
+                      value={newLook.controlVisitors}
+                      onChange={(e) => setNewLook({ ...newLook, controlVisitors: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Control Conversions</Label>
+                    <Input
+                      type="number"
+                      value={newLook.controlConversions}
+                      onChange={(e) => setNewLook({ ...newLook, controlConversions: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Treatment Visitors</Label>
+                    <Input
+                      type="number"
+                      value={newLook.treatmentVisitors}
+                      onChange={(e) => setNewLook({ ...newLook, treatmentVisitors: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Treatment Conversions</Label>
+                    <Input
+                      type="number"
+                      value={newLook.treatmentConversions}
+                      onChange={(e) => setNewLook({ ...newLook, treatmentConversions: Number(e.target.value) })}
+                    />
+                  </div>
                 </div>
+                <Button onClick={recordLook} disabled={newLookError !== null} className="w-full">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Record Look
+                </Button>
                 <div className="text-sm text-muted-foreground">
-                  Current rates: Control {((controlConversions / (currentSampleSize / 2)) * 100).toFixed(2)}%, 
-                  Treatment {((treatmentConversions / (currentSampleSize / 2)) * 100).toFixed(2)}%
+                  {newLookError ?? `Cumulative totals as of this date; information fraction ${(Math.min(newLookSampleSize / maxSampleSize, 1) * 100).toFixed(1)}%`}
                 </div>
               </div>
             </div>
@@ -319,7 +501,13 @@ export function SequentialTestingCalculator() {
                     type="number"
                     value={maxSampleSize}
                     onChange={(e) => setMaxSampleSize(Number(e.target.value))}
+                    disabled={adaptation !== null}
                   />
+                  {adaptation && (
+                    <div className="text-xs text-muted-foreground">
+                      Increased from {adaptation.originalMaxSampleSize.toLocaleString()} at an interim look
+                    </div>
+                  )}
                 </div>
                 <div className="space-y-2">
                   <Label>Type I Error (α)</Label>
@@ -360,54 +548,127 @@ export function SequentialTestingCalculator() {
 
             {/* Advanced Options */}
             <div className="space-y-4">
-              <h4>Boundary Type & Options</h4>
+              <h4>Monitoring Method & Options</h4>
               <div className="space-y-3">
                 <div className="space-y-2">
-                  <Label>Boundary Type</Label>
-                  <Select value={boundaryType} onValueChange={setBoundaryType}>
+                  <Label>Monitoring Method</Label>
+                  <Select value={method} onValueChange={(value) => setMethod(value as SequentialMethod)}>
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="obrien-fleming">O'Brien-Fleming</SelectItem>
-                      <SelectItem value="pocock">Pocock</SelectItem>
-                      <SelectItem value="wang-tsiatis">Wang-Tsiatis</SelectItem>
+                      {SEQUENTIAL_METHOD_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
-                
-                <div className="space-y-3">
-                  <div className="flex items-center justify-between">
-                    <Label htmlFor="futility">Enable Futility Monitoring</Label>
-                    <Switch
-                      id="futility"
-                      checked={enableFutility}
-                      onCheckedChange={setEnableFutility}
-                    />
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <Label htmlFor="harm">Enable Harm Monitoring</Label>
-                    <Switch
-                      id="harm"
-                      checked={enableHarm}
-                      onCheckedChange={setEnableHarm}
-                    />
-                  </div>
-                </div>
 
-                <div className="text-xs text-muted-foreground space-y-1">
-                  <p><strong>O'Brien-Fleming:</strong> Conservative early, liberal late</p>
-                  <p><strong>Pocock:</strong> Constant boundary</p>
-                  <p><strong>Wang-Tsiatis:</strong> Flexible spending</p>
-                </div>
+                {method !== 'always-valid' ? (
+                  <>
+                    <div className="space-y-2">
+                      <Label>Spending Function</Label>
+                      <Select value={boundaryType} onValueChange={(value) => selectBoundaryType(value as SpendingFunction)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SPENDING_FUNCTION_OPTIONS.map(option => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {(boundaryType === 'hwang-shih-decani' || boundaryType === 'kim-demets') && (
+                      <div className="space-y-2">
+                        <Label>{boundaryType === 'hwang-shih-decani' ? 'γ (negative = conservative early)' : 'ρ (larger = conservative early)'}</Label>
+                        <Input
+                          type="number"
+                          step="0.5"
+                          value={spendingParameter}
+                          onChange={(e) => setSpendingParameter(Number(e.target.value))}
+                        />
+                      </div>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-2">
+                        <Label>Planned Looks</Label>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={plannedLooks}
+                          onChange={(e) => setPlannedLooks(Math.max(1, Math.round(Number(e.target.value))))}
+                          disabled={parseNumericValues(customFractions).length > 0}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Custom Fractions</Label>
+                        <Input
+                          value={customFractions}
+                          onChange={(e) => setCustomFractions(e.target.value)}
+                          placeholder="e.g. 0.2, 0.5"
+                        />
+                      </div>
+                    </div>
+                    
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="futility">Enable Futility Monitoring</Label>
+                        <Switch
+                          id="futility"
+                          checked={enableFutility}
+                          onCheckedChange={setEnableFutility}
+                        />
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="harm">Enable Harm Monitoring</Label>
+                        <Switch
+                          id="harm"
+                          checked={enableHarm}
+                          onCheckedChange={setEnableHarm}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="text-xs text-muted-foreground space-y-1">
+                      <p><strong>O'Brien-Fleming type:</strong> Spends almost no α early, close to fixed-horizon at the end</p>
+                      <p><strong>Pocock type:</strong> Spends α evenly, nearly constant boundary</p>
+                      <p><strong>Hwang–Shih–DeCani / Kim–DeMets:</strong> One-parameter families between the two</p>
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-xs text-muted-foreground space-y-1">
+                    <p><strong>mSPRT:</strong> Evidence is checked after every look with no schedule to follow</p>
+                    <p>The price is a wider interval than a fixed-horizon test at the same sample size</p>
+                  </div>
+                )}
               </div>
             </div>
           </div>
         </CardContent>
       </Card>
 
+      {method === 'always-valid' && <AlwaysValidMonitor looks={looks} alpha={alpha} />}
+
+      {method === 'wald-sprt' && (
+        <WaldSprtPanel
+          looks={looks}
+          alpha={alpha}
+          beta={beta}
+          minimumEffect={minimumEffect}
+          plannedFractions={getPlannedFractions()}
+          enableFutility={enableFutility}
+        />
+      )}
+
       {/* Results */}
-      {results && (
+      {method === 'group-sequential' && results && (
         <div className="space-y-6">
           {/* Current Status */}
           <Card>
@@ -417,7 +678,7 @@ export function SequentialTestingCalculator() {
                 Test Status & Recommendation
               </CardTitle>
               <CardDescription>
-                Current analysis based on {currentSampleSize.toLocaleString()} observations
+                Latest look{currentLook ? ` (${currentLook.date})` : ''} with {currentSampleSize.toLocaleString()} observations
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -437,8 +698,8 @@ export function SequentialTestingCalculator() {
                   <div className="label">Current P-Value</div>
                 </div>
                 <div className="result-card">
-                  <div className="value">{(results.probabilityOfSuccess * 100).toFixed(1)}%</div>
-                  <div className="label">Success Probability</div>
+                  <div className="value">{(results.conditionalPower.currentTrend * 100).toFixed(1)}%</div>
+                  <div className="label">Conditional Power (Trend)</div>
                 </div>
               </div>
 
@@ -446,7 +707,7 @@ export function SequentialTestingCalculator() {
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div className="p-3 bg-green-50 rounded-lg">
                   <div className="text-sm mb-1">
-                    <strong>Efficacy Boundary:</strong> {results.bounds.upper.toFixed(2)}
+                    <strong>Efficacy Boundary:</strong> {formatBound(results.bounds.upper)}
                   </div>
                   <div className="text-xs text-muted-foreground">
                     {results.currentZ >= results.bounds.upper ? "✓ Crossed" : "Not crossed"}
@@ -456,7 +717,7 @@ export function SequentialTestingCalculator() {
                 {enableFutility && (
                   <div className="p-3 bg-yellow-50 rounded-lg">
                     <div className="text-sm mb-1">
-                      <strong>Futility Boundary:</strong> {results.bounds.futility.toFixed(2)}
+                      <strong>Futility Boundary:</strong> {formatBound(results.bounds.futility)}
                     </div>
                     <div className="text-xs text-muted-foreground">
                       {results.currentZ <= results.bounds.futility ? "✓ Crossed" : "Not crossed"}
@@ -467,7 +728,7 @@ export function SequentialTestingCalculator() {
                 {enableHarm && (
                   <div className="p-3 bg-red-50 rounded-lg">
                     <div className="text-sm mb-1">
-                      <strong>Harm Boundary:</strong> {results.bounds.lower.toFixed(2)}
+                      <strong>Harm Boundary:</strong> {formatBound(results.bounds.lower)}
                     </div>
                     <div className="text-xs text-muted-foreground">
                       {results.currentZ <= results.bounds.lower ? "✓ Crossed" : "Not crossed"}
@@ -478,12 +739,22 @@ export function SequentialTestingCalculator() {
 
               {/* Recommendation Details */}
               <div className="mt-6">
+                {results.stoppingDecision && results.stoppingDecision.lookId !== currentLook?.id && (
+                  <Alert className="mb-4">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      A boundary was crossed at the look on {results.stoppingDecision.date}. That decision stands;
+                      looks recorded after it are kept for the audit trail but do not change the outcome.
+                    </AlertDescription>
+                  </Alert>
+                )}
                 {results.recommendation === 'continue' ? (
                   <Alert>
                     <TrendingUp className="h-4 w-4" />
                     <AlertDescription>
-                      Continue testing. Expected total sample size: {Math.round(results.expectedSampleSize).toLocaleString()}. 
-                      Probability of eventual success: {(results.probabilityOfSuccess * 100).toFixed(1)}%.
+                      Continue testing. Expected total sample size if the current trend holds: {Math.round(results.expectedSampleSize).toLocaleString()}. 
+                      Conditional power: {(results.conditionalPower.currentTrend * 100).toFixed(1)}% under the current trend,
+                      {' '}{(results.conditionalPower.alternative * 100).toFixed(1)}% under a {minimumEffect}% lift.
                     </AlertDescription>
                   </Alert>
                 ) : results.recommendation === 'stop_success' ? (
@@ -515,11 +786,243 @@ export function SequentialTestingCalculator() {
             </CardContent>
           </Card>
 
+          {/* Bias-Adjusted Estimates */}
+          {results.adjustedEstimate && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Crosshair className="h-5 w-5" />
+                  Bias-Adjusted Estimates
+                </CardTitle>
+                <CardDescription>
+                  The test stopped at the look on {results.adjustedEstimate.date}; these estimates account for the stopping rule
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead></TableHead>
+                      <TableHead className="text-right">Difference</TableHead>
+                      <TableHead className="text-right">Relative Lift</TableHead>
+                      <TableHead className="text-right">{((1 - alpha) * 100).toFixed(0)}% Interval</TableHead>
+                      <TableHead className="text-right">P-Value</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[
+                      {
+                        label: 'Naive (fixed-sample)',
+                        estimate: results.adjustedEstimate.naiveDifference,
+                        interval: results.adjustedEstimate.naiveInterval,
+                        pValue: results.adjustedEstimate.naivePValue
+                      },
+                      {
+                        label: 'Median-unbiased (stagewise)',
+                        estimate: results.adjustedEstimate.medianUnbiasedDifference,
+                        interval: results.adjustedEstimate.exactInterval,
+                        pValue: results.adjustedEstimate.stagewisePValue
+                      },
+                      {
+                        label: 'Repeated CI at stop',
+                        estimate: results.adjustedEstimate.naiveDifference,
+                        interval: results.adjustedEstimate.repeatedInterval,
+                        pValue: null
+                      }
+                    ].map(row => (
+                      <TableRow key={row.label}>
+                        <TableCell>{row.label}</TableCell>
+                        <TableCell className="text-right">{formatPoints(row.estimate)}</TableCell>
+                        <TableCell className="text-right">{formatLift(row.estimate, results.adjustedEstimate!.controlRate)}</TableCell>
+                        <TableCell className="text-right">
+                          {formatPoints(row.interval[0])} to {formatPoints(row.interval[1])}
+                        </TableCell>
+                        <TableCell className="text-right">{row.pValue !== null ? row.pValue.toFixed(4) : '-'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                {Math.abs(results.adjustedEstimate.medianUnbiasedDifference) < Math.abs(results.adjustedEstimate.naiveDifference) && (
+                  <Alert>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      Expect the launched effect to be nearer {formatLift(results.adjustedEstimate.medianUnbiasedDifference, results.adjustedEstimate.controlRate)} than
+                      the naive {formatLift(results.adjustedEstimate.naiveDifference, results.adjustedEstimate.controlRate)}: stopping when the data
+                      first look extreme favours overestimates.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="text-xs text-muted-foreground space-y-1">
+                  <p>
+                    Stagewise ordering ranks an earlier efficacy stop as more extreme than any later result; the p-value and interval
+                    are exact under that ordering and agree with the boundaries.
+                  </p>
+                  <p>
+                    Repeated confidence intervals use each look's efficacy bound instead of {normalInverse(1 - alpha / 2).toFixed(2)}, so
+                    they hold simultaneously at every look, including those below.
+                  </p>
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Look</TableHead>
+                      <TableHead className="text-right">Difference</TableHead>
+                      <TableHead className="text-right">Repeated CI</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {results.repeatedIntervals.map(ri => (
+                      <TableRow key={ri.lookId}>
+                        <TableCell>{ri.date}</TableCell>
+                        <TableCell className="text-right">{formatPoints(ri.difference)}</TableCell>
+                        <TableCell className="text-right">{formatPoints(ri.interval[0])} to {formatPoints(ri.interval[1])}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Conditional Power */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Target className="h-5 w-5" />
+                Conditional Power & Sample Size Re-estimation
+              </CardTitle>
+              <CardDescription>
+                Chance of clearing the final efficacy bound ({formatBound(results.looks[results.looks.length - 1].efficacyBound)}) from where the test stands now
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="assumedEffect">Assumed Lift (%)</Label>
+                  <Input
+                    id="assumedEffect"
+                    type="number"
+                    value={assumedEffect}
+                    onChange={(e) => setAssumedEffect(Number(e.target.value))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="futilityPower">Futility Below (%)</Label>
+                  <Input
+                    id="futilityPower"
+                    type="number"
+                    value={futilityPowerThreshold}
+                    onChange={(e) => setFutilityPowerThreshold(Number(e.target.value))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promisingThreshold">Promising From (%)</Label>
+                  <Input
+                    id="promisingThreshold"
+                    type="number"
+                    value={promisingThreshold}
+                    onChange={(e) => setPromisingThreshold(Number(e.target.value))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sampleSizeCap">Cap (× planned maximum)</Label>
+                  <Input
+                    id="sampleSizeCap"
+                    type="number"
+                    step="0.25"
+                    min="1"
+                    value={sampleSizeCapMultiple}
+                    onChange={(e) => setSampleSizeCapMultiple(Math.max(1, Number(e.target.value)))}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {[
+                  { label: 'CP, Current Trend', value: results.conditionalPower.currentTrend },
+                  { label: `CP, H1 (${minimumEffect}% lift)`, value: results.conditionalPower.alternative },
+                  { label: `CP, ${assumedEffect}% lift`, value: results.conditionalPower.assumedEffect },
+                  { label: 'Predictive Power', value: results.predictivePower }
+                ].map(item => (
+                  <div key={item.label} className="result-card">
+                    <div className={`value ${item.value * 100 < futilityPowerThreshold ? 'text-yellow-600' : ''}`}>
+                      {(item.value * 100).toFixed(1)}%
+                    </div>
+                    <div className="label">{item.label}</div>
+                  </div>
+                ))}
+              </div>
+
+              {results.recommendation === 'continue' &&
+                Math.max(results.conditionalPower.currentTrend, results.predictivePower) * 100 < futilityPowerThreshold && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    Both conditional power under the current trend and predictive power are below {futilityPowerThreshold}%.
+                    Stopping for futility is reasonable; as a non-binding rule it never inflates type I error.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {adaptation ? (
+                <div className="p-4 bg-muted/50 rounded-lg space-y-2">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="text-sm">
+                      Maximum sample size increased from {adaptation.originalMaxSampleSize.toLocaleString()} to{' '}
+                      {adaptation.newMaxSampleSize.toLocaleString()} at the look on{' '}
+                      {looks.find(look => look.id === adaptation.lookId)?.date}.
+                    </div>
+                    <Button variant="outline" size="sm" onClick={undoAdaptation}>
+                      Undo
+                    </Button>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Later looks use the CHW weighted Z, which combines the Z at adaptation with the Z of new data using the
+                    original weights, so the planned boundaries keep their type I error.
+                  </div>
+                </div>
+              ) : results.reestimation ? (
+                <div className="p-4 bg-muted/50 rounded-lg space-y-3">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm">Interim zone:</span>
+                    <Badge variant={results.reestimation.zone === 'promising' ? 'default' : 'outline'}>
+                      {results.reestimation.zone === 'favorable' ? 'Favorable' :
+                       results.reestimation.zone === 'promising' ? 'Promising' : 'Unfavorable'}
+                    </Badge>
+                  </div>
+                  {results.reestimation.zone === 'promising' ? (
+                    <>
+                      <div className="text-sm">
+                        Increase the maximum sample size to {results.reestimation.recommendedSampleSize.toLocaleString()}
+                        {results.reestimation.isCapped
+                          ? ` (capped; ${Math.ceil(results.reestimation.requiredSampleSize).toLocaleString()} would be needed)`
+                          : ''}
+                        , raising conditional power to {(results.reestimation.conditionalPowerAtRecommended * 100).toFixed(1)}%.
+                      </div>
+                      <Button size="sm" onClick={() => applyAdaptation(results.reestimation!.recommendedSampleSize)}>
+                        Apply Increase
+                      </Button>
+                    </>
+                  ) : (
+                    <div className="text-sm text-muted-foreground">
+                      {results.reestimation.zone === 'favorable'
+                        ? `Conditional power already meets the ${((1 - beta) * 100).toFixed(0)}% target; keep the planned sample size.`
+                        : `Conditional power is below ${promisingThreshold}%; an increase would cost too much for too little. Keep the plan or stop for futility.`}
+                    </div>
+                  )}
+                </div>
+              ) : null}
+            </CardContent>
+          </Card>
+
           {/* Boundary Plot */}
           <Card>
             <CardHeader>
               <CardTitle>Sequential Boundaries</CardTitle>
-              <CardDescription>Test boundaries and current position</CardDescription>
+              <CardDescription>Boundaries at the observed and remaining planned looks, with the observed Z-path</CardDescription>
             </CardHeader>
             <CardContent>
               <div className="h-80">
@@ -535,11 +1038,11 @@ export function SequentialTestingCalculator() {
                     />
                     <Tooltip 
                       formatter={(value: any, name: string) => [
-                        value.toFixed(2), 
+                        Number(value).toFixed(2), 
                         name === 'upperBound' ? 'Efficacy Boundary' :
                         name === 'lowerBound' ? 'Harm Boundary' :
                         name === 'futilityBound' ? 'Futility Boundary' : 
-                        name === 'zScore' ? 'Current Z-Score' : name
+                        name === 'zScore' ? 'Observed Z-Score' : name
                       ]}
                     />
                     
@@ -574,25 +1077,160 @@ export function SequentialTestingCalculator() {
                       />
                     )}
                     
-                    {/* Current position */}
+                    {/* Observed path */}
                     <Line 
                       type="monotone" 
                       dataKey="zScore" 
                       stroke="#3b82f6" 
-                      strokeWidth={4}
-                      dot={{ fill: '#3b82f6', strokeWidth: 2, r: 6 }}
-                      connectNulls={false}
-                      name="Current Z-Score"
+                      strokeWidth={3}
+                      dot={{ fill: '#3b82f6', strokeWidth: 2, r: 5 }}
+                      connectNulls
+                      name="Observed Z-Score"
                     />
                     
                     {/* Reference lines */}
                     <ReferenceLine y={0} stroke="#6b7280" strokeDasharray="2 2" />
-                    <ReferenceLine x={currentSampleSize} stroke="#6b7280" strokeDasharray="2 2" />
+                    <ReferenceLine x={Math.round(getSampleSizeAt(results.decisions[results.decisions.length - 1].informationFraction))} stroke="#6b7280" strokeDasharray="2 2" />
                   </LineChart>
                 </ResponsiveContainer>
               </div>
             </CardContent>
           </Card>
+
+          {/* Boundary Table */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Boundaries by Look</CardTitle>
+              <CardDescription>
+                {SPENDING_FUNCTION_OPTIONS.find(o => o.value === boundaryType)?.label} spending, computed by recursive numerical integration
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Look</TableHead>
+                    <TableHead className="text-right">Information</TableHead>
+                    <TableHead className="text-right">Sample Size</TableHead>
+                    <TableHead className="text-right">Efficacy Z</TableHead>
+                    <TableHead className="text-right">Nominal α</TableHead>
+                    {enableFutility && <TableHead className="text-right">Futility Z</TableHead>}
+                    <TableHead className="text-right">Cumulative α</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.looks.map((look, index) => {
+                    const isCurrent = Math.abs(look.informationFraction - results.decisions[results.decisions.length - 1].informationFraction) < LOOK_TOLERANCE;
+                    const isObserved = results.decisions.some(d => Math.abs(d.informationFraction - look.informationFraction) < LOOK_TOLERANCE);
+                    return (
+                      <TableRow key={look.informationFraction} className={isCurrent ? 'bg-muted/50' : undefined}>
+                        <TableCell>
+                          {index + 1}
+                          {isCurrent ? (
+                            <Badge variant="outline" className="ml-2">Current</Badge>
+                          ) : isObserved ? (
+                            <Badge variant="secondary" className="ml-2">Observed</Badge>
+                          ) : null}
+                        </TableCell>
+                        <TableCell className="text-right">{(look.informationFraction * 100).toFixed(1)}%</TableCell>
+                        <TableCell className="text-right">{Math.round(getSampleSizeAt(look.informationFraction)).toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{formatBound(look.efficacyBound)}</TableCell>
+                        <TableCell className="text-right">{look.nominalAlpha.toExponential(2)}</TableCell>
+                        {enableFutility && (
+                          <TableCell className="text-right">{look.futilityBound !== null ? formatBound(look.futilityBound) : '-'}</TableCell>
+                        )}
+                        <TableCell className="text-right">{look.cumulativeAlphaSpent.toFixed(4)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              {enableFutility && (
+                <div className="text-xs text-muted-foreground mt-3">
+                  Futility bounds use β-spending with the same function and are non-binding: ignoring them never inflates type I error.
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Interim Log */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <ClipboardList className="h-5 w-5" />
+                    Interim Look Log
+                  </CardTitle>
+                  <CardDescription>
+                    Every look with the boundaries in force at its information fraction and the decision they implied
+                  </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={exportAuditTrail}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export Audit Trail
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-right">Control</TableHead>
+                    <TableHead className="text-right">Treatment</TableHead>
+                    <TableHead className="text-right">Information</TableHead>
+                    <TableHead className="text-right">Z</TableHead>
+                    <TableHead className="text-right">Efficacy Z</TableHead>
+                    {enableFutility && <TableHead className="text-right">Futility Z</TableHead>}
+                    <TableHead>Decision</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {looks.map(look => {
+                    const decision = results.decisions.find(d => d.lookId === look.id);
+                    return (
+                      <TableRow key={look.id} className={decision?.isAfterStop ? 'text-muted-foreground' : undefined}>
+                        <TableCell>{look.date}</TableCell>
+                        <TableCell className="text-right">
+                          {look.controlConversions.toLocaleString()} / {look.controlVisitors.toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {look.treatmentConversions.toLocaleString()} / {look.treatmentVisitors.toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-right">{decision ? `${(decision.informationFraction * 100).toFixed(1)}%` : '-'}</TableCell>
+                        <TableCell className="text-right">{decision ? decision.zScore.toFixed(2) : '-'}</TableCell>
+                        <TableCell className="text-right">{decision ? formatBound(decision.efficacyBound) : '-'}</TableCell>
+                        {enableFutility && (
+                          <TableCell className="text-right">
+                            {decision?.futilityBound != null ? formatBound(decision.futilityBound) : '-'}
+                          </TableCell>
+                        )}
+                        <TableCell>
+                          {decision && (
+                            <span className={getRecommendationColor(decision.decision)}>
+                              {getRecommendationText(decision.decision)}
+                            </span>
+                          )}
+                          {decision?.isAfterStop && <Badge variant="outline" className="ml-2">After stop</Badge>}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => removeLook(look.id)} disabled={looks.length === 1}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              <div className="text-xs text-muted-foreground mt-3">
+                Counts are cumulative. Removing a look recomputes every later boundary, so keep the log as recorded and
+                export it for the audit record.
+              </div>
+            </CardContent>
+          </Card>
         </div>
       )}
     </div>
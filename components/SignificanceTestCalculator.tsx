@@ -2,11 +2,24 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
+import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Progress } from './ui/progress';
 import { Separator } from './ui/separator';
 import { Alert, AlertDescription } from './ui/alert';
-import { CheckCircle, XCircle, AlertTriangle, TrendingUp } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { CheckCircle, XCircle, AlertTriangle, TrendingUp, Plus, Trash2, ShieldAlert } from 'lucide-react';
+import { ContinuousMetricAnalysis } from './ContinuousMetricAnalysis';
+import { RatioMetricAnalysis } from './RatioMetricAnalysis';
+import { NoveltyEffectDetector } from './NoveltyEffectDetector';
+import { MultiVariantComparison } from './MultiVariantComparison';
+import { SampleRatioMismatchCheck } from './SampleRatioMismatchCheck';
+import { MultipleComparisonCorrection, TwoProportionTest, VariantObservation } from '../types/statistics';
+import { MULTIPLE_COMPARISON_OPTIONS, PROPORTION_TEST_OPTIONS, VARIANT_COLORS } from '../constants/experimentDefaults';
+import { normalInverse, normalCDF } from '../utils/statisticalCalculations';
+import { detectSampleRatioMismatch } from '../utils/sampleRatioMismatch';
+import { fisherExactTest, isUnconditionalTestFeasible, minimumExpectedCellCount, unconditionalExactTest } from '../utils/exactTests';
+import { agrestiCaffoInterval, clopperPearsonInterval, wilsonInterval } from '../utils/proportionIntervals';
 
 interface SignificanceResult {
   isSignificant: boolean;
@@ -19,40 +32,60 @@ interface SignificanceResult {
   conversionRateB: number;
   standardError: number;
   powerAchieved: number;
+  testUsed: TwoProportionTest;
+  minimumExpectedCount: number;
+  rateIntervals: {
+    clopperPearson: [[number, number], [number, number]];
+    wilson: [[number, number], [number, number]];
+  };
 }
 
+// Expected cell counts below this make the z-test's normal approximation unreliable
+const MIN_EXPECTED_CELL_COUNT = 5;
+
 export function SignificanceTestCalculator() {
-  const [visitorsA, setVisitorsA] = useState<number>(1000);
-  const [conversionsA, setConversionsA] = useState<number>(50);
-  const [visitorsB, setVisitorsB] = useState<number>(1000);
-  const [conversionsB, setConversionsB] = useState<number>(60);
+  const [metricType, setMetricType] = useState<string>('conversion');
+  const [variants, setVariants] = useState<VariantObservation[]>([
+    { id: 'control', name: 'Variant A (Control)', visitors: 1000, conversions: 50 },
+    { id: 'treatment', name: 'Variant B (Treatment)', visitors: 1000, conversions: 60 }
+  ]);
   const [confidenceLevel, setConfidenceLevel] = useState<number>(95);
+  const [correction, setCorrection] = useState<MultipleComparisonCorrection>('holm');
+  const [testMethod, setTestMethod] = useState<TwoProportionTest | 'auto'>('auto');
+  const [plannedAllocations, setPlannedAllocations] = useState<{ [key: string]: number }>({});
+  const [srmThreshold, setSrmThreshold] = useState<number>(0.001);
   
   const [results, setResults] = useState<SignificanceResult | null>(null);
 
-  // Statistical functions
-  const normalCDF = (x: number): number => {
-    return 0.5 * (1 + erf(x / Math.sqrt(2)));
+  const addVariant = () => {
+    const letter = String.fromCharCode(65 + variants.length);
+    setVariants(prev => [
+      ...prev,
+      { id: `variant_${Date.now()}`, name: `Variant ${letter}`, visitors: 1000, conversions: 50 }
+    ]);
   };
 
-  const erf = (x: number): number => {
-    const a1 = 0.254829592;
-    const a2 = -0.284496736;
-    const a3 = 1.421413741;
-    const a4 = -1.453152027;
-    const a5 = 1.061405429;
-    const p = 0.3275911;
-    
-    const sign = x >= 0 ? 1 : -1;
-    x = Math.abs(x);
-    
-    const t = 1.0 / (1.0 + p * x);
-    const y = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-x * x);
-    
-    return sign * y;
+  const removeVariant = (id: string) => {
+    setVariants(prev => prev.filter(v => v.id !== id));
   };
 
+  const updateVariant = (id: string, updates: Partial<VariantObservation>) => {
+    setVariants(prev => prev.map(v => v.id === id ? { ...v, ...updates } : v));
+  };
+
+  const isMultiVariant = variants.length > 2;
+  const hasValidData = variants.every(v => v.visitors > 0 && v.conversions >= 0 && v.conversions <= v.visitors);
+
+  // Variants without an explicit plan are assumed to get an equal split
+  const allocations = variants.map(v => plannedAllocations[v.id] ?? 100 / variants.length);
+  const srmResult = hasValidData
+    ? detectSampleRatioMismatch(variants.map(v => v.visitors), allocations, srmThreshold)
+    : null;
+  const isVerdictBlocked = srmResult?.isMismatch ?? false;
+  const isSignificantVerdict = !!results?.isSignificant && !isVerdictBlocked;
+
   const calculateSignificance = (): SignificanceResult => {
+    const [{ visitors: visitorsA, conversions: conversionsA }, { visitors: visitorsB, conversions: conversionsB }] = variants;
     const pA = conversionsA / visitorsA;
     const pB = conversionsB / visitorsB;
     
@@ -63,21 +96,36 @@ export function SignificanceTestCalculator() {
     // Z-score calculation
     const zScore = (pB - pA) / pooledSE;
     
+    // Small expected counts switch the automatic choice to Fisher's exact test; the unconditional
+    // tests enumerate every possible table and fall back to Fisher when that is too expensive
+    const minimumExpectedCount = minimumExpectedCellCount(conversionsA, visitorsA, conversionsB, visitorsB);
+    let testUsed: TwoProportionTest = testMethod === 'auto'
+      ? (minimumExpectedCount < MIN_EXPECTED_CELL_COUNT ? 'fisher' : 'z-test')
+      : testMethod;
+    if ((testUsed === 'barnard' || testUsed === 'boschloo') && !isUnconditionalTestFeasible(visitorsA, visitorsB)) {
+      testUsed = 'fisher';
+    }
+    
     // P-value (two-tailed test)
-    const pValue = 2 * (1 - normalCDF(Math.abs(zScore)));
+    const pValue = testUsed === 'fisher'
+      ? fisherExactTest(conversionsA, visitorsA, conversionsB, visitorsB)
+      : testUsed === 'barnard' || testUsed === 'boschloo'
+        ? unconditionalExactTest(conversionsA, visitorsA, conversionsB, visitorsB, testUsed)
+        : 2 * normalCDF(-Math.abs(zScore));
     
     // Significance threshold
     const alpha = (100 - confidenceLevel) / 100;
     const isSignificant = pValue < alpha;
     
-    // Confidence interval for difference in proportions
+    // Confidence interval for difference in proportions; Agresti–Caffo keeps its coverage
+    // in the small samples where an exact test is used
     const seForCI = Math.sqrt((pA * (1 - pA) / visitorsA) + (pB * (1 - pB) / visitorsB));
-    const zCrit = 1.96; // 95% confidence
+    const zCrit = normalInverse(1 - alpha / 2);
     const margin = zCrit * seForCI;
-    const confidenceInterval: [number, number] = [
-      (pB - pA - margin) * 100,
-      (pB - pA + margin) * 100
-    ];
+    const differenceInterval: [number, number] = testUsed === 'z-test'
+      ? [pB - pA - margin, pB - pA + margin]
+      : agrestiCaffoInterval(conversionsA, visitorsA, conversionsB, visitorsB, 1 - alpha);
+    const confidenceInterval: [number, number] = [differenceInterval[0] * 100, differenceInterval[1] * 100];
     
     // Effect size (Cohen's h)
     const effectSize = 2 * (Math.asin(Math.sqrt(pB)) - Math.asin(Math.sqrt(pA)));
@@ -86,7 +134,7 @@ export function SignificanceTestCalculator() {
     const relativeImprovement = pA > 0 ? ((pB - pA) / pA) * 100 : 0;
     
     // Achieved power calculation
-    const powerZ = Math.abs(zScore) - 1.96;
+    const powerZ = Math.abs(zScore) - zCrit;
     const powerAchieved = normalCDF(powerZ) * 100;
     
     return {
@@ -99,16 +147,30 @@ export function SignificanceTestCalculator() {
       conversionRateA: pA * 100,
       conversionRateB: pB * 100,
       standardError: pooledSE,
-      powerAchieved: Math.max(0, Math.min(100, powerAchieved))
+      powerAchieved: Math.max(0, Math.min(100, powerAchieved)),
+      testUsed,
+      minimumExpectedCount,
+      rateIntervals: {
+        clopperPearson: [
+          clopperPearsonInterval(conversionsA, visitorsA, 1 - alpha),
+          clopperPearsonInterval(conversionsB, visitorsB, 1 - alpha)
+        ],
+        wilson: [
+          wilsonInterval(conversionsA, visitorsA, 1 - alpha),
+          wilsonInterval(conversionsB, visitorsB, 1 - alpha)
+        ]
+      }
     };
   };
 
   useEffect(() => {
-    if (visitorsA && conversionsA >= 0 && visitorsB && conversionsB >= 0) {
+    if (hasValidData && !isMultiVariant) {
       const result = calculateSignificance();
       setResults(result);
+    } else {
+      setResults(null);
     }
-  }, [visitorsA, conversionsA, visitorsB, conversionsB, confidenceLevel]);
+  }, [variants, confidenceLevel, testMethod]);
 
   const getSignificanceColor = (isSignificant: boolean, pValue: number) => {
     if (isSignificant) return "text-green-600";
@@ -124,254 +186,397 @@ export function SignificanceTestCalculator() {
   };
 
   return (
-    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-      {/* Input Data */}
-      <div className="lg:col-span-1">
-        <Card>
-          <CardHeader>
-            <CardTitle>Test Data</CardTitle>
-            <CardDescription>Enter your A/B test results</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-6">
-            <div className="space-y-4">
-              <h4 className="flex items-center gap-2">
-                <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
-                Variant A (Control)
-              </h4>
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="visitorsA">Visitors</Label>
-                  <Input
-                    id="visitorsA"
-                    type="number"
-                    value={visitorsA}
-                    onChange={(e) => setVisitorsA(Number(e.target.value))}
-                    placeholder="1000"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="conversionsA">Conversions</Label>
-                  <Input
-                    id="conversionsA"
-                    type="number"
-                    value={conversionsA}
-                    onChange={(e) => setConversionsA(Number(e.target.value))}
-                    placeholder="50"
-                  />
-                </div>
-              </div>
-              {results && (
-                <div className="text-sm text-muted-foreground">
-                  Conversion Rate: <Badge variant="outline">{results.conversionRateA.toFixed(2)}%</Badge>
-                </div>
-              )}
-            </div>
-
-            <Separator />
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <Label className="whitespace-nowrap">Metric Type</Label>
+            <Select value={metricType} onValueChange={setMetricType}>
+              <SelectTrigger className="md:w-72">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="conversion">Conversion Rate (binary)</SelectItem>
+                <SelectItem value="continuous">Continuous (e.g. Revenue per User)</SelectItem>
+                <SelectItem value="ratio">Ratio (e.g. Clicks per Session)</SelectItem>
+                <SelectItem value="daily-trend">Daily Conversions (novelty / primacy)</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              {metricType === 'conversion'
+                ? 'Pooled two-proportion z-test on visitors and conversions'
+                : metricType === 'ratio'
+                  ? 'Delta-method z-test on per-user numerator and denominator aggregates'
+                  : metricType === 'daily-trend'
+                    ? 'Weighted regression test for a trend in daily lift, overall and for new vs. returning users'
+                    : "Welch's t-test on per-user means and standard deviations"}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
 
-            <div className="space-y-4">
-              <h4 className="flex items-center gap-2">
-                <div className="w-3 h-3 bg-green-500 rounded-full"></div>
-                Variant B (Treatment)
-              </h4>
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="visitorsB">Visitors</Label>
-                  <Input
-                    id="visitorsB"
-                    type="number"
-                    value={visitorsB}
-                    onChange={(e) => setVisitorsB(Number(e.target.value))}
-                    placeholder="1000"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="conversionsB">Conversions</Label>
-                  <Input
-                    id="conversionsB"
-                    type="number"
-                    value={conversionsB}
-                    onChange={(e) => setConversionsB(Number(e.target.value))}
-                    placeholder="60"
-                  />
-                </div>
-              </div>
-              {results && (
-                <div className="text-sm text-muted-foreground">
-                  Conversion Rate: <Badge variant="outline">{results.conversionRateB.toFixed(2)}%</Badge>
-                </div>
-              )}
-            </div>
-
-            <Separator />
-
-            <div className="space-y-2">
-              <Label htmlFor="confidenceLevel">Confidence Level (%)</Label>
-              <select 
-                className="w-full p-2 border rounded-md"
-                value={confidenceLevel}
-                onChange={(e) => setConfidenceLevel(Number(e.target.value))}
-              >
-                <option value={90}>90%</option>
-                <option value={95}>95%</option>
-                <option value={99}>99%</option>
-              </select>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
-
-      {/* Results */}
-      <div className="lg:col-span-2">
-        <div className="space-y-6">
-          {/* Main Results */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                {results?.isSignificant ? (
-                  <CheckCircle className="h-5 w-5 text-green-600" />
-                ) : (
-                  <XCircle className="h-5 w-5 text-red-600" />
-                )}
-                Statistical Significance Results
-              </CardTitle>
-              <CardDescription>
-                Analysis of your A/B test data at {confidenceLevel}% confidence level
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              {results ? (
-                <div className="space-y-6">
-                  {/* Key Metrics */}
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                    <div className="result-card">
-                      <div className={`value ${getSignificanceColor(results.isSignificant, results.pValue)}`}>
-                        {results.isSignificant ? "YES" : "NO"}
-                      </div>
-                      <div className="label">Significant</div>
-                    </div>
-                    <div className="result-card">
-                      <div className="value">{results.pValue.toFixed(4)}</div>
-                      <div className="label">P-Value</div>
-                    </div>
-                    <div className="result-card">
-                      <div className="value">{results.relativeImprovement > 0 ? '+' : ''}{results.relativeImprovement.toFixed(1)}%</div>
-                      <div className="label">Relative Change</div>
+      {metricType === 'continuous' ? (
+        <ContinuousMetricAnalysis />
+      ) : metricType === 'ratio' ? (
+        <RatioMetricAnalysis />
+      ) : metricType === 'daily-trend' ? (
+        <NoveltyEffectDetector />
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Input Data */}
+          <div className="lg:col-span-1">
+            <Card>
+              <CardHeader>
+                <CardTitle>Test Data</CardTitle>
+                <CardDescription>Enter your A/B test results</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {variants.map((variant, index) => (
+                  <div key={variant.id} className="space-y-4">
+                    <div className="flex items-center justify-between gap-2">
+                      <h4 className="flex items-center gap-2">
+                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: VARIANT_COLORS[index % VARIANT_COLORS.length] }}></div>
+                        {variant.name}
+                      </h4>
+                      {index > 1 && (
+                        <Button variant="ghost" size="sm" onClick={() => removeVariant(variant.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
-                    <div className="result-card">
-                      <div className="value">{results.zScore.toFixed(2)}</div>
-                      <div className="label">Z-Score</div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor={`visitors-${variant.id}`}>Visitors</Label>
+                        <Input
+                          id={`visitors-${variant.id}`}
+                          type="number"
+                          value={variant.visitors}
+                          onChange={(e) => updateVariant(variant.id, { visitors: Number(e.target.value) })}
+                          placeholder="1000"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor={`conversions-${variant.id}`}>Conversions</Label>
+                        <Input
+                          id={`conversions-${variant.id}`}
+                          type="number"
+                          value={variant.conversions}
+                          onChange={(e) => updateVariant(variant.id, { conversions: Number(e.target.value) })}
+                          placeholder="50"
+                        />
+                      </div>
                     </div>
+                    {variant.visitors > 0 && (
+                      <div className="text-sm text-muted-foreground">
+                        Conversion Rate: <Badge variant="outline">{((variant.conversions / variant.visitors) * 100).toFixed(2)}%</Badge>
+                      </div>
+                    )}
+                    <Separator />
                   </div>
+                ))}
 
-                  {/* Confidence Interval */}
-                  <div className="p-4 bg-muted/50 rounded-lg">
-                    <h4 className="mb-2">Confidence Interval ({confidenceLevel}%)</h4>
-                    <div className="text-sm text-muted-foreground mb-2">
-                      The true difference is likely between:
-                    </div>
-                    <Badge variant="outline" className="text-lg px-3 py-1">
-                      {results.confidenceInterval[0].toFixed(2)}% to {results.confidenceInterval[1].toFixed(2)}%
-                    </Badge>
+                {variants.length < VARIANT_COLORS.length && (
+                  <Button onClick={addVariant} variant="outline" size="sm" className="w-full">
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Variant
+                  </Button>
+                )}
+
+                {!isMultiVariant && (
+                  <div className="space-y-2">
+                    <Label>Test</Label>
+                    <Select value={testMethod} onValueChange={(value) => setTestMethod(value as TwoProportionTest | 'auto')}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">Automatic (exact for small samples)</SelectItem>
+                        {PROPORTION_TEST_OPTIONS.map(option => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
+                )}
 
-                  {/* Power Analysis */}
+                {isMultiVariant && (
                   <div className="space-y-2">
-                    <div className="flex justify-between text-sm">
-                      <span>Statistical Power Achieved</span>
-                      <span>{results.powerAchieved.toFixed(1)}%</span>
-                    </div>
-                    <Progress value={results.powerAchieved} className="h-2" />
+                    <Label>Multiple Comparison Correction</Label>
+                    <Select value={correction} onValueChange={(value) => setCorrection(value as MultipleComparisonCorrection)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {MULTIPLE_COMPARISON_OPTIONS.map(option => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="confidenceLevel">Confidence Level (%)</Label>
+                  <select 
+                    className="w-full p-2 border rounded-md"
+                    value={confidenceLevel}
+                    onChange={(e) => setConfidenceLevel(Number(e.target.value))}
+                  >
+                    <option value={90}>90%</option>
+                    <option value={95}>95%</option>
+                    <option value={99}>99%</option>
+                  </select>
                 </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Results */}
+          <div className="lg:col-span-2 space-y-6">
+            {isMultiVariant ? (
+              hasValidData ? (
+                <MultiVariantComparison
+                  variants={variants}
+                  confidenceLevel={confidenceLevel}
+                  correction={correction}
+                  isVerdictBlocked={isVerdictBlocked}
+                />
               ) : (
-                <div className="text-center text-muted-foreground py-8">
-                  Enter test data to see results
-                </div>
-              )}
-            </CardContent>
-          </Card>
+                <Card>
+                  <CardContent className="text-center text-muted-foreground py-8">
+                    Enter test data to see results
+                  </CardContent>
+                </Card>
+              )
+            ) : (
+              <div className="space-y-6">
+                {/* Main Results */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      {isSignificantVerdict ? (
+                        <CheckCircle className="h-5 w-5 text-green-600" />
+                      ) : (
+                        <XCircle className="h-5 w-5 text-red-600" />
+                      )}
+                      Statistical Significance Results
+                    </CardTitle>
+                    <CardDescription>
+                      Analysis of your A/B test data at {confidenceLevel}% confidence level
+                      {results && (
+                        <Badge variant="outline" className="ml-2">
+                          {PROPORTION_TEST_OPTIONS.find(o => o.value === results.testUsed)?.label}
+                        </Badge>
+                      )}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {results ? (
+                      <div className="space-y-6">
+                        {/* Key Metrics */}
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                          <div className="result-card">
+                            {isVerdictBlocked ? (
+                              <div className="value text-yellow-600">SRM</div>
+                            ) : (
+                              <div className={`value ${getSignificanceColor(results.isSignificant, results.pValue)}`}>
+                                {results.isSignificant ? "YES" : "NO"}
+                              </div>
+                            )}
+                            <div className="label">Significant</div>
+                          </div>
+                          <div className="result-card">
+                            <div className="value">{results.pValue.toFixed(4)}</div>
+                            <div className="label">P-Value</div>
+                          </div>
+                          <div className="result-card">
+                            <div className="value">{results.relativeImprovement > 0 ? '+' : ''}{results.relativeImprovement.toFixed(1)}%</div>
+                            <div className="label">Relative Change</div>
+                          </div>
+                          <div className="result-card">
+                            <div className="value">{results.zScore.toFixed(2)}</div>
+                            <div className="label">Z-Score</div>
+                          </div>
+                        </div>
 
-          {/* Detailed Analysis */}
-          {results && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <TrendingUp className="h-5 w-5" />
-                  Detailed Analysis
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  <div className="space-y-3">
-                    <h4>Effect Size Analysis</h4>
-                    <div className="space-y-2">
-                      <div className="flex justify-between">
-                        <span className="text-sm">Cohen's h:</span>
-                        <Badge variant="outline">{results.effectSize.toFixed(3)}</Badge>
+                        {results.minimumExpectedCount < MIN_EXPECTED_CELL_COUNT && (
+                          <Alert>
+                            <AlertTriangle className="h-4 w-4" />
+                            <AlertDescription>
+                              The smallest expected cell count is {results.minimumExpectedCount.toFixed(1)}, below {MIN_EXPECTED_CELL_COUNT}, 
+                              so the z-test's normal approximation is unreliable.
+                              {results.testUsed === 'z-test'
+                                ? " Switch to Fisher's or Boschloo's exact test."
+                                : ` ${PROPORTION_TEST_OPTIONS.find(o => o.value === results.testUsed)?.label} was used instead.`}
+                            </AlertDescription>
+                          </Alert>
+                        )}
+
+                        {(testMethod === 'barnard' || testMethod === 'boschloo') && results.testUsed === 'fisher' && (
+                          <div className="text-xs text-muted-foreground">
+                            Too many visitors to enumerate every table for an unconditional test; Fisher's exact test was used.
+                          </div>
+                        )}
+
+                        {/* Confidence Interval */}
+                        <div className="p-4 bg-muted/50 rounded-lg">
+                          <h4 className="mb-2">
+                            Confidence Interval ({confidenceLevel}%, {results.testUsed === 'z-test' ? 'Wald' : 'Agresti–Caffo'})
+                          </h4>
+                          <div className="text-sm text-muted-foreground mb-2">
+                            The true difference is likely between:
+                          </div>
+                          <Badge variant="outline" className="text-lg px-3 py-1">
+                            {results.confidenceInterval[0].toFixed(2)}% to {results.confidenceInterval[1].toFixed(2)}%
+                          </Badge>
+                        </div>
+
+                        {/* Power Analysis */}
+                        <div className="space-y-2">
+                          <div className="flex justify-between text-sm">
+                            <span>Statistical Power Achieved</span>
+                            <span>{results.powerAchieved.toFixed(1)}%</span>
+                          </div>
+                          <Progress value={results.powerAchieved} className="h-2" />
+                        </div>
                       </div>
-                      <div className="text-sm text-muted-foreground">
-                        {getEffectSizeInterpretation(results.effectSize)}
+                    ) : (
+                      <div className="text-center text-muted-foreground py-8">
+                        Enter test data to see results
                       </div>
-                    </div>
-                  </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {/* Detailed Analysis */}
+                {results && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <TrendingUp className="h-5 w-5" />
+                        Detailed Analysis
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <div className="space-y-3">
+                          <h4>Effect Size Analysis</h4>
+                          <div className="space-y-2">
+                            <div className="flex justify-between">
+                              <span className="text-sm">Cohen's h:</span>
+                              <Badge variant="outline">{results.effectSize.toFixed(3)}</Badge>
+                            </div>
+                            <div className="text-sm text-muted-foreground">
+                              {getEffectSizeInterpretation(results.effectSize)}
+                            </div>
+                          </div>
+                        </div>
 
-                  <div className="space-y-3">
-                    <h4>Conversion Rates</h4>
-                    <div className="space-y-2">
-                      <div className="flex justify-between">
-                        <span className="text-sm">Control (A):</span>
-                        <Badge variant="outline">{results.conversionRateA.toFixed(2)}%</Badge>
+                        <div className="space-y-3">
+                          <h4>Conversion Rates</h4>
+                          <div className="space-y-2">
+                            <div className="flex justify-between">
+                              <span className="text-sm">Control (A):</span>
+                              <Badge variant="outline">{results.conversionRateA.toFixed(2)}%</Badge>
+                            </div>
+                            <div className="flex justify-between">
+                              <span className="text-sm">Treatment (B):</span>
+                              <Badge variant="outline">{results.conversionRateB.toFixed(2)}%</Badge>
+                            </div>
+                          </div>
+                        </div>
                       </div>
-                      <div className="flex justify-between">
-                        <span className="text-sm">Treatment (B):</span>
-                        <Badge variant="outline">{results.conversionRateB.toFixed(2)}%</Badge>
+
+                      <div className="space-y-3">
+                        <h4>Rate Intervals ({confidenceLevel}%)</h4>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                          {(['Control (A)', 'Treatment (B)'] as const).map((label, index) => (
+                            <div key={label} className="space-y-2">
+                              <div className="text-muted-foreground">{label}</div>
+                              <div className="flex justify-between">
+                                <span>Clopper–Pearson:</span>
+                                <span>
+                                  {(results.rateIntervals.clopperPearson[index][0] * 100).toFixed(2)}% – {(results.rateIntervals.clopperPearson[index][1] * 100).toFixed(2)}%
+                                </span>
+                              </div>
+                              <div className="flex justify-between">
+                                <span>Wilson:</span>
+                                <span>
+                                  {(results.rateIntervals.wilson[index][0] * 100).toFixed(2)}% – {(results.rateIntervals.wilson[index][1] * 100).toFixed(2)}%
+                                </span>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
                       </div>
-                    </div>
-                  </div>
-                </div>
 
-                {/* Recommendations */}
-                <Separator />
-                <div className="space-y-3">
-                  <h4>Recommendations</h4>
-                  {results.isSignificant ? (
-                    <Alert>
-                      <CheckCircle className="h-4 w-4" />
-                      <AlertDescription>
-                        The test shows a statistically significant result. You can confidently implement variant B.
-                      </AlertDescription>
-                    </Alert>
-                  ) : results.pValue < 0.1 ? (
-                    <Alert>
-                      <AlertTriangle className="h-4 w-4" />
-                      <AlertDescription>
-                        The result is marginally significant (p &lt; 0.1). Consider running the test longer or increasing sample size.
-                      </AlertDescription>
-                    </Alert>
-                  ) : (
-                    <Alert>
-                      <XCircle className="h-4 w-4" />
-                      <AlertDescription>
-                        No significant difference detected. Continue testing or try a different variation.
-                      </AlertDescription>
-                    </Alert>
-                  )}
+                      {/* Recommendations */}
+                      <Separator />
+                      <div className="space-y-3">
+                        <h4>Recommendations</h4>
+                        {isVerdictBlocked ? (
+                          <Alert>
+                            <ShieldAlert className="h-4 w-4" />
+                            <AlertDescription>
+                              A sample ratio mismatch was detected, so this result cannot be trusted. Investigate assignment
+                              and logging before acting on it.
+                            </AlertDescription>
+                          </Alert>
+                        ) : results.isSignificant ? (
+                          <Alert>
+                            <CheckCircle className="h-4 w-4" />
+                            <AlertDescription>
+                              The test shows a statistically significant result. You can confidently implement variant B.
+                            </AlertDescription>
+                          </Alert>
+                        ) : results.pValue < 0.1 ? (
+                          <Alert>
+                            <AlertTriangle className="h-4 w-4" />
+                            <AlertDescription>
+                              The result is marginally significant (p &lt; 0.1). Consider running the test longer or increasing sample size.
+                            </AlertDescription>
+                          </Alert>
+                        ) : (
+                          <Alert>
+                            <XCircle className="h-4 w-4" />
+                            <AlertDescription>
+                              No significant difference detected. Continue testing or try a different variation.
+                            </AlertDescription>
+                          </Alert>
+                        )}
 
-                  {results.powerAchieved < 80 && (
-                    <Alert>
-                      <AlertTriangle className="h-4 w-4" />
-                      <AlertDescription>
-                        Statistical power is below 80%. Consider increasing sample size for more reliable results.
-                      </AlertDescription>
-                    </Alert>
-                  )}
-                </div>
-              </CardContent>
-            </Card>
-          )}
+                        {results.powerAchieved < 80 && (
+                          <Alert>
+                            <AlertTriangle className="h-4 w-4" />
+                            <AlertDescription>
+                              Statistical power is below 80%. Consider increasing sample size for more reliable results.
+                            </AlertDescription>
+                          </Alert>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            )}
+
+            {srmResult && (
+              <SampleRatioMismatchCheck
+                variants={variants}
+                allocations={allocations}
+                onAllocationChange={(id, allocation) => setPlannedAllocations(prev => ({ ...prev, [id]: allocation }))}
+                threshold={srmThreshold}
+                onThresholdChange={setSrmThreshold}
+                result={srmResult}
+              />
+            )}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Alert, AlertDescription } from './ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Scale, AlertTriangle } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { StoppingRuleOutcome } from '../types/simulation';
+import { STOPPING_RULE_OPTIONS } from '../constants/experimentDefaults';
+import { getLookDays } from '../utils/stoppingRules';
+import { SIGNIFICANCE_LEVEL } from '../utils/virtualUsers';
+
+interface StoppingRuleStudyProps {
+  outcomes: StoppingRuleOutcome[];
+  trueLift: number;
+  numberOfSimulations: number;
+  looks: number;
+}
+
+const formatBias = (bias: number | null): string => {
+  if (bias === null) return '-';
+  return `${bias > 0 ? '+' : ''}${bias.toFixed(2)}`;
+};
+
+export function StoppingRuleStudy({ outcomes, trueLift, numberOfSimulations, looks }: StoppingRuleStudyProps) {
+  const nominalRate = SIGNIFICANCE_LEVEL * 100;
+  const labelFor = (rule: StoppingRuleOutcome['rule']) => STOPPING_RULE_OPTIONS.find(option => option.value === rule)?.label ?? rule;
+  const chartData = outcomes.map(outcome => ({
+    rule: labelFor(outcome.rule),
+    falsePositiveRate: outcome.falsePositiveRate,
+    power: outcome.power
+  }));
+  const inflated = outcomes.filter(outcome => outcome.falsePositiveRate > 2 * nominalRate);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Stopping Rule Study
+        </CardTitle>
+        <CardDescription>
+          {numberOfSimulations} simulated experiments under H0 (no effect) and H1 ({trueLift.toFixed(1)}% expected lift), each stopped by every rule;
+          {' '}O'Brien-Fleming looks on days {getLookDays(looks).join(', ')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="rule" tick={{ fontSize: 12 }} />
+              <YAxis domain={[0, 100]} unit="%" />
+              <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+              <Legend />
+              <ReferenceLine y={nominalRate} stroke="#6b7280" strokeDasharray="5 5" label={`α = ${nominalRate}%`} />
+              <Bar dataKey="falsePositiveRate" fill="#ef4444" name="False positive rate (H0)" />
+              <Bar dataKey="power" fill="#10b981" name="Power (H1)" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rule</TableHead>
+              <TableHead className="text-right">False Positive Rate</TableHead>
+              <TableHead className="text-right">Power</TableHead>
+              <TableHead className="text-right">Wrong Arm Shipped (H1)</TableHead>
+              <TableHead className="text-right">Avg Stop Day (H0)</TableHead>
+              <TableHead className="text-right">Avg Stop Day (H1)</TableHead>
+              <TableHead className="text-right">Avg Lift at Stop (H1)</TableHead>
+              <TableHead className="text-right">Bias</TableHead>
+              <TableHead className="text-right">Bias if Shipped</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {outcomes.map(outcome => (
+              <TableRow key={outcome.rule}>
+                <TableCell>{labelFor(outcome.rule)}</TableCell>
+                <TableCell className={`text-right ${outcome.falsePositiveRate > 2 * nominalRate ? 'text-red-600' : ''}`}>
+                  {outcome.falsePositiveRate.toFixed(1)}%
+                </TableCell>
+                <TableCell className="text-right">{outcome.power.toFixed(1)}%</TableCell>
+                <TableCell className={`text-right ${outcome.wrongDirectionRate > 0 ? 'text-red-600' : ''}`}>
+                  {outcome.wrongDirectionRate.toFixed(1)}%
+                </TableCell>
+                <TableCell className="text-right">{outcome.averageStoppingDayH0.toFixed(1)}</TableCell>
+                <TableCell className="text-right">{outcome.averageStoppingDayH1.toFixed(1)}</TableCell>
+                <TableCell className="text-right">{outcome.averageLiftH1.toFixed(2)}%</TableCell>
+                <TableCell className="text-right">{formatBias(outcome.bias)}</TableCell>
+                <TableCell className="text-right">{formatBias(outcome.significantBias)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="text-sm text-muted-foreground">
+          Bias is the average estimated relative lift at the stopping day minus the expected {trueLift.toFixed(1)}% day-30 lift,
+          {' '}in percentage points. Rules that stop on a lucky streak overstate the effect, most of all among the experiments that ship an arm.
+          Power counts the experiments that ship the better arm. The expected-loss rule ships whichever arm first falls below the loss
+          {' '}threshold, and only shipping treatment counts as a false positive, so its false positive rate is one-sided; the other
+          {' '}rules count significant results in either direction.
+        </div>
+
+        {inflated.length > 0 && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              {inflated.map(outcome => labelFor(outcome.rule)).join(' and ')} declared a winner in more than twice the nominal
+              {' '}{nominalRate}% of experiments with no real effect.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {trueLift === 0 && (
+          <Alert>
+            <AlertDescription>
+              The treatment effect is 0, so H1 equals H0: neither arm is better, and power counts only the experiments that shipped treatment.
+            </AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
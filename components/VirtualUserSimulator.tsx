@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -8,225 +8,289 @@ import { Progress } from './ui/progress';
 import { Badge } from './ui/badge';
 import { Separator } from './ui/separator';
 import { Alert, AlertDescription } from './ui/alert';
-import { Play, Pause, RotateCcw, Users, Activity, TrendingUp } from 'lucide-react';
+import { Play, Pause, RotateCcw, Users, Activity, TrendingUp, Eye, Dices, Download, Upload, CheckCircle, AlertTriangle, Square } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from 'recharts';
-
-interface SimulationParameters {
-  baselineRate: number;
-  treatmentEffect: number;
-  sampleSizePerVariant: number;
-  numberOfSimulations: number;
-  userBehaviorPattern: string;
-  seasonality: boolean;
-  weekendEffect: number;
-}
-
-interface SimulationResult {
-  day: number;
-  controlConversions: number;
-  treatmentConversions: number;
-  controlRate: number;
-  treatmentRate: number;
-  pValue: number;
-  isSignificant: boolean;
-  cumulativeControlConversions: number;
-  cumulativeTreatmentConversions: number;
-}
-
-interface SimulationSummary {
-  significantResults: number;
-  averagePValue: number;
-  powerAchieved: number;
-  falsePositiveRate: number;
-  averageEffectSize: number;
-  results: SimulationResult[];
-}
+import { StoppingRuleStudy } from './StoppingRuleStudy';
+import { AgentSimulationResults } from './AgentSimulationResults';
+import { SegmentEditor } from './SegmentEditor';
+import { SegmentSimulationResults } from './SegmentSimulationResults';
+import { RevenueSimulationResults } from './RevenueSimulationResults';
+import { WinnersCurseAnalysis } from './WinnersCurseAnalysis';
+import { AgentRunResult, AgentSimulationSettings, AgentSimulationSummary, CompletedSimulation, EffectDynamics, RevenueEffectTarget, RevenueRunResult, RevenueSimulationSettings, RevenueSimulationSummary, SegmentRunResult, SegmentSimulationSummary, SimulationDistribution, SimulationParameters, SimulationPool, SimulationResult, SimulationRunDescriptor, SimulationSummary, SimulationTask, SpendDistribution, StoppingRuleOutcome, StoppingRuleSettings } from '../types/simulation';
+import { isValidSeed, randomSeed } from '../utils/randomVariates';
+import { getExpectedLift, getNullParameters, getParameterError, isNullScenario, isSameSummary, parseRunDescriptor, RUN_DESCRIPTOR_VERSION, summarizeRunDistribution, summarizeSimulations } from '../utils/virtualUsers';
+import { ExperimentSegment } from '../types/experiment';
+import { DEFAULT_EXPERIMENT_CONFIG, EFFECT_DYNAMICS_OPTIONS, REVENUE_EFFECT_TARGET_OPTIONS, SPEND_DISTRIBUTION_OPTIONS } from '../constants/experimentDefaults';
+import { createSimulationPool } from '../utils/simulationPool';
+import { applyStoppingRules, summarizeStoppingRules } from '../utils/stoppingRules';
+import { summarizeAgentRuns } from '../utils/agentSimulation';
+import { isValidSegmentation, summarizeSegmentRuns } from '../utils/segmentSimulation';
+import { isValidRevenueSettings, summarizeRevenueRuns } from '../utils/revenueSimulation';
 
 export function VirtualUserSimulator() {
   const [parameters, setParameters] = useState<SimulationParameters>({
     baselineRate: 5,
     treatmentEffect: 20,
+    effectDynamics: 'constant',
+    initialEffect: 40,
+    effectHalfLife: 7,
     sampleSizePerVariant: 1000,
     numberOfSimulations: 100,
     userBehaviorPattern: 'uniform',
     seasonality: false,
-    weekendEffect: 10
+    weekendEffect: 10,
+    mixingSD: 1
   });
 
   const [isRunning, setIsRunning] = useState(false);
   const [progress, setProgress] = useState(0);
   const [results, setResults] = useState<SimulationSummary | null>(null);
+  // Kept apart from the summary so run descriptors and their replay check stay unchanged
+  const [distribution, setDistribution] = useState<SimulationDistribution | null>(null);
   const [currentSimulation, setCurrentSimulation] = useState(0);
+  const [seed, setSeed] = useState<number>(randomSeed);
+  const [completedRun, setCompletedRun] = useState<SimulationRunDescriptor | null>(null);
 
-  // Generate random user behavior based on pattern
-  const generateUserBehavior = (day: number, pattern: string): number => {
-    let baseMultiplier = 1;
-    
-    switch (pattern) {
-      case 'increasing':
-        baseMultiplier = 0.5 + (day * 0.5) / 30; // Increases over 30 days
-        break;
-      case 'decreasing':
-        baseMultiplier = 1.5 - (day * 0.5) / 30; // Decreases over 30 days
-        break;
-      case 'seasonal':
-        baseMultiplier = 1 + 0.3 * Math.sin((day * 2 * Math.PI) / 7); // Weekly pattern
-        break;
-      case 'weekend_effect':
-        const dayOfWeek = day % 7;
-        baseMultiplier = (dayOfWeek === 0 || dayOfWeek === 6) ? 1 + parameters.weekendEffect / 100 : 1;
-        break;
-      default:
-        baseMultiplier = 1;
-    }
+  // Replay check for a loaded descriptor: null when nothing was loaded or it carried no summary
+  const [replayMatches, setReplayMatches] = useState<boolean | null>(null);
+  const [loadError, setLoadError] = useState<string>('');
+  const [runError, setRunError] = useState<string>('');
 
-    return Math.max(0.1, baseMultiplier);
-  };
+  // 'single' simulates the configured scenario; 'stopping-study' compares stopping rules under H0 and H1;
+  // 'agent-based' simulates individual people and compares visit-level with user-level analysis;
+  // 'segments' splits traffic into segments with their own rates, lifts and allocation;
+  // 'revenue' simulates revenue per user and compares analysis methods under H0 and H1
+  const [simulationMode, setSimulationMode] = useState<string>('single');
+  const [stoppingSettings, setStoppingSettings] = useState<StoppingRuleSettings>({
+    groupSequentialLooks: 5,
+    lossThreshold: 0.01
+  });
+  const [studyResults, setStudyResults] = useState<(CompletedSimulation<StoppingRuleOutcome[]> & { looks: number }) | null>(null);
+  const [agentSettings, setAgentSettings] = useState<AgentSimulationSettings>({
+    populationSize: 5000,
+    meanVisitsPerWeek: 2,
+    visitFrequencyShape: 1,
+    propensityConcentration: 5,
+    cookieChurnRate: 1
+  });
+  const [agentResults, setAgentResults] = useState<CompletedSimulation<AgentSimulationSummary> | null>(null);
+  const [segments, setSegments] = useState<ExperimentSegment[]>(DEFAULT_EXPERIMENT_CONFIG.segmentation.segments);
+  const [segmentResults, setSegmentResults] = useState<CompletedSimulation<SegmentSimulationSummary> | null>(null);
+  const isStudy = simulationMode === 'stopping-study';
+  const isAgentBased = simulationMode === 'agent-based';
+  const [revenueSettings, setRevenueSettings] = useState<RevenueSimulationSettings>({
+    spendDistribution: 'lognormal',
+    meanOrderValue: 50,
+    spendShape: 1.5,
+    effectTarget: 'order-value',
+    whaleRate: 1,
+    whaleMultiplier: 20,
+    winsorizePercentile: 99,
+    bootstrapResamples: 200
+  });
+  const [revenueResults, setRevenueResults] = useState<CompletedSimulation<RevenueSimulationSummary> | null>(null);
+  const isSegmented = simulationMode === 'segments';
+  const isRevenue = simulationMode === 'revenue';
+  const isValidStudy = Number.isInteger(stoppingSettings.groupSequentialLooks) &&
+    stoppingSettings.groupSequentialLooks >= 2 && stoppingSettings.groupSequentialLooks <= 30 &&
+    stoppingSettings.lossThreshold > 0;
+  const isValidAgents = Number.isInteger(agentSettings.populationSize) && agentSettings.populationSize >= 10 &&
+    agentSettings.meanVisitsPerWeek > 0 && agentSettings.visitFrequencyShape > 0 &&
+    agentSettings.propensityConcentration > 0 &&
+    agentSettings.cookieChurnRate >= 0 && agentSettings.cookieChurnRate <= 100;
+  // The same check the descriptor loader applies, so every run can be exported and replayed
+  const parameterError = getParameterError(parameters);
+  const progressTotal = isStudy || isAgentBased || isRevenue ? 2 * parameters.numberOfSimulations : parameters.numberOfSimulations;
 
-  // Binomial random generator
-  const binomialRandom = (n: number, p: number): number => {
-    let successes = 0;
-    for (let i = 0; i < n; i++) {
-      if (Math.random() < p) successes++;
-    }
-    return successes;
-  };
+  // Simulations run in a Web Worker pool that lives as long as the component
+  const poolRef = useRef<SimulationPool | null>(null);
+  useEffect(() => () => poolRef.current?.terminate(), []);
 
-  // Calculate p-value using normal approximation
-  const calculatePValue = (conversionsA: number, visitorsA: number, conversionsB: number, visitorsB: number): number => {
-    const pA = conversionsA / visitorsA;
-    const pB = conversionsB / visitorsB;
-    
-    const pooledP = (conversionsA + conversionsB) / (visitorsA + visitorsB);
-    const se = Math.sqrt(pooledP * (1 - pooledP) * (1/visitorsA + 1/visitorsB));
-    
-    if (se === 0) return 1;
-    
-    const zScore = Math.abs(pB - pA) / se;
-    
-    // Normal CDF approximation
-    const erfcApprox = (x: number) => {
-      const a = 0.3275911;
-      const p = 0.2316419;
-      const b1 = 0.254829592;
-      const b2 = -0.284496736;
-      const b3 = 1.421413741;
-      const b4 = -1.453152027;
-      const b5 = 1.061405429;
-      
-      const t = 1 / (1 + a * Math.abs(x));
-      const erf = 1 - (b1*t + b2*t*t + b3*t*t*t + b4*t*t*t*t + b5*t*t*t*t*t) * Math.exp(-x*x);
-      
-      return x >= 0 ? 1 - erf : erf - 1;
-    };
-    
-    return erfcApprox(zScore / Math.sqrt(2));
+  // One batch on the pool, with progress counted from `offset` out of `total` simulations
+  const runOnPool = <T,>(task: SimulationTask, runSeed: number, offset: number, total: number) => {
+    if (!poolRef.current) poolRef.current = createSimulationPool();
+    return poolRef.current.run<T>(task, runSeed, (completed) => {
+      setCurrentSimulation(offset + completed);
+      setProgress(((offset + completed) / total) * 100);
+    });
   };
 
-  // Run simulation
-  const runSimulation = async () => {
+  const startRun = () => {
     setIsRunning(true);
     setResults(null);
+    setDistribution(null);
+    setStudyResults(null);
+    setAgentResults(null);
+    setSegmentResults(null);
+    setRevenueResults(null);
+    setCompletedRun(null);
     setProgress(0);
-    
-    const allSimulations: SimulationResult[][] = [];
-    
-    for (let sim = 0; sim < parameters.numberOfSimulations; sim++) {
-      setCurrentSimulation(sim + 1);
-      setProgress((sim / parameters.numberOfSimulations) * 100);
-      
-      const simulationResults: SimulationResult[] = [];
-      let cumulativeControlConversions = 0;
-      let cumulativeTreatmentConversions = 0;
-      let cumulativeControlVisitors = 0;
-      let cumulativeTreatmentVisitors = 0;
-      
-      const dailyVisitors = Math.floor(parameters.sampleSizePerVariant / 30); // Spread over 30 days
-      
-      for (let day = 1; day <= 30; day++) {
-        const behaviorMultiplier = generateUserBehavior(day, parameters.userBehaviorPattern);
-        const adjustedVisitors = Math.floor(dailyVisitors * behaviorMultiplier);
-        
-        // Control group
-        const controlRate = parameters.baselineRate / 100;
-        const controlConversions = binomialRandom(adjustedVisitors, controlRate);
-        cumulativeControlConversions += controlConversions;
-        cumulativeControlVisitors += adjustedVisitors;
-        
-        // Treatment group (with effect)
-        const treatmentRate = controlRate * (1 + parameters.treatmentEffect / 100);
-        const treatmentConversions = binomialRandom(adjustedVisitors, treatmentRate);
-        cumulativeTreatmentConversions += treatmentConversions;
-        cumulativeTreatmentVisitors += adjustedVisitors;
-        
-        // Calculate daily statistics
-        const dailyControlRate = cumulativeControlVisitors > 0 ? (cumulativeControlConversions / cumulativeControlVisitors) * 100 : 0;
-        const dailyTreatmentRate = cumulativeTreatmentVisitors > 0 ? (cumulativeTreatmentConversions / cumulativeTreatmentVisitors) * 100 : 0;
-        
-        const pValue = calculatePValue(
-          cumulativeControlConversions, 
-          cumulativeControlVisitors,
-          cumulativeTreatmentConversions, 
-          cumulativeTreatmentVisitors
-        );
-        
-        simulationResults.push({
-          day,
-          controlConversions,
-          treatmentConversions,
-          controlRate: dailyControlRate,
-          treatmentRate: dailyTreatmentRate,
-          pValue,
-          isSignificant: pValue < 0.05,
-          cumulativeControlConversions,
-          cumulativeTreatmentConversions
+    setCurrentSimulation(0);
+    setReplayMatches(null);
+    setRunError('');
+  };
+
+  // H0 and H1 share the seed, so every rule is applied to the same traffic and the same draws
+  const runStoppingStudy = async () => {
+    startRun();
+    const total = 2 * parameters.numberOfSimulations;
+    try {
+      const nullParameters = getNullParameters(parameters);
+      const nullSimulations = await runOnPool<SimulationResult[]>({ kind: 'daily', parameters: nullParameters }, seed, 0, total);
+      const alternativeSimulations = nullSimulations &&
+        await runOnPool<SimulationResult[]>({ kind: 'daily', parameters }, seed, parameters.numberOfSimulations, total);
+      if (nullSimulations && alternativeSimulations) {
+        setStudyResults({
+          parameters,
+          looks: stoppingSettings.groupSequentialLooks,
+          summary: summarizeStoppingRules(
+            applyStoppingRules(nullSimulations, nullParameters, stoppingSettings),
+            applyStoppingRules(alternativeSimulations, parameters, stoppingSettings),
+            getExpectedLift(parameters)
+          )
         });
+        setProgress(100);
       }
-      
-      allSimulations.push(simulationResults);
-      
-      // Allow UI to update
-      if (sim % 10 === 0) {
-        await new Promise(resolve => setTimeout(resolve, 10));
+    } catch (error) {
+      setRunError(error instanceof Error ? error.message : String(error));
+    }
+    setIsRunning(false);
+  };
+
+  // Same population and seed under H0 and H1; only the treatment effect differs
+  const runAgentSimulation = async () => {
+    startRun();
+    const total = 2 * parameters.numberOfSimulations;
+    try {
+      const nullRuns = await runOnPool<AgentRunResult>(
+        { kind: 'agent-based', parameters: getNullParameters(parameters), agents: agentSettings }, seed, 0, total
+      );
+      const alternativeRuns = nullRuns && await runOnPool<AgentRunResult>(
+        { kind: 'agent-based', parameters, agents: agentSettings }, seed, parameters.numberOfSimulations, total
+      );
+      if (nullRuns && alternativeRuns) {
+        setAgentResults({ parameters, summary: summarizeAgentRuns(nullRuns, alternativeRuns) });
+        setProgress(100);
       }
+    } catch (error) {
+      setRunError(error instanceof Error ? error.message : String(error));
     }
-    
-    // Calculate summary statistics
-    const finalResults = allSimulations.map(sim => sim[sim.length - 1]);
-    const significantResults = finalResults.filter(result => result.isSignificant).length;
-    const averagePValue = finalResults.reduce((sum, result) => sum + result.pValue, 0) / finalResults.length;
-    const powerAchieved = (significantResults / parameters.numberOfSimulations) * 100;
-    
-    // Calculate false positive rate (assuming no real effect for control)
-    const falsePositiveRate = parameters.treatmentEffect === 0 ? powerAchieved : 0;
-    
-    // Calculate average effect size
-    const averageEffectSize = finalResults.reduce((sum, result) => {
-      const effectSize = result.treatmentRate - result.controlRate;
-      return sum + effectSize;
-    }, 0) / finalResults.length;
-    
-    // Use results from first simulation for visualization
-    const visualizationResults = allSimulations[0] || [];
-    
-    setResults({
-      significantResults,
-      averagePValue,
-      powerAchieved,
-      falsePositiveRate,
-      averageEffectSize,
-      results: visualizationResults
-    });
-    
+    setIsRunning(false);
+  };
+
+  // Segment rates, lifts and allocations replace the scenario's baseline and treatment effect
+  const runSegmentSimulation = async () => {
+    startRun();
+    try {
+      const runs = await runOnPool<SegmentRunResult>(
+        { kind: 'segments', parameters, segments }, seed, 0, parameters.numberOfSimulations
+      );
+      if (runs) {
+        setSegmentResults({ parameters, summary: summarizeSegmentRuns(runs, parameters, segments) });
+        setProgress(100);
+      }
+    } catch (error) {
+      setRunError(error instanceof Error ? error.message : String(error));
+    }
+    setIsRunning(false);
+  };
+
+  // Same seed under H0 and H1, so every method is judged on comparable draws
+  const runRevenueSimulation = async () => {
+    startRun();
+    const total = 2 * parameters.numberOfSimulations;
+    try {
+      const nullRuns = await runOnPool<RevenueRunResult>(
+        { kind: 'revenue', parameters: getNullParameters(parameters), revenue: revenueSettings }, seed, 0, total
+      );
+      const alternativeRuns = nullRuns && await runOnPool<RevenueRunResult>(
+        { kind: 'revenue', parameters, revenue: revenueSettings }, seed, parameters.numberOfSimulations, total
+      );
+      if (nullRuns && alternativeRuns) {
+        setRevenueResults({ parameters, summary: summarizeRevenueRuns(nullRuns, alternativeRuns) });
+        setProgress(100);
+      }
+    } catch (error) {
+      setRunError(error instanceof Error ? error.message : String(error));
+    }
+    setIsRunning(false);
+  };
+
+  // Run the simulation; the seed is the only source of randomness, so a descriptor replays exactly
+  const runSimulation = async (runParameters: SimulationParameters = parameters, runSeed: number = seed, expected?: SimulationSummary) => {
+    startRun();
+
+    let allSimulations: SimulationResult[][] | null;
+    try {
+      allSimulations = await runOnPool<SimulationResult[]>({ kind: 'daily', parameters: runParameters }, runSeed, 0, runParameters.numberOfSimulations);
+    } catch (error) {
+      setRunError(error instanceof Error ? error.message : String(error));
+      setIsRunning(false);
+      return;
+    }
+
+    // Cancelled
+    if (!allSimulations) {
+      setIsRunning(false);
+      return;
+    }
+
+    const summary = summarizeSimulations(allSimulations, runParameters);
+    setResults(summary);
+    setDistribution(summarizeRunDistribution(allSimulations, runParameters));
+    setCompletedRun({ version: RUN_DESCRIPTOR_VERSION, seed: runSeed, parameters: runParameters, summary });
+    if (expected) setReplayMatches(isSameSummary(summary, expected));
+
     setProgress(100);
     setIsRunning(false);
   };
 
+  const exportRun = () => {
+    if (!completedRun) return;
+    const descriptorJson = JSON.stringify(completedRun, null, 2);
+    const blob = new Blob([descriptorJson], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `simulation-run-${completedRun.seed}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Loading a descriptor restores its parameters and seed and replays it straight away
+  const loadRun = async (file: File | undefined) => {
+    if (!file) return;
+    const { descriptor, error } = parseRunDescriptor(await file.text());
+    if (!descriptor) {
+      setLoadError(`${file.name} cannot be replayed: ${error}`);
+      return;
+    }
+    setLoadError('');
+    setSimulationMode('single');
+    setParameters(descriptor.parameters);
+    setSeed(descriptor.seed);
+    runSimulation(descriptor.parameters, descriptor.seed, descriptor.summary);
+  };
+
+  const cancelSimulation = () => {
+    poolRef.current?.cancel();
+    setProgress(0);
+    setCurrentSimulation(0);
+  };
+
   const resetSimulation = () => {
+    poolRef.current?.cancel();
     setResults(null);
+    setDistribution(null);
+    setStudyResults(null);
+    setAgentResults(null);
+    setSegmentResults(null);
+    setRevenueResults(null);
     setProgress(0);
     setCurrentSimulation(0);
     setIsRunning(false);
+    setCompletedRun(null);
+    setReplayMatches(null);
   };
 
   return (
@@ -257,13 +321,63 @@ export function VirtualUserSimulator() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label>Treatment Effect (%)</Label>
+                  <Label>{parameters.effectDynamics === 'constant' ? 'Treatment Effect (%)' : 'Long-Run Treatment Effect (%)'}</Label>
                   <Input
                     type="number"
                     value={parameters.treatmentEffect}
                     onChange={(e) => setParameters(prev => ({...prev, treatmentEffect: Number(e.target.value)}))}
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label>Effect Over Time</Label>
+                  <Select
+                    value={parameters.effectDynamics}
+                    onValueChange={(value) => setParameters(prev => ({
+                      ...prev,
+                      effectDynamics: value as EffectDynamics,
+                      // Start on the side of the long-run lift that the chosen shape implies
+                      initialEffect: value === 'novelty' ? Math.max(prev.initialEffect, 2 * prev.treatmentEffect, prev.treatmentEffect + 10)
+                        : value === 'primacy' ? Math.min(prev.initialEffect, 0) : prev.initialEffect
+                    }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EFFECT_DYNAMICS_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {parameters.effectDynamics !== 'constant' && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="initialEffect">Day-1 Effect (%)</Label>
+                      <Input
+                        id="initialEffect"
+                        type="number"
+                        value={parameters.initialEffect}
+                        onChange={(e) => setParameters(prev => ({...prev, initialEffect: Number(e.target.value)}))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="effectHalfLife">Half-Life (days)</Label>
+                      <Input
+                        id="effectHalfLife"
+                        type="number"
+                        min="0.5"
+                        step="0.5"
+                        value={parameters.effectHalfLife}
+                        onChange={(e) => setParameters(prev => ({...prev, effectHalfLife: Number(e.target.value)}))}
+                      />
+                    </div>
+                    <p className="text-sm text-muted-foreground col-span-2">
+                      The gap to the long-run effect halves every half-life, counted from each user's first exposure
+                      {' '}(from day 1 outside agent-based mode).
+                    </p>
+                  </div>
+                )}
                 <div className="space-y-2">
                   <Label>Sample Size per Variant</Label>
                   <Input
@@ -279,6 +393,216 @@ export function VirtualUserSimulator() {
             <div className="space-y-4">
               <h4>Simulation Settings</h4>
               <div className="space-y-3">
+                <div className="space-y-2">
+                  <Label>Mode</Label>
+                  <Select value={simulationMode} onValueChange={setSimulationMode} disabled={isRunning}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="single">Single scenario</SelectItem>
+                      <SelectItem value="stopping-study">Stopping rule study (H0 vs. H1)</SelectItem>
+                      <SelectItem value="agent-based">Agent-based users (visit vs. user level)</SelectItem>
+                      <SelectItem value="segments">Segments (per-segment vs. pooled)</SelectItem>
+                      <SelectItem value="revenue">Revenue per user (analysis methods)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {isStudy && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="studyLooks">O'Brien-Fleming Looks</Label>
+                      <Input
+                        id="studyLooks"
+                        type="number"
+                        min="2"
+                        max="30"
+                        value={stoppingSettings.groupSequentialLooks}
+                        onChange={(e) => setStoppingSettings(prev => ({ ...prev, groupSequentialLooks: Number(e.target.value) }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="studyLoss">Loss Threshold (pp)</Label>
+                      <Input
+                        id="studyLoss"
+                        type="number"
+                        step="0.005"
+                        min="0"
+                        value={stoppingSettings.lossThreshold}
+                        onChange={(e) => setStoppingSettings(prev => ({ ...prev, lossThreshold: Number(e.target.value) }))}
+                      />
+                    </div>
+                  </div>
+                )}
+                {isAgentBased && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="agentPopulation">People</Label>
+                      <Input
+                        id="agentPopulation"
+                        type="number"
+                        value={agentSettings.populationSize}
+                        onChange={(e) => setAgentSettings(prev => ({ ...prev, populationSize: Number(e.target.value) }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="agentVisits">Visits per Week</Label>
+                      <Input
+                        id="agentVisits"
+                        type="number"
+                        step="0.5"
+                        value={agentSettings.meanVisitsPerWeek}
+                        onChange={(e) => setAgentSettings(prev => ({ ...prev, meanVisitsPerWeek: Number(e.target.value) }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="agentVisitShape">Visit Rate Shape</Label>
+                      <Input
+                        id="agentVisitShape"
+                        type="number"
+                        step="0.1"
+                        value={agentSettings.visitFrequencyShape}
+                        onChange={(e) => setAgentSettings(prev => ({ ...prev, visitFrequencyShape: Number(e.target.value) }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="agentConcentration">Propensity Concentration</Label>
+                      <Input
+                        id="agentConcentration"
+                        type="number"
+                        step="0.5"
+                        value={agentSettings.propensityConcentration}
+                        onChange={(e) => setAgentSettings(prev => ({ ...prev, propensityConcentration: Number(e.target.value) }))}
+                      />
+                    </div>
+                    <div className="space-y-2 col-span-2">
+                      <Label htmlFor="agentChurn">Cookie Reset Chance per Visit Day (%)</Label>
+                      <Input
+                        id="agentChurn"
+                        type="number"
+                        step="0.5"
+                        value={agentSettings.cookieChurnRate}
+                        onChange={(e) => setAgentSettings(prev => ({ ...prev, cookieChurnRate: Number(e.target.value) }))}
+                      />
+                    </div>
+                    <p className="text-sm text-muted-foreground col-span-2">
+                      People replace the sample size; smaller shape and concentration values mean more heterogeneous users.
+                    </p>
+                  </div>
+                )}
+                {isRevenue && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-2">
+                      <Label>Order Value Distribution</Label>
+                      <Select
+                        value={revenueSettings.spendDistribution}
+                        onValueChange={(value) => setRevenueSettings(prev => ({
+                          ...prev,
+                          spendDistribution: value as SpendDistribution,
+                          // Shapes mean different things per family; start from a typical value
+                          spendShape: value === 'pareto' ? 2 : value === 'gamma' ? 0.5 : 1.5
+                        }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SPEND_DISTRIBUTION_OPTIONS.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="revenueShape">
+                        {revenueSettings.spendDistribution === 'pareto' ? 'Tail Index' : revenueSettings.spendDistribution === 'gamma' ? 'Gamma Shape' : 'Log SD (σ)'}
+                      </Label>
+                      <Input
+                        id="revenueShape"
+                        type="number"
+                        step="0.1"
+                        value={revenueSettings.spendShape}
+                        onChange={(e) => setRevenueSettings(prev => ({ ...prev, spendShape: Number(e.target.value) }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="revenueOrderValue">Mean Order Value</Label>
+                      <Input
+                        id="revenueOrderValue"
+                        type="number"
+                        value={revenueSettings.meanOrderValue}
+                        onChange={(e) => setRevenueSettings(prev => ({ ...prev, meanOrderValue: Number(e.target.value) }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Effect On</Label>
+                      <Select
+                        value={revenueSettings.effectTarget}
+                        onValueChange={(value) => setRevenueSettings(prev => ({ ...prev, effectTarget: value as RevenueEffectTarget }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {REVENUE_EFFECT_TARGET_OPTIONS.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="revenueWhaleRate">Whale Buyers (%)</Label>
+                      <Input
+                        id="revenueWhaleRate"
+                        type="number"
+                        step="0.1"
+                        min="0"
+                        value={revenueSettings.whaleRate}
+                        onChange={(e) => setRevenueSettings(prev => ({ ...prev, whaleRate: Number(e.target.value) }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="revenueWhaleMultiplier">Whale Multiplier</Label>
+                      <Input
+                        id="revenueWhaleMultiplier"
+                        type="number"
+                        min="1"
+                        value={revenueSettings.whaleMultiplier}
+                        onChange={(e) => setRevenueSettings(prev => ({ ...prev, whaleMultiplier: Number(e.target.value) }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="revenueWinsorize">Winsorize At (percentile)</Label>
+                      <Input
+                        id="revenueWinsorize"
+                        type="number"
+                        step="0.5"
+                        value={revenueSettings.winsorizePercentile}
+                        onChange={(e) => setRevenueSettings(prev => ({ ...prev, winsorizePercentile: Number(e.target.value) }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="revenueResamples">Bootstrap Resamples</Label>
+                      <Input
+                        id="revenueResamples"
+                        type="number"
+                        step="100"
+                        value={revenueSettings.bootstrapResamples}
+                        onChange={(e) => setRevenueSettings(prev => ({ ...prev, bootstrapResamples: Number(e.target.value) }))}
+                      />
+                    </div>
+                    <p className="text-sm text-muted-foreground col-span-2">
+                      The baseline rate is the share of users who buy and the treatment effect the lift in mean revenue per user.
+                      {revenueSettings.spendDistribution === 'pareto' && ' Tail indices of 2 or less have infinite variance.'}
+                    </p>
+                    {!isValidRevenueSettings(revenueSettings) && (
+                      <p className="text-sm text-red-600 col-span-2">
+                        Use a positive order value and shape (a Pareto tail index above 1), whale multiplier of at least 1,
+                        {' '}a winsorizing percentile between 50 and 100 and at least 100 whole resamples
+                      </p>
+                    )}
+                  </div>
+                )}
                 <div className="space-y-2">
                   <Label>Number of Simulations</Label>
                   <Select 
@@ -293,6 +617,8 @@ export function VirtualUserSimulator() {
                       <SelectItem value="100">100</SelectItem>
                       <SelectItem value="500">500</SelectItem>
                       <SelectItem value="1000">1000</SelectItem>
+                      <SelectItem value="5000">5000</SelectItem>
+                      <SelectItem value="10000">10000</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -314,6 +640,34 @@ export function VirtualUserSimulator() {
                     </SelectContent>
                   </Select>
                 </div>
+                <div className="space-y-2">
+                  <Label>mSPRT Mixing SD (pp)</Label>
+                  <Input
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    value={parameters.mixingSD}
+                    onChange={(e) => setParameters(prev => ({...prev, mixingSD: Number(e.target.value)}))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="simulationSeed">Random Seed</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="simulationSeed"
+                      type="number"
+                      min="0"
+                      value={seed}
+                      onChange={(e) => setSeed(Number(e.target.value))}
+                    />
+                    <Button variant="outline" size="sm" onClick={() => setSeed(randomSeed())} disabled={isRunning} title="New random seed">
+                      <Dices className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {!isValidSeed(seed) && (
+                    <p className="text-sm text-red-600">Seed must be a whole number from 0 to 4294967295</p>
+                  )}
+                </div>
                 {parameters.userBehaviorPattern === 'weekend_effect' && (
                   <div className="space-y-2">
                     <Label>Weekend Effect (%)</Label>
@@ -332,8 +686,9 @@ export function VirtualUserSimulator() {
               <h4>Controls</h4>
               <div className="space-y-3">
                 <Button 
-                  onClick={runSimulation} 
-                  disabled={isRunning}
+                  onClick={() => isStudy ? runStoppingStudy() : isAgentBased ? runAgentSimulation() : isSegmented ? runSegmentSimulation() : isRevenue ? runRevenueSimulation() : runSimulation()} 
+                  disabled={isRunning || !isValidSeed(seed) || parameterError !== null || (isStudy && !isValidStudy) || (isAgentBased && !isValidAgents) ||
+                    (isSegmented && !isValidSegmentation(segments)) || (isRevenue && !isValidRevenueSettings(revenueSettings))}
                   className="w-full"
                 >
                   {isRunning ? (
@@ -348,6 +703,16 @@ export function VirtualUserSimulator() {
                     </>
                   )}
                 </Button>
+                {isRunning && (
+                  <Button
+                    onClick={cancelSimulation}
+                    variant="outline"
+                    className="w-full"
+                  >
+                    <Square className="h-4 w-4 mr-2" />
+                    Cancel
+                  </Button>
+                )}
                 <Button 
                   onClick={resetSimulation}
                   variant="outline"
@@ -356,12 +721,47 @@ export function VirtualUserSimulator() {
                   <RotateCcw className="h-4 w-4 mr-2" />
                   Reset
                 </Button>
+                <Button
+                  onClick={exportRun}
+                  variant="outline"
+                  className="w-full"
+                  disabled={!completedRun || isRunning}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Export Run
+                </Button>
+                <Button asChild variant="outline" className="w-full">
+                  <label htmlFor="simulationRunFile" className="cursor-pointer">
+                    <Upload className="h-4 w-4 mr-2" />
+                    Load & Replay Run
+                  </label>
+                </Button>
+                <input
+                  id="simulationRunFile"
+                  type="file"
+                  accept="application/json"
+                  className="hidden"
+                  disabled={isRunning}
+                  onChange={(e) => {
+                    loadRun(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+                {parameterError && (
+                  <p className="text-sm text-red-600">These settings cannot be simulated: {parameterError}</p>
+                )}
+                {loadError && (
+                  <p className="text-sm text-red-600">{loadError}</p>
+                )}
+                {runError && (
+                  <p className="text-sm text-red-600">Simulation failed: {runError}</p>
+                )}
                 
                 {isRunning && (
                   <div className="space-y-2">
                     <div className="flex justify-between text-sm">
                       <span>Progress</span>
-                      <span>{currentSimulation}/{parameters.numberOfSimulations}</span>
+                      <span>{currentSimulation}/{progressTotal}</span>
                     </div>
                     <Progress value={progress} />
                   </div>
@@ -369,11 +769,49 @@ export function VirtualUserSimulator() {
               </div>
             </div>
           </div>
+
+          {isSegmented && (
+            <div className="space-y-4 mt-6">
+              <h4>Segments</h4>
+              <SegmentEditor segments={segments} onChange={setSegments} disabled={isRunning} />
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      {studyResults && (
+        <StoppingRuleStudy
+          outcomes={studyResults.summary}
+          trueLift={getExpectedLift(studyResults.parameters)}
+          numberOfSimulations={studyResults.parameters.numberOfSimulations}
+          looks={studyResults.looks}
+        />
+      )}
+
+      {agentResults && (
+        <AgentSimulationResults
+          summary={agentResults.summary}
+          numberOfSimulations={agentResults.parameters.numberOfSimulations}
+        />
+      )}
+
+      {segmentResults && (
+        <SegmentSimulationResults
+          summary={segmentResults.summary}
+          numberOfSimulations={segmentResults.parameters.numberOfSimulations}
+        />
+      )}
+
+      {revenueResults && (
+        <RevenueSimulationResults
+          summary={revenueResults.summary}
+          trueLift={revenueResults.parameters.treatmentEffect}
+          numberOfSimulations={revenueResults.parameters.numberOfSimulations}
+        />
+      )}
+
       {/* Results */}
-      {results && (
+      {results && completedRun && (
         <div className="space-y-6">
           {/* Summary Statistics */}
           <Card>
@@ -383,10 +821,20 @@ export function VirtualUserSimulator() {
                 Simulation Results
               </CardTitle>
               <CardDescription>
-                Summary of {parameters.numberOfSimulations} simulations
+                Summary of {completedRun.parameters.numberOfSimulations} simulations with seed {completedRun.seed}
               </CardDescription>
             </CardHeader>
             <CardContent>
+              {replayMatches !== null && (
+                <Alert className="mb-6">
+                  {replayMatches ? <CheckCircle className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+                  <AlertDescription>
+                    {replayMatches
+                      ? 'Replay reproduced the summary stored in the loaded run exactly.'
+                      : 'Replay differs from the summary stored in the loaded run; it was probably produced by a different version of the simulator.'}
+                  </AlertDescription>
+                </Alert>
+              )}
               <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
                 <div className="result-card">
                   <div className="value">{results.powerAchieved.toFixed(1)}%</div>
@@ -437,6 +885,49 @@ export function VirtualUserSimulator() {
             </CardContent>
           </Card>
 
+          {/* Continuous Monitoring */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Eye className="h-5 w-5" />
+                Daily Peeking
+              </CardTitle>
+              <CardDescription>
+                Share of simulations declared significant when the test is checked every day for 30 days
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="result-card">
+                  <div className="value">{results.powerAchieved.toFixed(1)}%</div>
+                  <div className="label">Fixed Horizon (day 30 only)</div>
+                </div>
+                <div className="result-card">
+                  <div className={`value ${isNullScenario(completedRun.parameters) && results.peekingRejectionRate > 5 ? 'text-red-600' : ''}`}>
+                    {results.peekingRejectionRate.toFixed(1)}%
+                  </div>
+                  <div className="label">Naive Daily P-Value</div>
+                </div>
+                <div className="result-card">
+                  <div className="value">{results.alwaysValidRejectionRate.toFixed(1)}%</div>
+                  <div className="label">mSPRT Daily</div>
+                </div>
+              </div>
+              <div className="text-sm text-muted-foreground">
+                {isNullScenario(completedRun.parameters)
+                  ? 'With no true effect these are type I error rates. Stopping at the first daily p < 0.05 inflates the nominal 5%; the always-valid p-value stays at or below it.'
+                  : 'With a true effect these are rejection rates over the run. Set the treatment effect to 0 to see the type I error under daily peeking.'}
+              </div>
+            </CardContent>
+          </Card>
+
+          {distribution && (
+            <WinnersCurseAnalysis
+              distribution={distribution}
+              numberOfSimulations={completedRun.parameters.numberOfSimulations}
+            />
+          )}
+
           {/* Visualization */}
           <Card>
             <CardHeader>
@@ -455,7 +946,8 @@ export function VirtualUserSimulator() {
                         typeof value === 'number' ? value.toFixed(3) : value, 
                         name === 'controlRate' ? 'Control Rate (%)' : 
                         name === 'treatmentRate' ? 'Treatment Rate (%)' : 
-                        name === 'pValue' ? 'P-Value' : name
+                        name === 'pValue' ? 'P-Value' :
+                        name === 'alwaysValidPValue' ? 'Always-Valid P-Value' : name
                       ]}
                     />
                     <Line 
@@ -480,6 +972,14 @@ export function VirtualUserSimulator() {
                       strokeDasharray="5 5"
                       name="P-Value"
                     />
+                    <Line 
+                      type="monotone" 
+                      dataKey="alwaysValidPValue" 
+                      stroke="#8b5cf6" 
+                      strokeWidth={2}
+                      strokeDasharray="2 2"
+                      name="Always-Valid P-Value"
+                    />
                   </LineChart>
                 </ResponsiveContainer>
               </div>
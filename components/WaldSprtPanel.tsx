@@ -0,0 +1,287 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription } from './ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Scale, AlertTriangle } from 'lucide-react';
+import { LineChart, Line, ComposedChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { InterimLook } from '../types/statistics';
+import { calculateSampleSize, normalInverse } from '../utils/statisticalCalculations';
+import { groupSequentialOperatingCharacteristic, solveGroupSequentialDrift } from '../utils/groupSequential';
+import { sprtDecision, sprtOperatingCharacteristic, waldSprtDesign } from '../utils/sprt';
+
+interface WaldSprtPanelProps {
+  looks: InterimLook[];
+  alpha: number;
+  beta: number;
+  minimumEffect: number;
+  plannedFractions: number[];
+  enableFutility: boolean;
+}
+
+interface DesignComparisonPoint {
+  lift: number;
+  sprtPower: number;
+  sprtVisitors: number;
+  obfPower: number;
+  obfVisitors: number;
+  pocockPower: number;
+  pocockVisitors: number;
+}
+
+// True lifts for the OC and ASN curves, as multiples of the minimum effect
+const LIFT_MULTIPLES = Array.from({ length: 13 }, (_, i) => -0.5 + i * 0.25);
+
+// Arm shares further apart than this break the equal-split assumption behind the conversion-share test
+const SPLIT_TOLERANCE = 0.05;
+
+const formatRate = (rate: number): string => `${(rate * 100).toFixed(2)}%`;
+
+export function WaldSprtPanel({ looks, alpha, beta, minimumEffect, plannedFractions, enableFutility }: WaldSprtPanelProps) {
+  const [baselineRate, setBaselineRate] = useState<number>(10);
+  const [comparison, setComparison] = useState<{ points: DesignComparisonPoint[]; fixedVisitors: number; obfMaximum: number; pocockMaximum: number } | null>(null);
+
+  const p0 = baselineRate / 100;
+  const p1 = p0 * (1 + minimumEffect / 100);
+
+  // With an equal split each conversion comes from treatment with probability pT / (pC + pT),
+  // so the two-arm comparison becomes a single Bernoulli sequence of conversions. Each side
+  // of the two-sided group-sequential designs spends α/2, and so does this one-sided test.
+  const design = waldSprtDesign(0.5, p1 / (p0 + p1), alpha / 2, beta);
+  const isValidDesign = p0 > 0 && p1 < 1 && minimumEffect > 0;
+
+  const path = looks.map(look => {
+    const conversions = look.controlConversions + look.treatmentConversions;
+    return {
+      date: look.date,
+      conversions,
+      treatmentConversions: look.treatmentConversions,
+      decision: sprtDecision(design, conversions, look.treatmentConversions),
+      isUnbalanced: Math.abs(look.treatmentVisitors / (look.controlVisitors + look.treatmentVisitors) - 0.5) > SPLIT_TOLERANCE
+    };
+  });
+  const firstDecision = path.find(point => point.decision !== 'continue');
+  const isUnbalanced = path.some(point => point.isUnbalanced);
+
+  const plannedKey = plannedFractions.join(',');
+
+  useEffect(() => {
+    if (!isValidDesign) {
+      setComparison(null);
+      return;
+    }
+
+    const fixedDrift = normalInverse(1 - alpha / 2) + normalInverse(1 - beta);
+    const fixedVisitors = 2 * calculateSampleSize(baselineRate, minimumEffect, (1 - beta) * 100, alpha);
+    const obf = solveGroupSequentialDrift(plannedFractions, alpha, 'obrien-fleming', 0, beta, enableFutility);
+    const pocock = solveGroupSequentialDrift(plannedFractions, alpha, 'pocock', 0, beta, enableFutility);
+    const obfMaximum = fixedVisitors * (obf.drift / fixedDrift) ** 2;
+    const pocockMaximum = fixedVisitors * (pocock.drift / fixedDrift) ** 2;
+
+    const points = LIFT_MULTIPLES.map(multiple => {
+      const pTrue = p0 * (1 + multiple * minimumEffect / 100);
+      const sprt = sprtOperatingCharacteristic(design, pTrue / (p0 + pTrue), alpha / 2, beta);
+      const obfOc = groupSequentialOperatingCharacteristic(obf.looks, obf.drift * multiple);
+      const pocockOc = groupSequentialOperatingCharacteristic(pocock.looks, pocock.drift * multiple);
+
+      return {
+        lift: multiple * minimumEffect,
+        sprtPower: 1 - sprt.acceptProbability,
+        // Expected conversions to a decision, converted to visitors across both arms
+        sprtVisitors: sprt.expectedSampleSize * 2 / (p0 + pTrue),
+        obfPower: obfOc.rejectionProbability,
+        obfVisitors: obfOc.expectedInformation * obfMaximum,
+        pocockPower: pocockOc.rejectionProbability,
+        pocockVisitors: pocockOc.expectedInformation * pocockMaximum
+      };
+    });
+
+    setComparison({ points, fixedVisitors, obfMaximum, pocockMaximum });
+  }, [baselineRate, minimumEffect, alpha, beta, plannedKey, enableFutility]);
+
+  const lastConversions = path.length > 0 ? path[path.length - 1].conversions : 0;
+  const nullExpected = sprtOperatingCharacteristic(design, 0.5, alpha / 2, beta).expectedSampleSize;
+  const axisMaximum = Math.max(lastConversions, nullExpected * 2, 10);
+  const boundaryLines = Array.from({ length: 41 }, (_, i) => {
+    const conversions = (axisMaximum * i) / 40;
+    return {
+      conversions: Math.round(conversions),
+      reject: design.rejectIntercept + design.slope * conversions,
+      accept: Math.max(0, design.acceptIntercept + design.slope * conversions)
+    };
+  });
+
+  const summaryLifts = comparison ? [0, minimumEffect / 2, minimumEffect].map(lift => {
+    const index = LIFT_MULTIPLES.findIndex(multiple => Math.abs(multiple * minimumEffect - lift) < 1e-9);
+    return index >= 0 ? comparison.points[index] : null;
+  }) : [];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Wald's Sequential Probability Ratio Test
+          </CardTitle>
+          <CardDescription>
+            Each conversion is a trial: treatment with probability 0.5 under H0, {(p1 / (p0 + p1)).toFixed(3)} under a {minimumEffect}% lift
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="sprtBaseline">Baseline Rate (%)</Label>
+              <Input
+                id="sprtBaseline"
+                type="number"
+                step="0.1"
+                value={baselineRate}
+                onChange={(e) => setBaselineRate(Number(e.target.value))}
+              />
+            </div>
+            <div className="result-card">
+              <div className="value">{formatRate(p0)} → {formatRate(p1)}</div>
+              <div className="label">H0 → H1 Rate</div>
+            </div>
+            <div className="result-card">
+              <div className={`value ${firstDecision?.decision === 'reject' ? 'text-green-600' : firstDecision ? 'text-yellow-600' : 'text-blue-600'}`}>
+                {firstDecision?.decision === 'reject' ? 'Reject H0' : firstDecision ? 'Accept H0' : 'Continue'}
+              </div>
+              <div className="label">Decision</div>
+            </div>
+            <div className="result-card">
+              <div className="value">{Math.round(nullExpected).toLocaleString()}</div>
+              <div className="label">Expected Conversions (H0)</div>
+            </div>
+          </div>
+
+          {isUnbalanced && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Some looks are not an even split between arms. The conversion-share SPRT assumes equal allocation, so its
+                decisions are biased towards the larger arm.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={boundaryLines}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="conversions"
+                  type="number"
+                  domain={[0, 'dataMax']}
+                  label={{ value: 'Total Conversions', position: 'insideBottom', offset: -5 }}
+                />
+                <YAxis label={{ value: 'Treatment Conversions', angle: -90, position: 'insideLeft' }} />
+                <Tooltip formatter={(value: any) => Number(value).toFixed(1)} />
+                <Legend />
+                <Line type="linear" dataKey="reject" stroke="#10b981" strokeWidth={2} dot={false} name="Reject H0 above" />
+                <Line type="linear" dataKey="accept" stroke="#f59e0b" strokeWidth={2} dot={false} name="Accept H0 below" />
+                <Scatter data={path} dataKey="treatmentConversions" fill="#3b82f6" line name="Observed" />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Reject line: {design.rejectIntercept.toFixed(2)} + {design.slope.toFixed(4)}·m. Accept line:{' '}
+            {design.acceptIntercept.toFixed(2)} + {design.slope.toFixed(4)}·m, with m total conversions.
+            {firstDecision && ` The path first left the continuation region at the look on ${firstDecision.date}.`}
+          </div>
+        </CardContent>
+      </Card>
+
+      {comparison && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Operating Characteristics vs. Group Sequential Designs</CardTitle>
+            <CardDescription>
+              Power and expected visitors (both arms) across true lifts; O'Brien-Fleming and Pocock use the planned looks
+              {enableFutility ? ' with non-binding futility' : ' without futility'} and are sized for {((1 - beta) * 100).toFixed(0)}% power
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={comparison.points}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="lift" tickFormatter={(value) => `${Number(value).toFixed(0)}%`} />
+                    <YAxis domain={[0, 1]} />
+                    <Tooltip formatter={(value: any) => `${(Number(value) * 100).toFixed(1)}%`} labelFormatter={(value) => `Lift ${Number(value).toFixed(1)}%`} />
+                    <Legend />
+                    <Line type="monotone" dataKey="sprtPower" stroke="#3b82f6" strokeWidth={2} dot={false} name="SPRT" />
+                    <Line type="monotone" dataKey="obfPower" stroke="#10b981" strokeWidth={2} dot={false} name="O'Brien-Fleming" />
+                    <Line type="monotone" dataKey="pocockPower" stroke="#8b5cf6" strokeWidth={2} dot={false} name="Pocock" />
+                  </LineChart>
+                </ResponsiveContainer>
+                <div className="text-xs text-center text-muted-foreground">Probability of rejecting H0 (OC curve)</div>
+              </div>
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={comparison.points}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="lift" tickFormatter={(value) => `${Number(value).toFixed(0)}%`} />
+                    <YAxis />
+                    <Tooltip formatter={(value: any) => Math.round(Number(value)).toLocaleString()} labelFormatter={(value) => `Lift ${Number(value).toFixed(1)}%`} />
+                    <Legend />
+                    <Line type="monotone" dataKey="sprtVisitors" stroke="#3b82f6" strokeWidth={2} dot={false} name="SPRT" />
+                    <Line type="monotone" dataKey="obfVisitors" stroke="#10b981" strokeWidth={2} dot={false} name="O'Brien-Fleming" />
+                    <Line type="monotone" dataKey="pocockVisitors" stroke="#8b5cf6" strokeWidth={2} dot={false} name="Pocock" />
+                  </LineChart>
+                </ResponsiveContainer>
+                <div className="text-xs text-center text-muted-foreground">Average sample number (visitors)</div>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Design</TableHead>
+                  <TableHead className="text-right">Maximum</TableHead>
+                  <TableHead className="text-right">Expected (no lift)</TableHead>
+                  <TableHead className="text-right">Expected ({minimumEffect / 2}% lift)</TableHead>
+                  <TableHead className="text-right">Expected ({minimumEffect}% lift)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[
+                  { name: "Wald's SPRT", maximum: null, key: 'sprtVisitors' as const },
+                  { name: "O'Brien-Fleming", maximum: comparison.obfMaximum, key: 'obfVisitors' as const },
+                  { name: 'Pocock', maximum: comparison.pocockMaximum, key: 'pocockVisitors' as const }
+                ].map(row => (
+                  <TableRow key={row.name}>
+                    <TableCell>{row.name}</TableCell>
+                    <TableCell className="text-right">
+                      {row.maximum !== null ? Math.ceil(row.maximum).toLocaleString() : <Badge variant="outline">Open-ended</Badge>}
+                    </TableCell>
+                    {summaryLifts.map((point, index) => (
+                      <TableCell key={index} className="text-right">
+                        {point ? Math.round(point[row.key]).toLocaleString() : '-'}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell>Fixed horizon</TableCell>
+                  <TableCell className="text-right">{comparison.fixedVisitors.toLocaleString()}</TableCell>
+                  {summaryLifts.map((_, index) => (
+                    <TableCell key={index} className="text-right">{comparison.fixedVisitors.toLocaleString()}</TableCell>
+                  ))}
+                </TableRow>
+              </TableBody>
+            </Table>
+            <div className="text-xs text-muted-foreground">
+              The SPRT minimises expected sample size at H0 and H1 but has no maximum: near the midpoint between them it can
+              run far longer than either group sequential design. SPRT figures use Wald's approximations.
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
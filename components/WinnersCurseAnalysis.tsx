@@ -0,0 +1,147 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Alert, AlertDescription } from './ui/alert';
+import { BarChart3, AlertTriangle } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { HistogramBin, SimulationDistribution } from '../types/simulation';
+import { SIGNIFICANCE_LEVEL } from '../utils/virtualUsers';
+
+interface WinnersCurseAnalysisProps {
+  distribution: SimulationDistribution;
+  numberOfSimulations: number;
+}
+
+interface HistogramChartProps {
+  title: string;
+  bins: HistogramBin[];
+  color: string;
+  unit?: string;
+  decimals: number;
+  markers: Array<{ x: number; label: string; color: string }>;
+}
+
+function HistogramChart({ title, bins, color, unit = '', decimals, markers }: HistogramChartProps) {
+  const data = bins.map(bin => ({ midpoint: (bin.start + bin.end) / 2, start: bin.start, end: bin.end, count: bin.count }));
+  const domain: [number, number] = [bins[0]?.start ?? 0, bins[bins.length - 1]?.end ?? 1];
+
+  return (
+    <div className="space-y-2">
+      <h4>{title}</h4>
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data} barCategoryGap={1}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="midpoint" type="number" domain={domain} unit={unit} tickFormatter={(value: number) => value.toFixed(decimals)} />
+            <YAxis allowDecimals={false} />
+            <Tooltip
+              labelFormatter={(_, payload) => {
+                const bin = payload?.[0]?.payload;
+                return bin ? `${bin.start.toFixed(decimals)}${unit} to ${bin.end.toFixed(decimals)}${unit}` : '';
+              }}
+              formatter={(value: number) => [value, 'Runs']}
+            />
+            <Bar dataKey="count" fill={color} />
+            {markers.map(marker => (
+              <ReferenceLine key={marker.label} x={marker.x} stroke={marker.color} strokeDasharray="5 5" label={marker.label} />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+export function WinnersCurseAnalysis({ distribution, numberOfSimulations }: WinnersCurseAnalysisProps) {
+  const significantRuns = distribution.significantLiftHistogram.reduce((sum, bin) => sum + bin.count, 0);
+  const trueMarker = { x: distribution.trueLift, label: 'True lift', color: '#6b7280' };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BarChart3 className="h-5 w-5" />
+          Winner's Curse
+        </CardTitle>
+        <CardDescription>
+          Day-30 p-values and relative lift estimates across all {numberOfSimulations} simulations
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <div className="result-card">
+            <div className="value">{distribution.trueLift.toFixed(1)}%</div>
+            <div className="label">True Lift</div>
+          </div>
+          <div className="result-card">
+            <div className="value">{distribution.averageLift.toFixed(1)}%</div>
+            <div className="label">Mean Estimate</div>
+          </div>
+          <div className="result-card">
+            <div className="value">
+              {distribution.averageSignificantLift !== null ? `${distribution.averageSignificantLift.toFixed(1)}%` : '—'}
+            </div>
+            <div className="label">Mean Significant Estimate</div>
+          </div>
+          <div className="result-card">
+            <div className={`value ${distribution.exaggerationRatio !== null && distribution.exaggerationRatio > 1.5 ? 'text-red-600' : ''}`}>
+              {distribution.exaggerationRatio !== null ? `${distribution.exaggerationRatio.toFixed(2)}×` : '—'}
+            </div>
+            <div className="label">Type M (Exaggeration)</div>
+          </div>
+          <div className="result-card">
+            <div className={`value ${distribution.signErrorRate !== null && distribution.signErrorRate > 0 ? 'text-red-600' : ''}`}>
+              {distribution.signErrorRate !== null ? `${distribution.signErrorRate.toFixed(1)}%` : '—'}
+            </div>
+            <div className="label">Type S (Wrong Sign)</div>
+          </div>
+        </div>
+
+        {distribution.exaggerationRatio !== null && distribution.exaggerationRatio > 1.5 && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Only the runs that overshot the true {distribution.trueLift.toFixed(1)}% lift reached significance, so a "win" from this
+              {' '}design reports on average {distribution.exaggerationRatio.toFixed(1)} times the real effect
+              {distribution.signErrorRate !== null && distribution.signErrorRate > 0 &&
+                ` and points the wrong way ${distribution.signErrorRate.toFixed(1)}% of the time`}.
+              {' '}Increase the sample size, or shrink significant estimates before using them in forecasts.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <HistogramChart
+          title="Final P-Values"
+          bins={distribution.pValueHistogram}
+          color="#f59e0b"
+          decimals={2}
+          markers={[{ x: SIGNIFICANCE_LEVEL, label: `α = ${SIGNIFICANCE_LEVEL}`, color: '#ef4444' }]}
+        />
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <HistogramChart
+            title="Estimated Lift, All Runs"
+            bins={distribution.liftHistogram}
+            color="#3b82f6"
+            unit="%"
+            decimals={0}
+            markers={[trueMarker]}
+          />
+          <HistogramChart
+            title={`Estimated Lift, Significant Runs (${significantRuns})`}
+            bins={distribution.significantLiftHistogram}
+            color="#10b981"
+            unit="%"
+            decimals={0}
+            markers={distribution.averageSignificantLift !== null
+              ? [trueMarker, { x: distribution.averageSignificantLift, label: 'Mean', color: '#10b981' }]
+              : [trueMarker]}
+          />
+        </div>
+
+        <div className="text-sm text-muted-foreground">
+          {distribution.exaggerationRatio === null
+            ? 'With no true effect every significant run is a false positive, so type M and type S errors are undefined; the p-values should be roughly uniform.'
+            : 'Under a true effect, p-values pile up near zero as power grows. The lift histograms share one axis: the significant runs are the tail of the full distribution beyond the significance threshold.'}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
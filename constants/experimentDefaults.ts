@@ -1,4 +1,6 @@
 import { ExperimentConfig } from '../types/experiment';
+import { BanditPolicy, EffectDynamics, RevenueEffectTarget, RevenueTestMethod, SpendDistribution, StoppingRule } from '../types/simulation';
+import { MultipleComparisonCorrection, SequentialMethod, SpendingFunction, TwoProportionTest } from '../types/statistics';
 
 export const DEFAULT_EXPERIMENT_CONFIG: ExperimentConfig = {
   name: '',
@@ -31,9 +33,15 @@ export const DEFAULT_EXPERIMENT_CONFIG: ExperimentConfig = {
   estimatedDuration: 14,
   segmentation: {
     enabled: false,
-    segments: []
+    // Allocation drifting in opposite directions on two platforms with very different baselines:
+    // both improve by 5%, yet the pooled comparison shows treatment losing
+    segments: [
+      { id: 'desktop', name: 'Desktop', trafficShare: 40, baselineRate: 8, lift: 5, treatmentShare: 50, finalTreatmentShare: 35 },
+      { id: 'mobile', name: 'Mobile', trafficShare: 60, baselineRate: 2, lift: 5, treatmentShare: 50, finalTreatmentShare: 65 }
+    ]
   },
-  successCriteria: ''
+  successCriteria: '',
+  multipleComparisonCorrection: 'bonferroni'
 };
 
 export const PRIMARY_METRICS = [
@@ -54,4 +62,80 @@ export const SIGNIFICANCE_OPTIONS = [
   { value: 90, label: '90%' },
   { value: 95, label: '95%' },
   { value: 99, label: '99%' }
-];
\ No newline at end of file
+];
+
+export const MULTIPLE_COMPARISON_OPTIONS: Array<{ value: MultipleComparisonCorrection; label: string }> = [
+  { value: 'bonferroni', label: 'Bonferroni' },
+  { value: 'holm', label: 'Holm (step-down)' },
+  { value: 'hochberg', label: 'Hochberg (step-up)' },
+  { value: 'sidak', label: 'Šidák' },
+  { value: 'dunnett', label: 'Dunnett (many-to-one)' },
+  { value: 'benjamini-hochberg', label: 'Benjamini–Hochberg (FDR)' }
+];
+
+export const PROPORTION_TEST_OPTIONS: Array<{ value: TwoProportionTest; label: string }> = [
+  { value: 'z-test', label: 'Two-proportion z-test' },
+  { value: 'fisher', label: "Fisher's exact test" },
+  { value: 'barnard', label: "Barnard's exact test" },
+  { value: 'boschloo', label: "Boschloo's exact test" }
+];
+
+export const SPENDING_FUNCTION_OPTIONS: Array<{ value: SpendingFunction; label: string; defaultParameter: number }> = [
+  { value: 'obrien-fleming', label: "O'Brien-Fleming type", defaultParameter: 0 },
+  { value: 'pocock', label: 'Pocock type', defaultParameter: 0 },
+  { value: 'hwang-shih-decani', label: 'Hwang–Shih–DeCani (γ)', defaultParameter: -4 },
+  { value: 'kim-demets', label: 'Kim–DeMets power (ρ)', defaultParameter: 3 }
+];
+
+export const SEQUENTIAL_METHOD_OPTIONS: Array<{ value: SequentialMethod; label: string }> = [
+  { value: 'group-sequential', label: 'Group sequential (planned looks)' },
+  { value: 'always-valid', label: 'Always valid (mSPRT, peek anytime)' },
+  { value: 'wald-sprt', label: "Wald's SPRT (conversions)" }
+];
+
+export const EFFECT_DYNAMICS_OPTIONS: Array<{ value: EffectDynamics; label: string }> = [
+  { value: 'constant', label: 'Constant' },
+  { value: 'novelty', label: 'Novelty (decaying lift)' },
+  { value: 'primacy', label: 'Primacy (growing lift)' }
+];
+
+export const STOPPING_RULE_OPTIONS: Array<{ value: StoppingRule; label: string }> = [
+  { value: 'fixed-horizon', label: 'Fixed horizon (day 30)' },
+  { value: 'naive-peeking', label: 'Naive daily peeking' },
+  { value: 'obrien-fleming', label: "O'Brien-Fleming looks" },
+  { value: 'msprt', label: 'mSPRT (always valid)' },
+  { value: 'expected-loss', label: 'Bayesian expected loss' }
+];
+
+export const BANDIT_POLICY_OPTIONS: Array<{ value: BanditPolicy; label: string }> = [
+  { value: 'thompson', label: 'Thompson sampling' },
+  { value: 'top-two-thompson', label: 'Top-two Thompson sampling' },
+  { value: 'ucb1', label: 'UCB1' },
+  { value: 'epsilon-greedy', label: 'Epsilon-greedy' }
+];
+
+export const SPEND_DISTRIBUTION_OPTIONS: Array<{ value: SpendDistribution; label: string }> = [
+  { value: 'lognormal', label: 'Lognormal' },
+  { value: 'gamma', label: 'Gamma' },
+  { value: 'pareto', label: 'Pareto (heavy tail)' }
+];
+
+export const REVENUE_EFFECT_TARGET_OPTIONS: Array<{ value: RevenueEffectTarget; label: string }> = [
+  { value: 'order-value', label: 'Order value (buyers spend more)' },
+  { value: 'conversion', label: 'Conversion (more users buy)' }
+];
+
+export const REVENUE_TEST_METHOD_OPTIONS: Array<{ value: RevenueTestMethod; label: string }> = [
+  { value: 'welch-t', label: "Welch's t-test" },
+  { value: 'mann-whitney', label: 'Mann–Whitney U' },
+  { value: 'winsorized-t', label: 'Winsorized t-test' },
+  { value: 'bootstrap', label: 'Bootstrap (percentile)' }
+];
+
+export const SRM_THRESHOLD_OPTIONS = [
+  { value: 0.0001, label: 'p < 0.0001' },
+  { value: 0.001, label: 'p < 0.001 (recommended)' },
+  { value: 0.01, label: 'p < 0.01' }
+];
+
+export const VARIANT_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ef4444', '#06b6d4'];
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { MultipleComparisonCorrection } from './statistics';
+
 export interface ExperimentVariant {
   id: string;
   name: string;
@@ -7,6 +9,18 @@ export interface ExperimentVariant {
   isControl: boolean;
 }
 
+// A user segment with its own traffic, baseline and lift; the treatment share moves linearly from
+// treatmentShare on the first day to finalTreatmentShare on the last (equal for a fixed allocation)
+export interface ExperimentSegment {
+  id: string;
+  name: string;
+  trafficShare: number;
+  baselineRate: number;
+  lift: number;
+  treatmentShare: number;
+  finalTreatmentShare: number;
+}
+
 export interface ExperimentConfig {
   name: string;
   description: string;
@@ -21,9 +35,24 @@ export interface ExperimentConfig {
   estimatedDuration: number;
   segmentation: {
     enabled: boolean;
-    segments: string[];
+    segments: ExperimentSegment[];
   };
   successCriteria: string;
+  multipleComparisonCorrection: MultipleComparisonCorrection;
+}
+
+export interface ComparisonAlpha {
+  id: string;
+  variantId: string;
+  variantName: string;
+  metric: string;
+  adjustedAlpha: number;
+}
+
+export interface CorrectionPenalty {
+  strategy: MultipleComparisonCorrection;
+  totalSampleSize: number;
+  penalty: number;
 }
 
 export interface DesignAnalysis {
@@ -32,5 +61,7 @@ export interface DesignAnalysis {
   expectedDuration: number;
   powerAnalysis: { [key: string]: number };
   multipleComparisonsAdjustment: number;
+  comparisonAlphas: ComparisonAlpha[];
+  correctionPenalties: CorrectionPenalty[];
   estimatedCost: number;
 }
\ No newline at end of file
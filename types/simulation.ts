@@ -0,0 +1,300 @@
+import { ExperimentSegment } from './experiment';
+import { ArmCounts } from './statistics';
+
+// Novelty: the lift starts high and decays; primacy: it starts low and grows as users learn
+export type EffectDynamics = 'constant' | 'novelty' | 'primacy';
+
+export interface SimulationParameters {
+  baselineRate: number;
+  // Long-run relative lift in percent
+  treatmentEffect: number;
+  effectDynamics: EffectDynamics;
+  // Lift on a user's first day of exposure, approaching treatmentEffect with effectHalfLife (days)
+  initialEffect: number;
+  effectHalfLife: number;
+  sampleSizePerVariant: number;
+  numberOfSimulations: number;
+  userBehaviorPattern: string;
+  seasonality: boolean;
+  weekendEffect: number;
+  mixingSD: number;
+}
+
+export interface SimulationResult {
+  day: number;
+  controlConversions: number;
+  treatmentConversions: number;
+  controlRate: number;
+  treatmentRate: number;
+  pValue: number;
+  isSignificant: boolean;
+  alwaysValidPValue: number;
+  cumulativeControlConversions: number;
+  cumulativeTreatmentConversions: number;
+}
+
+export interface SimulationSummary {
+  significantResults: number;
+  averagePValue: number;
+  powerAchieved: number;
+  falsePositiveRate: number;
+  averageEffectSize: number;
+  peekingRejectionRate: number;
+  alwaysValidRejectionRate: number;
+  results: SimulationResult[];
+}
+
+// Values in [start, end); the last bin also holds its upper edge
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+// Day-30 outcomes across all runs of a batch; lifts are relative, in percent. Type M and type S
+// are undefined without a true effect, and without significant runs.
+export interface SimulationDistribution {
+  pValueHistogram: HistogramBin[];
+  liftHistogram: HistogramBin[];
+  significantLiftHistogram: HistogramBin[];
+  // Visitor-weighted average of the daily lift, i.e. what the day-30 estimate targets
+  trueLift: number;
+  averageLift: number;
+  averageSignificantLift: number | null;
+  // Mean |estimate| of significant runs over |true lift|
+  exaggerationRatio: number | null;
+  // Percent of significant runs whose estimate has the wrong sign
+  signErrorRate: number | null;
+}
+
+// Everything needed to replay a simulation; the summary is kept so a replay can be checked against it
+export interface SimulationRunDescriptor {
+  version: number;
+  seed: number;
+  parameters: SimulationParameters;
+  summary?: SimulationSummary;
+}
+
+export type RunDescriptorParseResult =
+  | { descriptor: SimulationRunDescriptor; error: null }
+  | { descriptor: null; error: string };
+
+// A finished batch with the parameters it ran under, so its labels survive later edits to the form
+export interface CompletedSimulation<T> {
+  parameters: SimulationParameters;
+  summary: T;
+}
+
+export interface AgentSimulationSettings {
+  populationSize: number;
+  meanVisitsPerWeek: number;
+  // Gamma shape of visit rates across people; smaller means a few heavy users and many light ones
+  visitFrequencyShape: number;
+  // Beta concentration of per-visit conversion propensities; smaller means more heterogeneous people
+  propensityConcentration: number;
+  // Percent chance, on each day a person visits, that they arrive with a fresh cookie
+  cookieChurnRate: number;
+}
+
+// One agent-based experiment analysed twice: visits as independent trials and cookies as units
+export interface AgentRunResult {
+  visitLevelPValue: number;
+  userLevelPValue: number;
+  designEffect: number;
+  // Relative lift in percent applied to treatment visits, averaged over those visits; with novelty
+  // or primacy it differs from the long-run effect because cookies are at different exposure ages
+  averageTreatmentLift: number;
+  visits: number;
+  cookies: number;
+  people: number;
+  returningVisitShare: number;
+  contaminatedShare: number;
+}
+
+// Rates and shares in percent
+export interface AgentSimulationSummary {
+  visitLevelFalsePositiveRate: number;
+  userLevelFalsePositiveRate: number;
+  visitLevelPower: number;
+  userLevelPower: number;
+  averageDesignEffect: number;
+  // Lift treatment visits actually received under H1, in percent
+  averageTreatmentLift: number;
+  averageVisits: number;
+  cookiesPerPerson: number;
+  returningVisitShare: number;
+  contaminatedShare: number;
+}
+
+// Totals of one experiment split by segment, with the segments summed into the pooled analysis
+export interface SegmentRunResult {
+  segments: ArmCounts[];
+  pooled: ArmCounts;
+}
+
+// Rates, shares and lifts in percent; expected values come from the configured rates and
+// allocation without sampling noise, the rest are averages over the simulated runs
+export interface SegmentComparison {
+  name: string;
+  trafficShare: number;
+  treatmentShare: number;
+  expectedControlRate: number;
+  expectedTreatmentRate: number;
+  expectedLift: number;
+  averageLift: number;
+  significantRate: number;
+}
+
+export interface SegmentSimulationSummary {
+  segments: SegmentComparison[];
+  pooled: SegmentComparison;
+  // Lift of traffic-share-weighted treatment over control rates, as a stratified analysis estimates it
+  expectedStratifiedLift: number;
+  averageStratifiedLift: number;
+  // The expected pooled lift points the other way from every segment's lift
+  isSimpsonsParadox: boolean;
+  // Share of runs whose observed pooled lift contradicts the sign shared by all observed segment lifts
+  reversalRate: number;
+  // Share of runs with a significant pooled result in the opposite direction to every configured lift
+  misleadingSignificantRate: number;
+}
+
+export type SpendDistribution = 'lognormal' | 'gamma' | 'pareto';
+
+// Whether the treatment effect raises the share of users who buy or how much buyers spend
+export type RevenueEffectTarget = 'order-value' | 'conversion';
+
+export type RevenueTestMethod = 'welch-t' | 'mann-whitney' | 'winsorized-t' | 'bootstrap';
+
+// Revenue per user is zero for non-buyers and an order value for buyers; the baseline rate is
+// the buying probability and the treatment effect the relative lift in mean revenue per user
+export interface RevenueSimulationSettings {
+  spendDistribution: SpendDistribution;
+  meanOrderValue: number;
+  // Lognormal sigma, gamma shape or Pareto tail index
+  spendShape: number;
+  effectTarget: RevenueEffectTarget;
+  // Percent of buyers whose order is multiplied by whaleMultiplier, in both arms alike
+  whaleRate: number;
+  whaleMultiplier: number;
+  // Order values above this pooled percentile of buyers' orders are capped for the winsorized t-test
+  winsorizePercentile: number;
+  bootstrapResamples: number;
+}
+
+export interface RevenueRunResult {
+  pValues: Record<RevenueTestMethod, number>;
+  // Share of all revenue that came from whale orders
+  whaleRevenueShare: number;
+}
+
+// Rates in percent
+export interface RevenueMethodOutcome {
+  method: RevenueTestMethod;
+  falsePositiveRate: number;
+  power: number;
+}
+
+export interface RevenueSimulationSummary {
+  outcomes: RevenueMethodOutcome[];
+  whaleRevenueShare: number;
+}
+
+// What a worker computes for each simulation index
+export type SimulationTask =
+  | { kind: 'daily'; parameters: SimulationParameters }
+  | { kind: 'agent-based'; parameters: SimulationParameters; agents: AgentSimulationSettings }
+  | { kind: 'segments'; parameters: SimulationParameters; segments: ExperimentSegment[] }
+  | { kind: 'revenue'; parameters: SimulationParameters; revenue: RevenueSimulationSettings };
+
+// Work unit sent to a simulation worker: simulations startIndex .. startIndex + count - 1
+export interface SimulationChunkRequest {
+  jobId: number;
+  task: SimulationTask;
+  seed: number;
+  startIndex: number;
+  count: number;
+}
+
+export interface SimulationChunkResponse<T> {
+  jobId: number;
+  startIndex: number;
+  results: T[];
+}
+
+export interface SimulationPool {
+  // Resolves with one result per simulation in index order, or null if the run was cancelled.
+  // T is SimulationResult[] for daily tasks, AgentRunResult for agent-based ones, SegmentRunResult
+  // for segmented ones and RevenueRunResult for revenue ones.
+  run: <T>(task: SimulationTask, seed: number, onProgress: (completed: number) => void) => Promise<T[] | null>;
+  cancel: () => void;
+  terminate: () => void;
+}
+
+export type StoppingRule = 'fixed-horizon' | 'naive-peeking' | 'obrien-fleming' | 'msprt' | 'expected-loss';
+
+export interface StoppingRuleSettings {
+  groupSequentialLooks: number;
+  // Expected loss, in percentage points of conversion rate, below which the Bayesian rule ships an arm
+  lossThreshold: number;
+}
+
+// Where one simulated experiment stopped under a rule and what it concluded
+// declaredWinner is a rejection of H0 in favour of treatment for the expected-loss rule and in either
+// direction for the others; shippedArm is set whenever a rule stops with a decision, including
+// expected loss shipping control
+export interface StoppingDecision {
+  day: number;
+  declaredWinner: boolean;
+  shippedArm: 'control' | 'treatment' | null;
+  estimatedLift: number;
+}
+
+// Rates in percent; lifts are relative, in percent
+export interface StoppingRuleOutcome {
+  rule: StoppingRule;
+  falsePositiveRate: number;
+  power: number;
+  // Share of H1 experiments that shipped the worse arm
+  wrongDirectionRate: number;
+  averageStoppingDayH0: number;
+  averageStoppingDayH1: number;
+  averageLiftH1: number;
+  bias: number;
+  significantBias: number | null;
+}
+
+export type BanditPolicy = 'thompson' | 'top-two-thompson' | 'ucb1' | 'epsilon-greedy';
+
+export interface BanditArm {
+  id: string;
+  name: string;
+  trueRate: number;
+}
+
+export interface BanditSettings {
+  policy: BanditPolicy;
+  days: number;
+  dailyVisitors: number;
+  epsilon: number;
+  topTwoProbability: number;
+}
+
+export interface BanditRun {
+  visitorsByDay: number[][];
+  conversionsByDay: number[][];
+  chosenBestArm: number;
+  fixedChosenBestArm: number;
+}
+
+export interface BanditSimulationSummary {
+  policy: BanditPolicy;
+  runs: number;
+  bestArm: number;
+  regretPath: Array<{ day: number; bandit: number; fixed: number }>;
+  allocationPath: Array<{ day: number; shares: number[] }>;
+  probabilityCorrectBest: number;
+  fixedProbabilityCorrectBest: number;
+  expectedConversions: number;
+  fixedExpectedConversions: number;
+}
@@ -0,0 +1,252 @@
+export interface SampleSummary {
+  mean: number;
+  standardDeviation: number;
+  n: number;
+}
+
+export interface WelchTTestResult {
+  isSignificant: boolean;
+  pValue: number;
+  tStatistic: number;
+  degreesOfFreedom: number;
+  standardError: number;
+  meanA: number;
+  meanB: number;
+  absoluteDifference: number;
+  absoluteConfidenceInterval: [number, number];
+  relativeDifference: number;
+  relativeConfidenceInterval: [number, number];
+}
+
+export interface RatioMetricSummary {
+  n: number;
+  numeratorMean: number;
+  denominatorMean: number;
+  numeratorVariance: number;
+  denominatorVariance: number;
+  covariance: number;
+}
+
+export interface RatioMetricTestResult {
+  isSignificant: boolean;
+  pValue: number;
+  zScore: number;
+  ratioA: number;
+  ratioB: number;
+  standardError: number;
+  absoluteDifference: number;
+  absoluteConfidenceInterval: [number, number];
+  relativeDifference: number;
+  relativeConfidenceInterval: [number, number];
+  designEffect: number;
+}
+
+export interface PrePostObservation {
+  pre: number;
+  post: number;
+}
+
+export interface CupedResult {
+  theta: number;
+  correlation: number;
+  varianceReduction: number;
+  adjusted: WelchTTestResult;
+  unadjusted: WelchTTestResult;
+}
+
+export interface VariantObservation {
+  id: string;
+  name: string;
+  visitors: number;
+  conversions: number;
+}
+
+export interface BetaParameters {
+  alpha: number;
+  beta: number;
+}
+
+export interface BayesianArmResult {
+  id: string;
+  name: string;
+  posterior: BetaParameters;
+  posteriorMean: number;
+  credibleInterval: [number, number];
+  probabilityToBeatControl: number;
+  probabilityToBeBest: number;
+  expectedLoss: number;
+  relativeLiftCredibleInterval: [number, number];
+}
+
+export type MultipleComparisonCorrection =
+  | 'bonferroni'
+  | 'holm'
+  | 'hochberg'
+  | 'sidak'
+  | 'dunnett'
+  | 'benjamini-hochberg';
+
+export type TwoProportionTest = 'z-test' | 'fisher' | 'barnard' | 'boschloo';
+
+export interface ChiSquareTestResult {
+  statistic: number;
+  degreesOfFreedom: number;
+  pValue: number;
+}
+
+export interface SampleRatioMismatchResult extends ChiSquareTestResult {
+  expectedVisitors: number[];
+  observedShares: number[];
+  isMismatch: boolean;
+}
+
+export interface DailySampleRatioPoint {
+  day: number;
+  dailyPValue: number;
+  cumulativePValue: number;
+  isMismatch: boolean;
+}
+
+export interface PairwiseComparison {
+  id: string;
+  name: string;
+  conversionRate: number;
+  controlRate: number;
+  absoluteDifference: number;
+  relativeDifference: number;
+  zScore: number;
+  pValue: number;
+  adjustedPValue: number;
+  simultaneousConfidenceInterval: [number, number];
+  isSignificant: boolean;
+}
+
+export type SpendingFunction = 'obrien-fleming' | 'pocock' | 'hwang-shih-decani' | 'kim-demets';
+
+export interface GroupSequentialLook {
+  informationFraction: number;
+  efficacyBound: number;
+  futilityBound: number | null;
+  nominalAlpha: number;
+  cumulativeAlphaSpent: number;
+  cumulativeBetaSpent: number | null;
+}
+
+export interface InterimLook {
+  id: string;
+  date: string;
+  controlVisitors: number;
+  controlConversions: number;
+  treatmentVisitors: number;
+  treatmentConversions: number;
+  recordedAt: string;
+}
+
+export type SequentialDecision = 'continue' | 'stop_success' | 'stop_futility' | 'stop_harm';
+
+export interface InterimDecision {
+  lookId: string;
+  date: string;
+  sampleSize: number;
+  informationFraction: number;
+  zScore: number;
+  efficacyBound: number;
+  futilityBound: number | null;
+  decision: SequentialDecision;
+  isAfterStop: boolean;
+}
+
+export type SequentialMethod = 'group-sequential' | 'always-valid' | 'wald-sprt';
+
+export interface DifferenceEstimate {
+  estimate: number;
+  variance: number;
+}
+
+export interface AlwaysValidPoint {
+  step: number;
+  estimate: number;
+  likelihoodRatio: number;
+  pValue: number;
+  confidenceSequence: [number, number];
+  isSignificant: boolean;
+}
+
+export interface SprtDesign {
+  nullProbability: number;
+  alternativeProbability: number;
+  slope: number;
+  acceptIntercept: number;
+  rejectIntercept: number;
+}
+
+export interface SprtOperatingPoint {
+  successProbability: number;
+  acceptProbability: number;
+  expectedSampleSize: number;
+}
+
+// A mid-trial increase of the maximum sample size, made at the look `lookId`
+export interface SampleSizeAdaptation {
+  lookId: string;
+  originalMaxSampleSize: number;
+  newMaxSampleSize: number;
+}
+
+export interface LookStatistic {
+  informationFraction: number;
+  zScore: number;
+}
+
+export type PromisingZone = 'unfavorable' | 'promising' | 'favorable';
+
+export interface SampleSizeReestimation {
+  zone: PromisingZone;
+  conditionalPower: number;
+  requiredSampleSize: number;
+  recommendedSampleSize: number;
+  conditionalPowerAtRecommended: number;
+  isCapped: boolean;
+}
+
+// Inference after a group-sequential stop, on the drift scale (expected Z at full information)
+export interface StagewiseInference {
+  pValue: number;
+  medianUnbiasedDrift: number;
+  driftInterval: [number, number];
+}
+
+export interface ArmCounts {
+  controlVisitors: number;
+  controlConversions: number;
+  treatmentVisitors: number;
+  treatmentConversions: number;
+}
+
+export interface DailyArmCounts extends ArmCounts {
+  day: number;
+}
+
+// Relative lift of treatment over control, in percent
+export interface LiftEstimate {
+  lift: number;
+  standardError: number;
+  confidenceInterval: [number, number];
+}
+
+export type LiftTrendPattern = 'novelty' | 'primacy' | 'stable';
+
+export interface LiftTrendResult {
+  points: Array<{ day: number; lift: number; standardError: number; fitted: number }>;
+  // Change in lift, in percentage points per day
+  slope: number;
+  slopeStandardError: number;
+  pValue: number;
+  pattern: LiftTrendPattern;
+}
+
+export interface SegmentLiftTrend {
+  segment: 'all' | 'new' | 'returning';
+  overall: LiftEstimate;
+  trend: LiftTrendResult | null;
+}
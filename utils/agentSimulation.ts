@@ -0,0 +1,123 @@
+import { AgentRunResult, AgentSimulationSettings, AgentSimulationSummary, SimulationParameters } from '../types/simulation';
+import { pooledZScore } from './hypothesisTests';
+import { normalCDF } from './statisticalCalculations';
+import { ratioMetricTest, summarizeRatioRows } from './ratioMetrics';
+import { betaRandom, binomialRandom, createSeededRandom, deriveSeed, gammaRandom, poissonRandom, UniformRandom } from './randomVariates';
+import { getTreatmentEffect, SIGNIFICANCE_LEVEL, SIMULATION_DAYS } from './virtualUsers';
+
+// A population of people visiting over the test window. Each person has their own visit rate and
+// conversion propensity; the analyst only sees cookies, and a cookie reset makes the same person a
+// new, re-randomized unit. Time-varying effects follow each cookie's own exposure age, so novelty
+// fades for returning users while every new cookie sees the initial lift.
+export const simulateAgentRun = (
+  parameters: SimulationParameters,
+  settings: AgentSimulationSettings,
+  random: UniformRandom = Math.random
+): AgentRunResult => {
+  const baseline = parameters.baselineRate / 100;
+  const dailyVisitRate = settings.meanVisitsPerWeek / 7;
+  const kappa = settings.propensityConcentration;
+  const churn = settings.cookieChurnRate / 100;
+
+  const visitRates = Array.from({ length: settings.populationSize }, () => (
+    (gammaRandom(settings.visitFrequencyShape, random) / settings.visitFrequencyShape) * dailyVisitRate
+  ));
+  const propensities = Array.from({ length: settings.populationSize }, () => (
+    betaRandom(baseline * kappa, (1 - baseline) * kappa, random)
+  ));
+
+  // Current cookie per person (-1 before their first visit) and the arms each person has seen
+  const currentCookie = new Array<number>(settings.populationSize).fill(-1);
+  const armsSeen = new Array<number>(settings.populationSize).fill(0);
+  const cookieArm: number[] = [];
+  const cookieFirstDay: number[] = [];
+  const cookieVisits: number[] = [];
+  const cookieConversions: number[] = [];
+  let returningVisits = 0;
+  let treatmentLiftSum = 0;
+
+  for (let day = 1; day <= SIMULATION_DAYS; day++) {
+    for (let person = 0; person < settings.populationSize; person++) {
+      const visits = poissonRandom(visitRates[person], random);
+      if (visits === 0) continue;
+
+      let cookie = currentCookie[person];
+      if (cookie < 0 || random() < churn) {
+        cookie = cookieArm.length;
+        cookieArm.push(random() < 0.5 ? 0 : 1);
+        cookieFirstDay.push(day);
+        cookieVisits.push(0);
+        cookieConversions.push(0);
+        currentCookie[person] = cookie;
+      } else {
+        returningVisits += visits;
+      }
+
+      const arm = cookieArm[cookie];
+      armsSeen[person] |= 1 << arm;
+      const lift = arm === 1 ? 1 + getTreatmentEffect(parameters, day - cookieFirstDay[cookie] + 1) / 100 : 1;
+      if (arm === 1) treatmentLiftSum += visits * (lift - 1) * 100;
+      const rate = Math.min(1, propensities[person] * lift);
+      cookieVisits[cookie] += visits;
+      cookieConversions[cookie] += binomialRandom(visits, rate, random);
+    }
+  }
+
+  // Per-cookie (conversions, visits) rows, i.e. what an analyst would pull from the event log
+  const rows: number[][][] = [[], []];
+  cookieArm.forEach((arm, cookie) => rows[arm].push([cookieConversions[cookie], cookieVisits[cookie]]));
+  const [control, treatment] = rows.map(summarizeRatioRows);
+
+  // The common mistake: every visit treated as an independent Bernoulli trial
+  const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+  const controlVisits = sum(rows[0].map(row => row[1]));
+  const treatmentVisits = sum(rows[1].map(row => row[1]));
+  const z = pooledZScore(sum(rows[0].map(row => row[0])), controlVisits, sum(rows[1].map(row => row[0])), treatmentVisits);
+  const userLevel = control.n > 1 && treatment.n > 1 ? ratioMetricTest(control, treatment, SIGNIFICANCE_LEVEL) : null;
+
+  const people = armsSeen.filter(mask => mask !== 0).length;
+  const visits = controlVisits + treatmentVisits;
+  return {
+    visitLevelPValue: 2 * normalCDF(-Math.abs(z)),
+    userLevelPValue: userLevel ? userLevel.pValue : 1,
+    designEffect: userLevel ? userLevel.designEffect : 1,
+    averageTreatmentLift: treatmentVisits > 0 ? treatmentLiftSum / treatmentVisits : 0,
+    visits,
+    cookies: cookieArm.length,
+    people,
+    returningVisitShare: visits > 0 ? returningVisits / visits : 0,
+    contaminatedShare: people > 0 ? armsSeen.filter(mask => mask === 3).length / people : 0
+  };
+};
+
+export const simulateAgentRuns = (
+  parameters: SimulationParameters,
+  settings: AgentSimulationSettings,
+  seed: number,
+  startIndex: number,
+  count: number
+): AgentRunResult[] => {
+  return Array.from({ length: count }, (_, i) => (
+    simulateAgentRun(parameters, settings, createSeededRandom(deriveSeed(seed, startIndex + i)))
+  ));
+};
+
+const average = (values: number[]): number => values.reduce((sum, v) => sum + v, 0) / Math.max(values.length, 1);
+
+const rejectionRate = (runs: AgentRunResult[], pValue: (run: AgentRunResult) => number): number => {
+  return (runs.filter(run => pValue(run) < SIGNIFICANCE_LEVEL).length / Math.max(runs.length, 1)) * 100;
+};
+
+// H0 runs give each analysis' false positive rate, H1 runs its power
+export const summarizeAgentRuns = (nullRuns: AgentRunResult[], alternativeRuns: AgentRunResult[]): AgentSimulationSummary => ({
+  visitLevelFalsePositiveRate: rejectionRate(nullRuns, run => run.visitLevelPValue),
+  userLevelFalsePositiveRate: rejectionRate(nullRuns, run => run.userLevelPValue),
+  visitLevelPower: rejectionRate(alternativeRuns, run => run.visitLevelPValue),
+  userLevelPower: rejectionRate(alternativeRuns, run => run.userLevelPValue),
+  averageDesignEffect: average(nullRuns.map(run => run.designEffect)),
+  averageTreatmentLift: average(alternativeRuns.map(run => run.averageTreatmentLift)),
+  averageVisits: average(nullRuns.map(run => run.visits)),
+  cookiesPerPerson: average(nullRuns.map(run => (run.people > 0 ? run.cookies / run.people : 0))),
+  returningVisitShare: average(nullRuns.map(run => run.returningVisitShare)) * 100,
+  contaminatedShare: average(nullRuns.map(run => run.contaminatedShare)) * 100
+});
@@ -0,0 +1,59 @@
+import { AlwaysValidPoint, DifferenceEstimate, SampleSummary } from '../types/statistics';
+
+// Normal-mixture SPRT (Johari et al.): the likelihood ratio for an observed difference with
+// variance V, averaged over a N(0, τ²) prior on the true difference. Under H0 it is a
+// martingale, so by Ville's inequality P(it ever exceeds 1/α) ≤ α no matter how often we look.
+export const mixtureLikelihoodRatio = (estimate: number, variance: number, mixingVariance: number): number => {
+  if (variance <= 0 || mixingVariance <= 0) return 1;
+  const total = variance + mixingVariance;
+  return Math.sqrt(variance / total) * Math.exp((estimate * estimate * mixingVariance) / (2 * variance * total));
+};
+
+// Half-width of the confidence sequence: every difference whose mixture ratio stays below 1/α
+export const confidenceSequenceHalfWidth = (variance: number, mixingVariance: number, alpha: number): number => {
+  if (variance <= 0 || mixingVariance <= 0) return Infinity;
+  const total = variance + mixingVariance;
+  return Math.sqrt((variance * total / mixingVariance) * (Math.log(total / variance) - 2 * Math.log(alpha)));
+};
+
+// Always-valid p-values and confidence sequences over a series of looks. The p-value is the
+// running minimum of 1/Λ and the interval the running intersection, so both are valid at
+// whichever look the experimenter chooses to act on.
+export const alwaysValidSequence = (
+  observations: DifferenceEstimate[],
+  mixingVariance: number,
+  alpha: number
+): AlwaysValidPoint[] => {
+  let pValue = 1;
+  let lower = -Infinity;
+  let upper = Infinity;
+
+  return observations.map((observation, index) => {
+    const likelihoodRatio = mixtureLikelihoodRatio(observation.estimate, observation.variance, mixingVariance);
+    const halfWidth = confidenceSequenceHalfWidth(observation.variance, mixingVariance, alpha);
+    pValue = Math.min(pValue, 1 / likelihoodRatio);
+    lower = Math.max(lower, observation.estimate - halfWidth);
+    upper = Math.min(upper, observation.estimate + halfWidth);
+
+    return {
+      step: index + 1,
+      estimate: observation.estimate,
+      likelihoodRatio,
+      pValue,
+      confidenceSequence: [lower, upper],
+      isSignificant: pValue < alpha
+    };
+  });
+};
+
+// Difference in conversion rates with the unpooled plug-in variance
+export const binomialDifference = (x1: number, n1: number, x2: number, n2: number): DifferenceEstimate => {
+  const p1 = x1 / n1;
+  const p2 = x2 / n2;
+  return { estimate: p2 - p1, variance: p1 * (1 - p1) / n1 + p2 * (1 - p2) / n2 };
+};
+
+export const meanDifference = (control: SampleSummary, treatment: SampleSummary): DifferenceEstimate => ({
+  estimate: treatment.mean - control.mean,
+  variance: control.standardDeviation ** 2 / control.n + treatment.standardDeviation ** 2 / treatment.n
+});
@@ -0,0 +1,163 @@
+import { BanditRun, BanditSettings, BanditSimulationSummary } from '../types/simulation';
+import { betaRandom, binomialRandom, UniformRandom } from './randomVariates';
+
+// Posterior draws per day used to turn Thompson sampling into allocation shares
+const THOMPSON_DRAWS = 200;
+// Redraws allowed when top-two Thompson looks for a challenger that differs from the leader;
+// after that the runner-up of the leader's own draw stands in
+const TOP_TWO_ATTEMPTS = 10;
+
+const argmax = (values: number[]): number => {
+  return values.reduce((best, value, i) => (value > values[best] ? i : best), 0);
+};
+
+// Posterior mean under a uniform Beta(1, 1) prior; used to name the winner at the end
+const posteriorMean = (conversions: number, visitors: number): number => (conversions + 1) / (visitors + 2);
+
+// Whole-visitor counts proportional to `shares`, by largest remainder
+const apportion = (shares: number[], total: number): number[] => {
+  const sum = shares.reduce((s, v) => s + v, 0);
+  const exact = shares.map(share => (share / sum) * total);
+  const counts = exact.map(Math.floor);
+  let remaining = total - counts.reduce((s, v) => s + v, 0);
+  const order = exact.map((_, i) => i).sort((a, b) => (exact[b] - counts[b]) - (exact[a] - counts[a]));
+  for (let i = 0; remaining > 0; i = (i + 1) % order.length, remaining--) counts[order[i]]++;
+  return counts;
+};
+
+const drawPosterior = (visitors: number[], conversions: number[], random: UniformRandom): number[] => {
+  return visitors.map((n, i) => betaRandom(1 + conversions[i], 1 + n - conversions[i], random));
+};
+
+// Today's visitors per arm. Allocation is decided at the start of the day from the data so
+// far, as a production bandit with a daily model refresh would.
+export const getBanditAllocation = (
+  visitors: number[],
+  conversions: number[],
+  settings: BanditSettings,
+  random: UniformRandom = Math.random
+): number[] => {
+  const arms = visitors.length;
+  const total = settings.dailyVisitors;
+
+  switch (settings.policy) {
+    case 'thompson': {
+      const wins = new Array<number>(arms).fill(0);
+      for (let d = 0; d < THOMPSON_DRAWS; d++) wins[argmax(drawPosterior(visitors, conversions, random))]++;
+      return apportion(wins, total);
+    }
+    case 'top-two-thompson': {
+      // Play the leader with probability β, otherwise the arm that wins a redraw it does not lead
+      const picks = new Array<number>(arms).fill(0);
+      for (let d = 0; d < THOMPSON_DRAWS; d++) {
+        const draw = drawPosterior(visitors, conversions, random);
+        const leader = argmax(draw);
+        let pick = leader;
+        if (random() >= settings.topTwoProbability) {
+          for (let attempt = 0; attempt < TOP_TWO_ATTEMPTS && pick === leader; attempt++) {
+            pick = argmax(drawPosterior(visitors, conversions, random));
+          }
+          if (pick === leader) pick = argmax(draw.map((value, i) => (i === leader ? -Infinity : value)));
+        }
+        picks[pick]++;
+      }
+      return apportion(picks, total);
+    }
+    case 'ucb1': {
+      // Visitors are assigned one at a time with the optimism bonus updated as counts grow,
+      // while the means stay at yesterday's values
+      const counts = new Array<number>(arms).fill(0);
+      const means = visitors.map((n, i) => (n > 0 ? conversions[i] / n : 0));
+      const seen = visitors.reduce((s, n) => s + n, 0);
+      for (let v = 0; v < total; v++) {
+        const pulls = visitors.map((n, i) => n + counts[i]);
+        const unexplored = pulls.findIndex(n => n === 0);
+        const arm = unexplored >= 0
+          ? unexplored
+          : argmax(means.map((mean, i) => mean + Math.sqrt((2 * Math.log(seen + v + 1)) / pulls[i])));
+        counts[arm]++;
+      }
+      return counts;
+    }
+    default: {
+      // Epsilon-greedy: explore uniformly with probability ε, otherwise exploit the best observed rate
+      if (visitors.some(n => n === 0)) return apportion(new Array<number>(arms).fill(1), total);
+      const best = argmax(visitors.map((n, i) => conversions[i] / n));
+      return apportion(visitors.map((_, i) => settings.epsilon / arms + (i === best ? 1 - settings.epsilon : 0)), total);
+    }
+  }
+};
+
+// One bandit run alongside a fixed equal split of the same length and traffic
+export const simulateBanditRun = (
+  trueRates: number[],
+  settings: BanditSettings,
+  random: UniformRandom = Math.random
+): BanditRun => {
+  const arms = trueRates.length;
+  const visitors = new Array<number>(arms).fill(0);
+  const conversions = new Array<number>(arms).fill(0);
+  const visitorsByDay: number[][] = [];
+  const conversionsByDay: number[][] = [];
+
+  for (let day = 0; day < settings.days; day++) {
+    const allocation = getBanditAllocation(visitors, conversions, settings, random);
+    const converted = allocation.map((n, i) => binomialRandom(n, trueRates[i], random));
+    allocation.forEach((n, i) => {
+      visitors[i] += n;
+      conversions[i] += converted[i];
+    });
+    visitorsByDay.push(allocation);
+    conversionsByDay.push(converted);
+  }
+
+  const fixedVisitors = apportion(new Array<number>(arms).fill(1), settings.days * settings.dailyVisitors);
+  const fixedConversions = fixedVisitors.map((n, i) => binomialRandom(n, trueRates[i], random));
+
+  return {
+    visitorsByDay,
+    conversionsByDay,
+    chosenBestArm: argmax(visitors.map((n, i) => posteriorMean(conversions[i], n))),
+    fixedChosenBestArm: argmax(fixedVisitors.map((n, i) => posteriorMean(fixedConversions[i], n)))
+  };
+};
+
+// Regret is expected conversions given up against always serving the best arm, so it
+// measures the allocation rather than the luck of the draw
+export const summarizeBanditRuns = (
+  runs: BanditRun[],
+  trueRates: number[],
+  settings: BanditSettings
+): BanditSimulationSummary => {
+  const bestArm = argmax(trueRates);
+  const bestRate = trueRates[bestArm];
+  const meanRate = trueRates.reduce((s, p) => s + p, 0) / trueRates.length;
+  const count = Math.max(runs.length, 1);
+
+  let cumulativeRegret = 0;
+  const regretPath = Array.from({ length: settings.days }, (_, day) => {
+    const dayRegret = runs.reduce((sum, run) => sum + run.visitorsByDay[day].reduce(
+      (s, n, i) => s + n * (bestRate - trueRates[i]), 0
+    ), 0) / count;
+    cumulativeRegret += dayRegret;
+    return { day: day + 1, bandit: cumulativeRegret, fixed: (day + 1) * settings.dailyVisitors * (bestRate - meanRate) };
+  });
+
+  const allocationPath = Array.from({ length: settings.days }, (_, day) => ({
+    day: day + 1,
+    shares: trueRates.map((_, i) => runs.reduce((sum, run) => sum + run.visitorsByDay[day][i], 0) / (count * settings.dailyVisitors))
+  }));
+
+  const totalVisitors = settings.days * settings.dailyVisitors;
+  return {
+    policy: settings.policy,
+    runs: runs.length,
+    bestArm,
+    regretPath,
+    allocationPath,
+    probabilityCorrectBest: runs.filter(run => run.chosenBestArm === bestArm).length / count,
+    fixedProbabilityCorrectBest: runs.filter(run => run.fixedChosenBestArm === bestArm).length / count,
+    expectedConversions: totalVisitors * bestRate - cumulativeRegret,
+    fixedExpectedConversions: totalVisitors * meanRate
+  };
+};
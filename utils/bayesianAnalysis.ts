@@ -0,0 +1,157 @@
+import { BayesianArmResult, BetaParameters, VariantObservation } from '../types/statistics';
+import { betaCDF, betaPDF, betaQuantile, integrateSimpson } from './statisticalCalculations';
+
+const TAIL_PROBABILITY = 1e-8;
+const INTEGRATION_INTERVALS = 400;
+
+export const getBetaPosterior = (variant: VariantObservation, prior: BetaParameters): BetaParameters => ({
+  alpha: prior.alpha + variant.conversions,
+  beta: prior.beta + Math.max(0, variant.visitors - variant.conversions)
+});
+
+// Range that holds all but a negligible amount of the posterior mass
+const getSupport = (posterior: BetaParameters): [number, number] => [
+  betaQuantile(TAIL_PROBABILITY, posterior.alpha, posterior.beta),
+  betaQuantile(1 - TAIL_PROBABILITY, posterior.alpha, posterior.beta)
+];
+
+const getJointSupport = (posteriors: BetaParameters[]): [number, number] => {
+  const supports = posteriors.map(getSupport);
+  return [Math.min(...supports.map(s => s[0])), Math.max(...supports.map(s => s[1]))];
+};
+
+// P(θ_treatment > θ_control)
+export const probabilityToBeat = (treatment: BetaParameters, control: BetaParameters): number => {
+  const [lower, upper] = getSupport(control);
+  return integrateSimpson(
+    x => betaPDF(x, control.alpha, control.beta) * (1 - betaCDF(x, treatment.alpha, treatment.beta)),
+    lower,
+    upper,
+    INTEGRATION_INTERVALS
+  );
+};
+
+// P(θ_i = max_j θ_j) for every arm
+export const probabilitiesToBeBest = (posteriors: BetaParameters[]): number[] => {
+  const probabilities = posteriors.map((posterior, i) => {
+    const [lower, upper] = getSupport(posterior);
+    return integrateSimpson(
+      x => posteriors.reduce(
+        (product, other, j) => product * (i === j ? betaPDF(x, other.alpha, other.beta) : betaCDF(x, other.alpha, other.beta)),
+        1
+      ),
+      lower,
+      upper,
+      INTEGRATION_INTERVALS
+    );
+  });
+
+  const total = probabilities.reduce((sum, p) => sum + p, 0);
+  return total > 0 ? probabilities.map(p => p / total) : probabilities;
+};
+
+// E[max_j θ_j - θ_i]: the conversion rate given up, on average, by shipping arm i
+export const expectedLosses = (posteriors: BetaParameters[]): number[] => {
+  const [lower, upper] = getJointSupport(posteriors);
+
+  // E[max] = ∫ P(max > x) dx, and P(max > x) = 1 below the joint support
+  const expectedMaximum = lower + integrateSimpson(
+    x => 1 - posteriors.reduce((product, p) => product * betaCDF(x, p.alpha, p.beta), 1),
+    lower,
+    upper,
+    INTEGRATION_INTERVALS
+  );
+
+  return posteriors.map(p => Math.max(0, expectedMaximum - p.alpha / (p.alpha + p.beta)));
+};
+
+// Equal-tailed credible interval for θ_treatment / θ_control - 1, in percent
+export const relativeLiftCredibleInterval = (
+  treatment: BetaParameters,
+  control: BetaParameters,
+  level: number
+): [number, number] => {
+  const [controlLower, controlUpper] = getSupport(control);
+  const [treatmentLower, treatmentUpper] = getSupport(treatment);
+
+  const ratioCDF = (r: number): number => integrateSimpson(
+    x => betaPDF(x, control.alpha, control.beta) * betaCDF(r * x, treatment.alpha, treatment.beta),
+    controlLower,
+    controlUpper,
+    INTEGRATION_INTERVALS
+  );
+
+  const ratioQuantile = (p: number): number => {
+    let lo = treatmentLower / controlUpper;
+    let hi = treatmentUpper / Math.max(controlLower, 1e-12);
+    for (let i = 0; i < 60; i++) {
+      const mid = (lo + hi) / 2;
+      if (ratioCDF(mid) < p) lo = mid;
+      else hi = mid;
+    }
+    return (lo + hi) / 2;
+  };
+
+  const tail = (1 - level) / 2;
+  return [(ratioQuantile(tail) - 1) * 100, (ratioQuantile(1 - tail) - 1) * 100];
+};
+
+// Posterior densities on a shared grid, keyed by variant id, with rates in percent
+export const getPosteriorDensityCurve = (
+  arms: Array<{ id: string; posterior: BetaParameters }>,
+  points: number = 200
+): Array<{ [key: string]: number }> => {
+  const supports = arms.map(arm => [
+    betaQuantile(1e-4, arm.posterior.alpha, arm.posterior.beta),
+    betaQuantile(1 - 1e-4, arm.posterior.alpha, arm.posterior.beta)
+  ]);
+  const lower = Math.min(...supports.map(s => s[0]));
+  const upper = Math.max(...supports.map(s => s[1]));
+  const step = (upper - lower) / (points - 1);
+
+  const curve = [];
+  for (let i = 0; i < points; i++) {
+    const x = lower + i * step;
+    const point: { [key: string]: number } = { rate: x * 100 };
+    arms.forEach(arm => {
+      // Density per percentage point so the y-axis matches the x-axis units
+      point[arm.id] = betaPDF(x, arm.posterior.alpha, arm.posterior.beta) / 100;
+    });
+    curve.push(point);
+  }
+
+  return curve;
+};
+
+// The first variant is treated as the control
+export const calculateBayesianResults = (
+  variants: VariantObservation[],
+  prior: BetaParameters,
+  credibleLevel: number
+): BayesianArmResult[] => {
+  const posteriors = variants.map(v => getBetaPosterior(v, prior));
+  const control = posteriors[0];
+  const bestProbabilities = probabilitiesToBeBest(posteriors);
+  const losses = expectedLosses(posteriors);
+  const tail = (1 - credibleLevel) / 2;
+
+  return variants.map((variant, i) => {
+    const posterior = posteriors[i];
+    const isControl = i === 0;
+
+    return {
+      id: variant.id,
+      name: variant.name,
+      posterior,
+      posteriorMean: posterior.alpha / (posterior.alpha + posterior.beta),
+      credibleInterval: [
+        betaQuantile(tail, posterior.alpha, posterior.beta),
+        betaQuantile(1 - tail, posterior.alpha, posterior.beta)
+      ],
+      probabilityToBeatControl: isControl ? 0.5 : probabilityToBeat(posterior, control),
+      probabilityToBeBest: bestProbabilities[i],
+      expectedLoss: losses[i],
+      relativeLiftCredibleInterval: isControl ? [0, 0] : relativeLiftCredibleInterval(posterior, control, credibleLevel)
+    };
+  });
+};
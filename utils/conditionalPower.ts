@@ -0,0 +1,71 @@
+import { PromisingZone, SampleSizeReestimation } from '../types/statistics';
+import { normalCDF, normalInverse } from './statisticalCalculations';
+
+// Probability that the final Z clears `criticalValue`, given Z at information fraction t and
+// an assumed drift (expected Z at full information). Interim bounds still ahead are ignored,
+// which is the usual convention and slightly understates the chance of success.
+export const conditionalPower = (zInterim: number, t: number, criticalValue: number, drift: number): number => {
+  if (t >= 1) return zInterim >= criticalValue ? 1 : 0;
+  return 1 - normalCDF((criticalValue - zInterim * Math.sqrt(t) - drift * (1 - t)) / Math.sqrt(1 - t));
+};
+
+// Drift implied by the data so far: the effect keeps going as observed
+export const currentTrendDrift = (zInterim: number, t: number): number => t > 0 ? zInterim / Math.sqrt(t) : 0;
+
+// Conditional power averaged over the posterior of the drift under a flat prior, N(Z_t/√t, 1/t).
+// After a sample size increase the remaining increments are stretched by `stageTwoScale`.
+export const predictivePower = (zInterim: number, t: number, criticalValue: number, stageTwoScale: number = 1): number => {
+  if (t >= 1) return zInterim >= criticalValue ? 1 : 0;
+  const mean = zInterim * Math.sqrt(t) + stageTwoScale * (1 - t) * zInterim / Math.sqrt(t);
+  const variance = (1 - t) + Math.pow(stageTwoScale * (1 - t), 2) / t;
+  return 1 - normalCDF((criticalValue - mean) / Math.sqrt(variance));
+};
+
+// Mehta–Pocock promising zone. Under the current trend, results whose conditional power lies
+// between `promisingThreshold` and the target get the second stage enlarged to restore the
+// target, up to `sampleSizeCap`. The final analysis uses the CHW weighted statistic
+// √t·Z₁ + √(1-t)·Z₂ with the original weights, so α is preserved whatever size is chosen.
+export const promisingZoneReestimation = (
+  zInterim: number,
+  t: number,
+  criticalValue: number,
+  currentSampleSize: number,
+  plannedSampleSize: number,
+  targetPower: number,
+  promisingThreshold: number,
+  sampleSizeCap: number
+): SampleSizeReestimation => {
+  const drift = currentTrendDrift(zInterim, t);
+  const power = conditionalPower(zInterim, t, criticalValue, drift);
+  const zone: PromisingZone = power >= targetPower ? 'favorable' : power >= promisingThreshold ? 'promising' : 'unfavorable';
+
+  // With the CHW statistic, a second stage of n₂ visitors has mean Z₂ = drift·√(n₂ / N) for planned size N
+  const stageTwoPower = (stageTwoSize: number): number => 1 - normalCDF(
+    (criticalValue - Math.sqrt(t) * zInterim) / Math.sqrt(1 - t) - drift * Math.sqrt(stageTwoSize / plannedSampleSize)
+  );
+  const requiredStageTwo = drift > 0
+    ? plannedSampleSize * Math.pow(((criticalValue - Math.sqrt(t) * zInterim) / Math.sqrt(1 - t) + normalInverse(targetPower)) / drift, 2)
+    : Infinity;
+  const requiredSampleSize = currentSampleSize + requiredStageTwo;
+
+  if (zone !== 'promising' || t >= 1) {
+    return {
+      zone,
+      conditionalPower: power,
+      requiredSampleSize,
+      recommendedSampleSize: plannedSampleSize,
+      conditionalPowerAtRecommended: power,
+      isCapped: false
+    };
+  }
+
+  const recommendedSampleSize = Math.ceil(Math.max(plannedSampleSize, Math.min(requiredSampleSize, sampleSizeCap)));
+  return {
+    zone,
+    conditionalPower: power,
+    requiredSampleSize,
+    recommendedSampleSize,
+    conditionalPowerAtRecommended: stageTwoPower(recommendedSampleSize - currentSampleSize),
+    isCapped: requiredSampleSize > sampleSizeCap
+  };
+};
@@ -0,0 +1,16 @@
+// Accepts values separated by newlines, commas, semicolons or whitespace
+export const parseNumericValues = (text: string): number[] => {
+  return text
+    .split(/[\s,;]+/)
+    .filter(token => token.length > 0)
+    .map(Number)
+    .filter(value => isFinite(value));
+};
+
+// One row per non-empty line, e.g. daily counts with one column per variant
+export const parseNumericRows = (text: string): number[][] => {
+  return text
+    .split(/\r?\n/)
+    .map(line => parseNumericValues(line))
+    .filter(row => row.length > 0);
+};
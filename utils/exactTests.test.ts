@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { fisherExactTest, minimumExpectedCellCount, unconditionalExactTest } from './exactTests';
+
+describe('fisherExactTest', () => {
+  it("matches R's fisher.test", () => {
+    // Fisher's tea tasting: 3 of 4 and 1 of 4, p = 34/70
+    expect(fisherExactTest(3, 4, 1, 4)).toBeCloseTo(34 / 70, 12);
+    expect(fisherExactTest(1, 12, 9, 12)).toBeCloseTo(0.002759456, 9);
+  });
+
+  it('gives p = 1 for identical arms', () => {
+    expect(fisherExactTest(5, 20, 5, 20)).toBeCloseTo(1, 12);
+  });
+});
+
+describe('unconditionalExactTest', () => {
+  // Chan's (1998) vaccine trial, 7 of 15 against 12 of 15; the one-sided Barnard p is 0.0341 and
+  // equal arms make the two-sided region symmetric, so the two-sided p is twice that
+  it('matches the published Barnard p-value', () => {
+    expect(unconditionalExactTest(7, 15, 12, 15, 'barnard')).toBeCloseTo(0.068218, 5);
+  });
+
+  it('is never less powerful than Fisher', () => {
+    const fisher = fisherExactTest(7, 15, 12, 15);
+    expect(fisher).toBeCloseTo(0.128136, 6);
+    expect(unconditionalExactTest(7, 15, 12, 15, 'boschloo')).toBeLessThanOrEqual(fisher);
+    expect(unconditionalExactTest(3, 12, 8, 10, 'boschloo')).toBeLessThanOrEqual(fisherExactTest(3, 12, 8, 10));
+  });
+});
+
+describe('minimumExpectedCellCount', () => {
+  it('finds the smallest expected count of the 2 x 2 table', () => {
+    expect(minimumExpectedCellCount(3, 4, 1, 4)).toBe(2);
+    expect(minimumExpectedCellCount(10, 1000, 20, 1000)).toBe(15);
+  });
+});
@@ -0,0 +1,142 @@
+import { logGamma } from './statisticalCalculations';
+import { pooledZScore } from './hypothesisTests';
+
+// Unconditional tests enumerate every (n1 + 1) x (n2 + 1) table, so they are limited to small samples
+export const MAX_UNCONDITIONAL_TABLES = 250000;
+
+// Relative tolerance when comparing probabilities of tables, so ties are not lost to rounding
+const TIE_TOLERANCE = 1e-7;
+
+const getLogFactorials = (n: number): number[] => {
+  const logFactorials = new Array<number>(n + 1);
+  for (let i = 0; i <= n; i++) logFactorials[i] = logGamma(i + 1);
+  return logFactorials;
+};
+
+const logChoose = (logFactorials: number[], n: number, k: number): number => {
+  return logFactorials[n] - logFactorials[k] - logFactorials[n - k];
+};
+
+// Two-sided Fisher p-values for every table with x1 + x2 = total, indexed by x1 - max(0, total - n2)
+const fisherPValuesForTotal = (n1: number, n2: number, total: number, logFactorials: number[]): number[] => {
+  const lower = Math.max(0, total - n2);
+  const upper = Math.min(n1, total);
+  const logDenominator = logChoose(logFactorials, n1 + n2, total);
+
+  const probabilities: number[] = [];
+  for (let x1 = lower; x1 <= upper; x1++) {
+    probabilities.push(Math.exp(
+      logChoose(logFactorials, n1, x1) + logChoose(logFactorials, n2, total - x1) - logDenominator
+    ));
+  }
+
+  // A table's p-value is the total probability of tables no more likely than it
+  const order = probabilities.map((_, i) => i).sort((a, b) => probabilities[a] - probabilities[b]);
+  const pValues = new Array<number>(probabilities.length);
+  let cumulative = 0;
+  let end = 0;
+  order.forEach(index => {
+    const limit = probabilities[index] * (1 + TIE_TOLERANCE);
+    while (end < order.length && probabilities[order[end]] <= limit) {
+      cumulative += probabilities[order[end]];
+      end++;
+    }
+    pValues[index] = Math.min(1, cumulative);
+  });
+
+  return pValues;
+};
+
+// Smallest expected count in the 2 x 2 table of conversions and non-conversions; below 5
+// the normal approximation behind the z-test is unreliable
+export const minimumExpectedCellCount = (x1: number, n1: number, x2: number, n2: number): number => {
+  const total = n1 + n2;
+  const conversions = x1 + x2;
+  const failures = total - conversions;
+  return Math.min(n1, n2) * Math.min(conversions, failures) / total;
+};
+
+// Fisher's exact test, conditioning on both margins of the 2 x 2 table
+export const fisherExactTest = (x1: number, n1: number, x2: number, n2: number): number => {
+  const logFactorials = getLogFactorials(n1 + n2);
+  const total = x1 + x2;
+  return fisherPValuesForTotal(n1, n2, total, logFactorials)[x1 - Math.max(0, total - n2)];
+};
+
+export const isUnconditionalTestFeasible = (n1: number, n2: number): boolean => {
+  return (n1 + 1) * (n2 + 1) <= MAX_UNCONDITIONAL_TABLES;
+};
+
+const binomialProbabilities = (n: number, p: number, logFactorials: number[]): number[] => {
+  const logP = Math.log(p);
+  const logQ = Math.log(1 - p);
+  return Array.from({ length: n + 1 }, (_, k) => Math.exp(logChoose(logFactorials, n, k) + k * logP + (n - k) * logQ));
+};
+
+// Two-sided unconditional exact test: the probability of a table at least as extreme as the
+// observed one, maximized over the common conversion rate. Barnard orders tables by the pooled
+// z-statistic; Boschloo orders them by Fisher's p-value, which makes it uniformly more powerful
+// than Fisher's test.
+export const unconditionalExactTest = (
+  x1: number,
+  n1: number,
+  x2: number,
+  n2: number,
+  method: 'barnard' | 'boschloo',
+  gridPoints: number = 200
+): number => {
+  const logFactorials = getLogFactorials(n1 + n2);
+  const regionA: number[] = [];
+  const regionB: number[] = [];
+
+  if (method === 'barnard') {
+    const observed = Math.abs(pooledZScore(x1, n1, x2, n2));
+    for (let a = 0; a <= n1; a++) {
+      for (let b = 0; b <= n2; b++) {
+        if (Math.abs(pooledZScore(a, n1, b, n2)) >= observed * (1 - TIE_TOLERANCE)) {
+          regionA.push(a);
+          regionB.push(b);
+        }
+      }
+    }
+  } else {
+    const fisherByTotal = Array.from({ length: n1 + n2 + 1 }, (_, total) => fisherPValuesForTotal(n1, n2, total, logFactorials));
+    const fisherP = (a: number, b: number) => fisherByTotal[a + b][a - Math.max(0, a + b - n2)];
+    const observed = fisherP(x1, x2);
+    for (let a = 0; a <= n1; a++) {
+      for (let b = 0; b <= n2; b++) {
+        if (fisherP(a, b) <= observed * (1 + TIE_TOLERANCE)) {
+          regionA.push(a);
+          regionB.push(b);
+        }
+      }
+    }
+  }
+
+  const tailProbability = (p: number): number => {
+    const pmfA = binomialProbabilities(n1, p, logFactorials);
+    const pmfB = binomialProbabilities(n2, p, logFactorials);
+    let sum = 0;
+    for (let i = 0; i < regionA.length; i++) sum += pmfA[regionA[i]] * pmfB[regionB[i]];
+    return sum;
+  };
+
+  // Coarse grid over the nuisance parameter, then a finer pass around the best point
+  let bestP = 0.5;
+  let best = 0;
+  for (let i = 1; i < gridPoints; i++) {
+    const p = i / gridPoints;
+    const value = tailProbability(p);
+    if (value > best) {
+      best = value;
+      bestP = p;
+    }
+  }
+  const step = 1 / gridPoints;
+  for (let i = -10; i <= 10; i++) {
+    const p = bestP + (i * step) / 10;
+    if (p > 0 && p < 1) best = Math.max(best, tailProbability(p));
+  }
+
+  return Math.min(1, best);
+};
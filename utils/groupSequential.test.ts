@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { computeGroupSequentialBoundaries, solveGroupSequentialDrift } from './groupSequential';
+import { normalInverse } from './statisticalCalculations';
+
+const EQUALLY_SPACED = [0.2, 0.4, 0.6, 0.8, 1];
+
+// Published two-sided Lan–DeMets bounds for five equally spaced looks at α = 0.05, to four decimals
+describe('computeGroupSequentialBoundaries', () => {
+  it("matches the O'Brien-Fleming type spending bounds", () => {
+    const looks = computeGroupSequentialBoundaries(EQUALLY_SPACED, 0.05, 'obrien-fleming', 0);
+    [4.8769, 3.3570, 2.6803, 2.2898, 2.0310].forEach((bound, k) => {
+      expect(looks[k].efficacyBound).toBeCloseTo(bound, 4);
+    });
+    expect(looks[4].cumulativeAlphaSpent).toBeCloseTo(0.05, 8);
+  });
+
+  it('matches the Pocock type spending bounds', () => {
+    const looks = computeGroupSequentialBoundaries(EQUALLY_SPACED, 0.05, 'pocock', 0);
+    expect(looks[0].efficacyBound).toBeCloseTo(2.4380, 4);
+    expect(looks[4].efficacyBound).toBeCloseTo(2.3860, 4);
+    expect(looks[4].cumulativeAlphaSpent).toBeCloseTo(0.05, 8);
+  });
+
+  it('spends α cumulatively as the spending function prescribes', () => {
+    const looks = computeGroupSequentialBoundaries(EQUALLY_SPACED, 0.05, 'hwang-shih-decani', 0);
+    // γ = 0 spends α linearly in information
+    looks.forEach((look, k) => {
+      expect(look.cumulativeAlphaSpent).toBeCloseTo(0.01 * (k + 1), 7);
+    });
+  });
+
+  it('reduces to the fixed-horizon test with a single look', () => {
+    const [look] = computeGroupSequentialBoundaries([1], 0.05, 'obrien-fleming', 0);
+    expect(look.efficacyBound).toBeCloseTo(1.959964, 6);
+  });
+});
+
+describe('solveGroupSequentialDrift', () => {
+  it("gives the sample size inflation of O'Brien-Fleming and Pocock designs", () => {
+    const fixedDrift = normalInverse(0.975) + normalInverse(0.8);
+    const inflation = (spendingFunction: 'obrien-fleming' | 'pocock') => {
+      const { drift } = solveGroupSequentialDrift(EQUALLY_SPACED, 0.05, spendingFunction, 0, 0.2, false);
+      return (drift / fixedDrift) ** 2;
+    };
+    expect(inflation('obrien-fleming')).toBeCloseTo(1.0247, 4);
+    expect(inflation('pocock')).toBeCloseTo(1.2126, 4);
+  });
+});
@@ -0,0 +1,422 @@
+import {
+  GroupSequentialLook,
+  InterimDecision,
+  InterimLook,
+  LookStatistic,
+  SampleSizeAdaptation,
+  SequentialDecision,
+  SpendingFunction,
+  StagewiseInference
+} from '../types/statistics';
+import { normalCDF, normalInverse, normalPDF } from './statisticalCalculations';
+import { pooledZScore } from './hypothesisTests';
+
+// Simpson intervals per look (must be even) and how far from the mean the grid extends, in SDs of Z_k
+const GRID_INTERVALS = 240;
+const GRID_HALF_WIDTH = 8;
+const MIN_SPEND = 1e-12;
+
+// Looks closer than this in information fraction are treated as the same analysis
+export const LOOK_TOLERANCE = 1e-6;
+
+// Every evaluation while solving for the drift recomputes the design, so the root
+// finder stops early once power is within this of its target
+const POWER_TOLERANCE = 1e-6;
+
+// Bisection steps for stagewise estimates; the bracket is 16 standard errors wide
+const STAGEWISE_ITERATIONS = 32;
+
+// Sub-density of Z_k over the paths that have not stopped yet, stored as Simpson-weighted
+// grid values so integrals against it are plain sums
+interface ContinuationDensity {
+  information: number;
+  points: number[];
+  weights: number[];
+}
+
+// Z_0 = 0 with certainty before the first look
+const START: ContinuationDensity = { information: 0, points: [0], weights: [1] };
+
+// Cumulative error spent by information fraction t, for a total of `total`
+export const spendingFunctionValue = (
+  spendingFunction: SpendingFunction,
+  t: number,
+  total: number,
+  parameter: number
+): number => {
+  if (t <= 0) return 0;
+  if (t >= 1) return total;
+
+  switch (spendingFunction) {
+    case 'pocock':
+      return total * Math.log(1 + (Math.E - 1) * t);
+    case 'hwang-shih-decani':
+      return parameter === 0
+        ? total * t
+        : total * (1 - Math.exp(-parameter * t)) / (1 - Math.exp(-parameter));
+    case 'kim-demets':
+      return total * Math.pow(t, parameter);
+    default:
+      // Lan–DeMets O'Brien-Fleming type
+      return 2 * (1 - normalCDF(normalInverse(1 - total / 2) / Math.sqrt(t)));
+  }
+};
+
+// Scores S_k = Z_k √t_k have independent N(drift·Δ, Δ) increments; these give the probability
+// of landing above or below c at information t, starting from the continuation density
+const upperExceedance = (previous: ContinuationDensity, t: number, c: number, drift: number): number => {
+  if (c === Infinity) return 0;
+  const delta = t - previous.information;
+  const sd = Math.sqrt(delta);
+  return previous.points.reduce((sum, u, i) =>
+    sum + previous.weights[i] * normalCDF(-(c * Math.sqrt(t) - u * Math.sqrt(previous.information) - drift * delta) / sd), 0);
+};
+
+const lowerExceedance = (previous: ContinuationDensity, t: number, c: number, drift: number): number => {
+  if (c === -Infinity) return 0;
+  const delta = t - previous.information;
+  const sd = Math.sqrt(delta);
+  return previous.points.reduce((sum, u, i) =>
+    sum + previous.weights[i] * normalCDF((c * Math.sqrt(t) - u * Math.sqrt(previous.information) - drift * delta) / sd), 0);
+};
+
+// One step of the Armitage–McPherson–Rowe recursion: the density of Z_k on (lower, upper)
+const advanceDensity = (
+  previous: ContinuationDensity,
+  t: number,
+  lower: number,
+  upper: number,
+  drift: number
+): ContinuationDensity => {
+  const center = drift * Math.sqrt(t);
+  const lo = Math.max(lower, center - GRID_HALF_WIDTH);
+  const hi = Math.min(upper, center + GRID_HALF_WIDTH);
+  if (hi <= lo) return { information: t, points: [], weights: [] };
+
+  const h = (hi - lo) / GRID_INTERVALS;
+  const delta = t - previous.information;
+  const sd = Math.sqrt(delta);
+  const jacobian = Math.sqrt(t) / sd;
+  const points: number[] = [];
+  const weights: number[] = [];
+
+  for (let j = 0; j <= GRID_INTERVALS; j++) {
+    const z = lo + j * h;
+    const density = previous.points.reduce((sum, u, i) =>
+      sum + previous.weights[i] * jacobian * normalPDF((z * Math.sqrt(t) - u * Math.sqrt(previous.information) - drift * delta) / sd), 0);
+    const simpsonWeight = (j === 0 || j === GRID_INTERVALS ? 1 : j % 2 === 1 ? 4 : 2) * h / 3;
+    points.push(z);
+    weights.push(simpsonWeight * density);
+  }
+
+  return { information: t, points, weights };
+};
+
+// Bisection for a monotone probability; `increasing` says whether it grows with the bound
+const solveBound = (
+  probability: (bound: number) => number,
+  target: number,
+  lo: number,
+  hi: number,
+  increasing: boolean
+): number => {
+  for (let i = 0; i < 80; i++) {
+    const mid = (lo + hi) / 2;
+    const tooMuch = probability(mid) > target;
+    if (tooMuch === increasing) hi = mid;
+    else lo = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+// Two-sided symmetric efficacy bounds from an alpha-spending function, with optional
+// non-binding futility bounds from the matching beta-spending function. Information
+// fractions must be increasing in (0, 1]; a final look at t = 1 spends all of α and β.
+// The drift is the expected Z at full information under H1, by default the one that
+// gives a fixed-horizon test at the maximum sample size power 1 - β.
+export const computeGroupSequentialBoundaries = (
+  informationFractions: number[],
+  alpha: number,
+  spendingFunction: SpendingFunction,
+  spendingParameter: number,
+  beta: number | null = null,
+  drift: number = normalInverse(1 - alpha / 2) + normalInverse(1 - (beta ?? 0.2))
+): GroupSequentialLook[] => {
+  let nullDensity = START;
+  let alternativeDensity = START;
+  let cumulativeAlphaSpent = 0;
+  let cumulativeBetaSpent = 0;
+  let previousFraction = 0;
+
+  return informationFractions.map(t => {
+    // Each side spends α/2, matching the one-sided spending functions used by standard software
+    const alphaIncrement = 2 * (
+      spendingFunctionValue(spendingFunction, t, alpha / 2, spendingParameter) -
+      spendingFunctionValue(spendingFunction, previousFraction, alpha / 2, spendingParameter)
+    );
+
+    // Under H0 only the efficacy and harm bounds stop the test, so futility stays non-binding
+    const rejection = (c: number) => upperExceedance(nullDensity, t, c, 0) + lowerExceedance(nullDensity, t, -c, 0);
+    const efficacyBound = alphaIncrement > MIN_SPEND
+      ? solveBound(rejection, alphaIncrement, 0, 40, false)
+      : Infinity;
+    cumulativeAlphaSpent += rejection(efficacyBound);
+
+    let futilityBound: number | null = null;
+    if (beta !== null) {
+      const betaIncrement = spendingFunctionValue(spendingFunction, t, beta, spendingParameter) -
+        spendingFunctionValue(spendingFunction, previousFraction, beta, spendingParameter);
+      const acceptance = (b: number) => lowerExceedance(alternativeDensity, t, b, drift);
+      const ceiling = isFinite(efficacyBound) ? efficacyBound : drift * Math.sqrt(t) + GRID_HALF_WIDTH;
+
+      if (t >= 1 || acceptance(ceiling) <= betaIncrement) {
+        // Bounds meet at the final look, or whenever the β budget would push futility past efficacy
+        futilityBound = ceiling;
+      } else if (betaIncrement <= MIN_SPEND) {
+        futilityBound = -Infinity;
+      } else {
+        futilityBound = solveBound(acceptance, betaIncrement, -40, ceiling, true);
+      }
+      cumulativeBetaSpent += acceptance(futilityBound);
+      alternativeDensity = advanceDensity(alternativeDensity, t, Math.max(futilityBound, -efficacyBound), efficacyBound, drift);
+    }
+
+    nullDensity = advanceDensity(nullDensity, t, -efficacyBound, efficacyBound, 0);
+    previousFraction = t;
+
+    return {
+      informationFraction: t,
+      efficacyBound,
+      futilityBound,
+      nominalAlpha: 2 * normalCDF(-efficacyBound),
+      cumulativeAlphaSpent,
+      cumulativeBetaSpent: beta !== null ? cumulativeBetaSpent : null
+    };
+  });
+};
+
+// Stopping behaviour of a set of boundaries when the expected Z at full information is
+// `drift`: the probability of crossing the upper efficacy bound, and the expected fraction
+// of the maximum information used before the trial stops. Passing the latest look as
+// `start` conditions on it, so only the looks still ahead count.
+export const groupSequentialOperatingCharacteristic = (
+  looks: GroupSequentialLook[],
+  drift: number,
+  start: LookStatistic | null = null
+): { rejectionProbability: number; expectedInformation: number } => {
+  let density: ContinuationDensity = start
+    ? { information: start.informationFraction, points: [start.zScore], weights: [1] }
+    : START;
+  let rejectionProbability = 0;
+  let expectedInformation = 0;
+  const remaining = looks.filter(look => look.informationFraction > density.information + LOOK_TOLERANCE);
+  if (remaining.length === 0) return { rejectionProbability: 0, expectedInformation: density.information };
+
+  remaining.forEach((look, index) => {
+    const t = look.informationFraction;
+    const continuationLower = Math.max(look.futilityBound ?? -look.efficacyBound, -look.efficacyBound);
+    const reached = density.weights.reduce((sum, w) => sum + w, 0);
+    rejectionProbability += upperExceedance(density, t, look.efficacyBound, drift);
+
+    density = index === remaining.length - 1
+      ? { information: t, points: [], weights: [] }
+      : advanceDensity(density, t, continuationLower, look.efficacyBound, drift);
+    const continuing = density.weights.reduce((sum, w) => sum + w, 0);
+    expectedInformation += t * (reached - continuing);
+  });
+
+  return { rejectionProbability, expectedInformation };
+};
+
+// Drift at the maximum sample size that gives the design power 1 - β. Divided by the
+// fixed-horizon drift and squared, it is the sample size inflation of the sequential design.
+export const solveGroupSequentialDrift = (
+  informationFractions: number[],
+  alpha: number,
+  spendingFunction: SpendingFunction,
+  spendingParameter: number,
+  beta: number,
+  withFutility: boolean
+): { drift: number; looks: GroupSequentialLook[] } => {
+  const fixedDrift = normalInverse(1 - alpha / 2) + normalInverse(1 - beta);
+  const efficacyOnly = withFutility
+    ? null
+    : computeGroupSequentialBoundaries(informationFractions, alpha, spendingFunction, spendingParameter);
+  // Efficacy bounds do not depend on the drift; futility bounds do, so those are recomputed
+  const design = (drift: number) => efficacyOnly ?? computeGroupSequentialBoundaries(
+    informationFractions, alpha, spendingFunction, spendingParameter, beta, drift
+  );
+
+  const powerGap = (drift: number) => groupSequentialOperatingCharacteristic(design(drift), drift).rejectionProbability - (1 - beta);
+
+  // Illinois variant of regula falsi; power is smooth in the drift, so it converges in a few steps
+  let lo = fixedDrift;
+  let hi = 2 * fixedDrift;
+  let gapLo = powerGap(lo);
+  let gapHi = powerGap(hi);
+  let drift = lo;
+  let side = 0;
+  for (let i = 0; i < 40; i++) {
+    drift = (lo * gapHi - hi * gapLo) / (gapHi - gapLo);
+    const gap = powerGap(drift);
+    if (Math.abs(gap) < POWER_TOLERANCE) break;
+    if (gap > 0) {
+      hi = drift;
+      gapHi = gap;
+      if (side === 1) gapLo /= 2;
+      side = 1;
+    } else {
+      lo = drift;
+      gapLo = gap;
+      if (side === -1) gapHi /= 2;
+      side = -1;
+    }
+  }
+  return { drift, looks: design(drift) };
+};
+
+// Probability under `drift` of a result at least as extreme as stopping for efficacy at look
+// `stopIndex` with `zScore`, in the stagewise ordering: crossing the upper bound at an earlier
+// look, or reaching this look and seeing a larger Z. Futility bounds are non-binding and
+// play no part in the ordering.
+export const stagewiseTailProbability = (
+  looks: GroupSequentialLook[],
+  stopIndex: number,
+  zScore: number,
+  drift: number
+): number => {
+  let density = START;
+  let probability = 0;
+
+  for (let k = 0; k < stopIndex; k++) {
+    const { informationFraction: t, efficacyBound } = looks[k];
+    probability += upperExceedance(density, t, efficacyBound, drift);
+    density = advanceDensity(density, t, -efficacyBound, efficacyBound, drift);
+  }
+  return probability + upperExceedance(density, looks[stopIndex].informationFraction, zScore, drift);
+};
+
+// Stagewise-ordering p-value, median-unbiased estimate and exact confidence interval for a
+// trial stopped at look `stopIndex`. A stop on the lower bound is handled by symmetry.
+export const stagewiseInference = (
+  looks: GroupSequentialLook[],
+  stopIndex: number,
+  zScore: number,
+  alpha: number
+): StagewiseInference => {
+  const direction = zScore < 0 ? -1 : 1;
+  const z = direction * zScore;
+  const t = looks[stopIndex].informationFraction;
+  const tail = (drift: number) => stagewiseTailProbability(looks, stopIndex, z, drift);
+
+  // The tail probability grows with the drift; the naive estimate ± 8 standard errors brackets every root
+  const naive = z / Math.sqrt(t);
+  const solve = (target: number) => {
+    let lo = naive - 8 / Math.sqrt(t);
+    let hi = naive + 8 / Math.sqrt(t);
+    for (let i = 0; i < STAGEWISE_ITERATIONS; i++) {
+      const mid = (lo + hi) / 2;
+      if (tail(mid) > target) hi = mid;
+      else lo = mid;
+    }
+    return (lo + hi) / 2;
+  };
+
+  const lower = solve(alpha / 2);
+  const upper = solve(1 - alpha / 2);
+  return {
+    pValue: Math.min(1, 2 * tail(0)),
+    medianUnbiasedDrift: direction * solve(0.5),
+    driftInterval: direction > 0 ? [lower, upper] : [-upper, -lower]
+  };
+};
+
+// Information fraction and Z-score of each recorded look. After a sample size increase the
+// CHW weighted test keeps the original weights: the looks already taken count for their
+// planned share of information, the new data fill the rest, and the Z-score combines the
+// pre-adaptation Z with the Z of the data collected since, so the boundaries still hold.
+export const getLookStatistics = (
+  looks: InterimLook[],
+  maxSampleSize: number,
+  adaptation: SampleSizeAdaptation | null = null
+): LookStatistic[] => {
+  const adaptationIndex = adaptation ? looks.findIndex(look => look.id === adaptation.lookId) : -1;
+  const plannedMaximum = adaptation && adaptationIndex >= 0 ? adaptation.originalMaxSampleSize : maxSampleSize;
+  const sampleSize = (look: InterimLook) => look.controlVisitors + look.treatmentVisitors;
+  const statistics = looks.map(look => ({
+    informationFraction: Math.min(sampleSize(look) / plannedMaximum, 1),
+    zScore: pooledZScore(look.controlConversions, look.controlVisitors, look.treatmentConversions, look.treatmentVisitors)
+  }));
+  if (!adaptation || adaptationIndex < 0) return statistics;
+
+  const base = looks[adaptationIndex];
+  const { informationFraction: t1, zScore: z1 } = statistics[adaptationIndex];
+  const stageTwoSize = adaptation.newMaxSampleSize - sampleSize(base);
+
+  return statistics.map((statistic, index) => {
+    if (index <= adaptationIndex || stageTwoSize <= 0) return statistic;
+    const look = looks[index];
+    const t = Math.min(t1 + (1 - t1) * (sampleSize(look) - sampleSize(base)) / stageTwoSize, 1);
+    const zIncrement = pooledZScore(
+      look.controlConversions - base.controlConversions,
+      look.controlVisitors - base.controlVisitors,
+      look.treatmentConversions - base.treatmentConversions,
+      look.treatmentVisitors - base.treatmentVisitors
+    );
+    return {
+      informationFraction: t,
+      zScore: (Math.sqrt(t1) * z1 + Math.sqrt(t - t1) * zIncrement) / Math.sqrt(t)
+    };
+  });
+};
+
+// Boundaries are recomputed at the fractions actually observed; planned looks only
+// matter for the part of the trial that is still ahead
+export const getMonitoringSchedule = (observedFractions: number[], plannedFractions: number[]): number[] => {
+  const observed = Array.from(new Set(observedFractions.filter(t => t > 0))).sort((a, b) => a - b);
+  const last = observed.length > 0 ? observed[observed.length - 1] : 0;
+  const remaining = plannedFractions.filter(t => t > last + LOOK_TOLERANCE);
+  return [...observed, ...remaining];
+};
+
+// Applies each look's boundaries in order. The first crossing is the decision of record;
+// looks recorded after it stay in the trail, flagged, so the audit shows what was ignored.
+export const evaluateInterimLooks = (
+  looks: InterimLook[],
+  statistics: LookStatistic[],
+  boundaries: GroupSequentialLook[],
+  enableFutility: boolean,
+  enableHarm: boolean
+): InterimDecision[] => {
+  let stopped = false;
+
+  return looks.flatMap((look, index) => {
+    const { informationFraction: t, zScore } = statistics[index];
+    const boundary = boundaries.find(b => Math.abs(b.informationFraction - t) < LOOK_TOLERANCE);
+    if (!boundary) return [];
+
+    let decision: SequentialDecision = 'continue';
+    if (zScore >= boundary.efficacyBound) {
+      decision = 'stop_success';
+    } else if (enableHarm && zScore <= -boundary.efficacyBound) {
+      decision = 'stop_harm';
+    } else if (enableFutility && boundary.futilityBound !== null && zScore <= boundary.futilityBound) {
+      decision = 'stop_futility';
+    }
+
+    const isAfterStop = stopped;
+    if (decision !== 'continue') stopped = true;
+
+    return [{
+      lookId: look.id,
+      date: look.date,
+      sampleSize: look.controlVisitors + look.treatmentVisitors,
+      informationFraction: t,
+      zScore,
+      efficacyBound: boundary.efficacyBound,
+      futilityBound: boundary.futilityBound,
+      decision,
+      isAfterStop
+    }];
+  });
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { summarizeSample, welchTTest } from './hypothesisTests';
+
+// Student's sleep data; R's t.test(extra ~ group, data = sleep) gives the reference values
+const GROUP_1 = [0.7, -1.6, -0.2, -1.2, -0.1, 3.4, 3.7, 0.8, 0.0, 2.0];
+const GROUP_2 = [1.9, 0.8, 1.1, 0.1, -0.1, 4.4, 5.5, 1.6, 4.6, 3.4];
+
+describe('summarizeSample', () => {
+  it('uses the n - 1 standard deviation', () => {
+    const summary = summarizeSample(GROUP_1);
+    expect(summary.n).toBe(10);
+    expect(summary.mean).toBeCloseTo(0.75, 12);
+    expect(summary.standardDeviation).toBeCloseTo(1.789010, 6);
+  });
+});
+
+describe('welchTTest', () => {
+  it("matches R's Welch two-sample t-test", () => {
+    const result = welchTTest(summarizeSample(GROUP_1), summarizeSample(GROUP_2), 0.05);
+    expect(result.tStatistic).toBeCloseTo(1.8608, 4);
+    expect(result.degreesOfFreedom).toBeCloseTo(17.776, 3);
+    expect(result.pValue).toBeCloseTo(0.07939, 5);
+    expect(result.absoluteConfidenceInterval[0]).toBeCloseTo(-0.2054832, 6);
+    expect(result.absoluteConfidenceInterval[1]).toBeCloseTo(3.3654832, 6);
+    expect(result.isSignificant).toBe(false);
+  });
+
+  it('is antisymmetric in the arms', () => {
+    const forward = welchTTest(summarizeSample(GROUP_1), summarizeSample(GROUP_2), 0.05);
+    const backward = welchTTest(summarizeSample(GROUP_2), summarizeSample(GROUP_1), 0.05);
+    expect(backward.tStatistic).toBeCloseTo(-forward.tStatistic, 12);
+    expect(backward.pValue).toBeCloseTo(forward.pValue, 12);
+  });
+
+  it('reports no evidence when neither arm varies', () => {
+    const result = welchTTest({ mean: 1, standardDeviation: 0, n: 5 }, { mean: 2, standardDeviation: 0, n: 5 }, 0.05);
+    expect(result.pValue).toBe(1);
+    expect(result.isSignificant).toBe(false);
+  });
+});
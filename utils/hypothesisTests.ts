@@ -0,0 +1,166 @@
+import {
+  ChiSquareTestResult,
+  MultipleComparisonCorrection,
+  PairwiseComparison,
+  SampleSummary,
+  VariantObservation,
+  WelchTTestResult
+} from '../types/statistics';
+import { chiSquareCDF, normalCDF, regularizedGammaQ, studentTCDF, studentTQuantile } from './statisticalCalculations';
+import { adjustPValues, dunnettAdjustedPValues, getSimultaneousCriticalValue } from './multipleComparisons';
+
+export const summarizeSample = (values: number[]): SampleSummary => {
+  const n = values.length;
+  if (n === 0) return { mean: 0, standardDeviation: 0, n: 0 };
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / n;
+  const sumOfSquares = values.reduce((sum, value) => sum + (value - mean) * (value - mean), 0);
+  const standardDeviation = n > 1 ? Math.sqrt(sumOfSquares / (n - 1)) : 0;
+
+  return { mean, standardDeviation, n };
+};
+
+export const welchTTest = (a: SampleSummary, b: SampleSummary, alpha: number): WelchTTestResult => {
+  const varianceA = (a.standardDeviation * a.standardDeviation) / a.n;
+  const varianceB = (b.standardDeviation * b.standardDeviation) / b.n;
+  const standardError = Math.sqrt(varianceA + varianceB);
+
+  // Welch–Satterthwaite approximation
+  const degreesOfFreedom = Math.pow(varianceA + varianceB, 2) /
+    (Math.pow(varianceA, 2) / (a.n - 1) + Math.pow(varianceB, 2) / (b.n - 1));
+
+  const absoluteDifference = b.mean - a.mean;
+  const tStatistic = standardError > 0 ? absoluteDifference / standardError : 0;
+  const pValue = standardError > 0 ? 2 * studentTCDF(-Math.abs(tStatistic), degreesOfFreedom) : 1;
+  const tCrit = studentTQuantile(1 - alpha / 2, degreesOfFreedom);
+
+  const margin = tCrit * standardError;
+  const absoluteConfidenceInterval: [number, number] = [absoluteDifference - margin, absoluteDifference + margin];
+
+  // Delta method for the ratio of means B / A
+  const ratio = a.mean !== 0 ? b.mean / a.mean : 0;
+  const ratioSE = a.mean !== 0
+    ? Math.sqrt(varianceB / (a.mean * a.mean) + (ratio * ratio * varianceA) / (a.mean * a.mean))
+    : 0;
+  const relativeDifference = (ratio - 1) * 100;
+  const relativeConfidenceInterval: [number, number] = [
+    (ratio - 1 - tCrit * ratioSE) * 100,
+    (ratio - 1 + tCrit * ratioSE) * 100
+  ];
+
+  return {
+    isSignificant: pValue < alpha,
+    pValue,
+    tStatistic,
+    degreesOfFreedom,
+    standardError,
+    meanA: a.mean,
+    meanB: b.mean,
+    absoluteDifference,
+    absoluteConfidenceInterval,
+    relativeDifference,
+    relativeConfidenceInterval
+  };
+};
+
+// Chi-square test of homogeneity on the k x 2 table of conversions and non-conversions
+export const chiSquareHomogeneityTest = (variants: VariantObservation[]): ChiSquareTestResult => {
+  const totalVisitors = variants.reduce((sum, v) => sum + v.visitors, 0);
+  const totalConversions = variants.reduce((sum, v) => sum + v.conversions, 0);
+  const overallRate = totalVisitors > 0 ? totalConversions / totalVisitors : 0;
+
+  let statistic = 0;
+  variants.forEach(v => {
+    const expectedConversions = v.visitors * overallRate;
+    const expectedFailures = v.visitors - expectedConversions;
+    const failures = v.visitors - v.conversions;
+    if (expectedConversions > 0) statistic += Math.pow(v.conversions - expectedConversions, 2) / expectedConversions;
+    if (expectedFailures > 0) statistic += Math.pow(failures - expectedFailures, 2) / expectedFailures;
+  });
+
+  const degreesOfFreedom = variants.length - 1;
+  return {
+    statistic,
+    degreesOfFreedom,
+    pValue: 1 - chiSquareCDF(statistic, degreesOfFreedom)
+  };
+};
+
+// Chi-square goodness-of-fit of observed counts against expected proportions (normalized to sum to 1)
+export const chiSquareGoodnessOfFit = (observed: number[], expectedProportions: number[]): ChiSquareTestResult => {
+  const total = observed.reduce((sum, count) => sum + count, 0);
+  const proportionTotal = expectedProportions.reduce((sum, p) => sum + p, 0);
+
+  let statistic = 0;
+  observed.forEach((count, i) => {
+    const expected = total * expectedProportions[i] / proportionTotal;
+    if (expected > 0) statistic += Math.pow(count - expected, 2) / expected;
+  });
+
+  const degreesOfFreedom = observed.length - 1;
+  return {
+    statistic,
+    degreesOfFreedom,
+    // Upper tail computed directly so very small p-values keep their precision
+    pValue: regularizedGammaQ(degreesOfFreedom / 2, statistic / 2)
+  };
+};
+
+// Pooled two-proportion z-statistic for treatment (x2 of n2) against control (x1 of n1)
+export const pooledZScore = (x1: number, n1: number, x2: number, n2: number): number => {
+  const pooledP = (x1 + x2) / (n1 + n2);
+  const pooledSE = Math.sqrt(pooledP * (1 - pooledP) * (1 / n1 + 1 / n2));
+  return pooledSE > 0 ? (x2 / n2 - x1 / n1) / pooledSE : 0;
+};
+
+// Pooled two-proportion z-tests of every treatment against the first (control) variant
+export const compareToControl = (
+  variants: VariantObservation[],
+  alpha: number,
+  correction: MultipleComparisonCorrection
+): PairwiseComparison[] => {
+  const [control, ...treatments] = variants;
+  const controlRate = control.conversions / control.visitors;
+  const controlVariance = controlRate * (1 - controlRate) / control.visitors;
+
+  const comparisons = treatments.map(treatment => {
+    const rate = treatment.conversions / treatment.visitors;
+    const variance = rate * (1 - rate) / treatment.visitors;
+    const zScore = pooledZScore(control.conversions, control.visitors, treatment.conversions, treatment.visitors);
+
+    return {
+      treatment,
+      rate,
+      zScore,
+      pValue: 2 * normalCDF(-Math.abs(zScore)),
+      unpooledSE: Math.sqrt(controlVariance + variance),
+      // Correlation loading induced by the shared control arm
+      lambda: controlVariance + variance > 0 ? Math.sqrt(controlVariance / (controlVariance + variance)) : 0
+    };
+  });
+
+  const lambdas = comparisons.map(c => c.lambda);
+  const adjustedPValues = correction === 'dunnett'
+    ? dunnettAdjustedPValues(comparisons.map(c => c.zScore), lambdas)
+    : adjustPValues(comparisons.map(c => c.pValue), correction);
+  const criticalValue = getSimultaneousCriticalValue(alpha, comparisons.length, correction, lambdas);
+
+  return comparisons.map((c, i) => {
+    const absoluteDifference = c.rate - controlRate;
+    const margin = criticalValue * c.unpooledSE;
+
+    return {
+      id: c.treatment.id,
+      name: c.treatment.name,
+      conversionRate: c.rate * 100,
+      controlRate: controlRate * 100,
+      absoluteDifference: absoluteDifference * 100,
+      relativeDifference: controlRate > 0 ? (absoluteDifference / controlRate) * 100 : 0,
+      zScore: c.zScore,
+      pValue: c.pValue,
+      adjustedPValue: adjustedPValues[i],
+      simultaneousConfidenceInterval: [(absoluteDifference - margin) * 100, (absoluteDifference + margin) * 100],
+      isSignificant: adjustedPValues[i] < alpha
+    };
+  });
+};
@@ -0,0 +1,92 @@
+import { DailyArmCounts, LiftEstimate, LiftTrendResult } from '../types/statistics';
+import { normalCDF, normalInverse } from './statisticalCalculations';
+
+// A slope needs at least this many days with conversions in both arms
+export const MIN_TREND_DAYS = 3;
+
+// Variance of log(p_treatment / p_control); days without conversions in an arm have no finite estimate
+const logRatioVariance = (counts: DailyArmCounts): number => {
+  const pC = counts.controlConversions / counts.controlVisitors;
+  const pT = counts.treatmentConversions / counts.treatmentVisitors;
+  return (1 - pT) / counts.treatmentConversions + (1 - pC) / counts.controlConversions;
+};
+
+const hasEstimate = (counts: DailyArmCounts): boolean => {
+  return counts.controlVisitors > 0 && counts.treatmentVisitors > 0 &&
+    counts.controlConversions > 0 && counts.treatmentConversions > 0;
+};
+
+const sumCounts = (days: DailyArmCounts[]): DailyArmCounts => days.reduce((total, counts) => ({
+  day: 0,
+  controlVisitors: total.controlVisitors + counts.controlVisitors,
+  controlConversions: total.controlConversions + counts.controlConversions,
+  treatmentVisitors: total.treatmentVisitors + counts.treatmentVisitors,
+  treatmentConversions: total.treatmentConversions + counts.treatmentConversions
+}), { day: 0, controlVisitors: 0, controlConversions: 0, treatmentVisitors: 0, treatmentConversions: 0 });
+
+// Relative lift with a delta-method standard error; the interval is built on the log scale so it
+// stays above -100%
+export const relativeLiftEstimate = (counts: DailyArmCounts, confidenceLevel: number): LiftEstimate | null => {
+  if (!hasEstimate(counts)) return null;
+  const ratio = (counts.treatmentConversions / counts.treatmentVisitors) / (counts.controlConversions / counts.controlVisitors);
+  const logStandardError = Math.sqrt(logRatioVariance(counts));
+  const z = normalInverse(1 - (1 - confidenceLevel) / 2);
+  return {
+    lift: (ratio - 1) * 100,
+    standardError: ratio * logStandardError * 100,
+    confidenceInterval: [
+      (ratio * Math.exp(-z * logStandardError) - 1) * 100,
+      (ratio * Math.exp(z * logStandardError) - 1) * 100
+    ]
+  };
+};
+
+export const pooledLiftEstimate = (days: DailyArmCounts[], confidenceLevel: number): LiftEstimate | null => {
+  return relativeLiftEstimate(sumCounts(days), confidenceLevel);
+};
+
+// Weighted least squares of daily lift on day, weighting each day by its inverse variance. A
+// falling lift suggests a novelty effect, a rising one primacy (users learning the change).
+export const liftTrendTest = (days: DailyArmCounts[], alpha: number): LiftTrendResult | null => {
+  const estimates = days
+    .filter(hasEstimate)
+    .map(counts => ({ day: counts.day, estimate: relativeLiftEstimate(counts, 1 - alpha) as LiftEstimate }))
+    .filter(({ estimate }) => estimate.standardError > 0);
+  if (estimates.length < MIN_TREND_DAYS) return null;
+
+  const weights = estimates.map(({ estimate }) => 1 / (estimate.standardError * estimate.standardError));
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const meanDay = estimates.reduce((sum, { day }, i) => sum + weights[i] * day, 0) / totalWeight;
+  const meanLift = estimates.reduce((sum, { estimate }, i) => sum + weights[i] * estimate.lift, 0) / totalWeight;
+  const sxx = estimates.reduce((sum, { day }, i) => sum + weights[i] * (day - meanDay) ** 2, 0);
+  if (sxx === 0) return null;
+
+  const slope = estimates.reduce((sum, { day, estimate }, i) => sum + weights[i] * (day - meanDay) * (estimate.lift - meanLift), 0) / sxx;
+  const slopeStandardError = Math.sqrt(1 / sxx);
+  const pValue = 2 * (1 - normalCDF(Math.abs(slope / slopeStandardError)));
+
+  return {
+    points: estimates.map(({ day, estimate }) => ({
+      day,
+      lift: estimate.lift,
+      standardError: estimate.standardError,
+      fitted: meanLift + slope * (day - meanDay)
+    })),
+    slope,
+    slopeStandardError,
+    pValue,
+    pattern: pValue >= alpha ? 'stable' : slope < 0 ? 'novelty' : 'primacy'
+  };
+};
+
+// Two-sided test that new and returning users see the same relative lift, on the log scale
+export const segmentLiftDifferencePValue = (newUsers: DailyArmCounts[], returningUsers: DailyArmCounts[]): number | null => {
+  const a = sumCounts(newUsers);
+  const b = sumCounts(returningUsers);
+  if (!hasEstimate(a) || !hasEstimate(b)) return null;
+  const logRatio = (counts: DailyArmCounts) => Math.log(
+    (counts.treatmentConversions / counts.treatmentVisitors) / (counts.controlConversions / counts.controlVisitors)
+  );
+  const z = (logRatio(a) - logRatio(b)) / Math.sqrt(logRatioVariance(a) + logRatioVariance(b));
+  return 2 * (1 - normalCDF(Math.abs(z)));
+};
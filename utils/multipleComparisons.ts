@@ -0,0 +1,150 @@
+import { MultipleComparisonCorrection } from '../types/statistics';
+import { calculateBonferroniAdjustment, normalCDF, normalInverse, normalPDF, integrateSimpson } from './statisticalCalculations';
+
+// Sorts indices by ascending p-value so step-wise procedures can walk them in order
+const rankAscending = (pValues: number[]): number[] => {
+  return pValues.map((_, i) => i).sort((a, b) => pValues[a] - pValues[b]);
+};
+
+const holmAdjust = (pValues: number[]): number[] => {
+  const m = pValues.length;
+  const order = rankAscending(pValues);
+  const adjusted = new Array<number>(m);
+  let runningMax = 0;
+
+  order.forEach((index, rank) => {
+    runningMax = Math.max(runningMax, Math.min(1, (m - rank) * pValues[index]));
+    adjusted[index] = runningMax;
+  });
+
+  return adjusted;
+};
+
+const hochbergAdjust = (pValues: number[]): number[] => {
+  const m = pValues.length;
+  const order = rankAscending(pValues);
+  const adjusted = new Array<number>(m);
+  let runningMin = 1;
+
+  for (let rank = m - 1; rank >= 0; rank--) {
+    const index = order[rank];
+    runningMin = Math.min(runningMin, Math.min(1, (m - rank) * pValues[index]));
+    adjusted[index] = runningMin;
+  }
+
+  return adjusted;
+};
+
+// Step-up adjustment controlling the false discovery rate rather than the family-wise error rate
+const benjaminiHochbergAdjust = (pValues: number[]): number[] => {
+  const m = pValues.length;
+  const order = rankAscending(pValues);
+  const adjusted = new Array<number>(m);
+  let runningMin = 1;
+
+  for (let rank = m - 1; rank >= 0; rank--) {
+    const index = order[rank];
+    runningMin = Math.min(runningMin, Math.min(1, (m / (rank + 1)) * pValues[index]));
+    adjusted[index] = runningMin;
+  }
+
+  return adjusted;
+};
+
+// Adjusted p-values for the procedures that only need the raw p-values
+export const adjustPValues = (
+  pValues: number[],
+  method: Exclude<MultipleComparisonCorrection, 'dunnett'>
+): number[] => {
+  const m = pValues.length;
+
+  switch (method) {
+    case 'holm':
+      return holmAdjust(pValues);
+    case 'hochberg':
+      return hochbergAdjust(pValues);
+    case 'sidak':
+      return pValues.map(p => 1 - Math.pow(1 - p, m));
+    case 'benjamini-hochberg':
+      return benjaminiHochbergAdjust(pValues);
+    default:
+      return pValues.map(p => Math.min(1, p * m));
+  }
+};
+
+// P(max |Z_i| <= c) for correlated normal statistics with corr(Z_i, Z_j) = λ_i λ_j,
+// which is the structure of comparisons that share a control arm
+export const dunnettProbability = (c: number, lambdas: number[]): number => {
+  const integrand = (w: number) => normalPDF(w) * lambdas.reduce((product, lambda) => {
+    const scale = Math.sqrt(Math.max(1 - lambda * lambda, 1e-12));
+    return product * (normalCDF((c - lambda * w) / scale) - normalCDF((-c - lambda * w) / scale));
+  }, 1);
+
+  return integrateSimpson(integrand, -8, 8, 400);
+};
+
+export const dunnettCriticalValue = (alpha: number, lambdas: number[]): number => {
+  let lo = 0;
+  let hi = 10;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (dunnettProbability(mid, lambdas) < 1 - alpha) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+export const dunnettAdjustedPValues = (zScores: number[], lambdas: number[]): number[] => {
+  return zScores.map(z => Math.min(1, Math.max(0, 1 - dunnettProbability(Math.abs(z), lambdas))));
+};
+
+// Two-sided critical value for simultaneous intervals. Holm, Hochberg and Benjamini–Hochberg
+// have no compatible simultaneous intervals, so they fall back to Bonferroni-width intervals.
+export const getSimultaneousCriticalValue = (
+  alpha: number,
+  numComparisons: number,
+  method: MultipleComparisonCorrection,
+  lambdas: number[] = []
+): number => {
+  switch (method) {
+    case 'sidak': {
+      const perComparisonAlpha = 1 - Math.pow(1 - alpha, 1 / numComparisons);
+      return normalInverse(1 - perComparisonAlpha / 2);
+    }
+    case 'dunnett':
+      return dunnettCriticalValue(alpha, lambdas);
+    default:
+      return normalInverse(1 - alpha / (2 * numComparisons));
+  }
+};
+
+// Per-comparison significance levels for planning, indexed by the rank at which each
+// hypothesis is expected to be tested (0 = expected smallest p-value). Step-wise procedures
+// only earn their extra power once earlier hypotheses are rejected, so later ranks get
+// looser thresholds. Dunnett needs the correlation structure and is handled separately.
+export const getPlanningAlphas = (
+  alpha: number,
+  numComparisons: number,
+  method: Exclude<MultipleComparisonCorrection, 'dunnett'>
+): number[] => {
+  const m = numComparisons;
+
+  return Array.from({ length: m }, (_, rank) => {
+    switch (method) {
+      case 'holm':
+      case 'hochberg':
+        return calculateBonferroniAdjustment(m - rank, alpha);
+      case 'sidak':
+        return 1 - Math.pow(1 - alpha, 1 / m);
+      case 'benjamini-hochberg':
+        return ((rank + 1) * alpha) / m;
+      default:
+        return calculateBonferroniAdjustment(m, alpha);
+    }
+  });
+};
+
+// Per-comparison two-sided significance level implied by the Dunnett critical value
+export const getDunnettPlanningAlpha = (alpha: number, lambdas: number[]): number => {
+  return 2 * normalCDF(-dunnettCriticalValue(alpha, lambdas));
+};
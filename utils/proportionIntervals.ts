@@ -0,0 +1,35 @@
+import { betaQuantile, normalInverse } from './statisticalCalculations';
+
+// Exact interval from the beta-binomial relationship; conservative, never below nominal coverage
+export const clopperPearsonInterval = (successes: number, trials: number, level: number): [number, number] => {
+  const tail = (1 - level) / 2;
+  return [
+    successes === 0 ? 0 : betaQuantile(tail, successes, trials - successes + 1),
+    successes === trials ? 1 : betaQuantile(1 - tail, successes + 1, trials - successes)
+  ];
+};
+
+// Score interval; close to nominal coverage even with few conversions
+export const wilsonInterval = (successes: number, trials: number, level: number): [number, number] => {
+  const z = normalInverse(1 - (1 - level) / 2);
+  const p = successes / trials;
+  const denominator = 1 + (z * z) / trials;
+  const center = (p + (z * z) / (2 * trials)) / denominator;
+  const halfWidth = (z * Math.sqrt(p * (1 - p) / trials + (z * z) / (4 * trials * trials))) / denominator;
+  return [Math.max(0, center - halfWidth), Math.min(1, center + halfWidth)];
+};
+
+// Wald interval for p2 - p1 after adding one success and one failure to each arm
+export const agrestiCaffoInterval = (
+  x1: number,
+  n1: number,
+  x2: number,
+  n2: number,
+  level: number
+): [number, number] => {
+  const z = normalInverse(1 - (1 - level) / 2);
+  const p1 = (x1 + 1) / (n1 + 2);
+  const p2 = (x2 + 1) / (n2 + 2);
+  const standardError = Math.sqrt(p1 * (1 - p1) / (n1 + 2) + p2 * (1 - p2) / (n2 + 2));
+  return [p2 - p1 - z * standardError, p2 - p1 + z * standardError];
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { binomialRandom, createSeededRandom } from './randomVariates';
+import { logGamma, regularizedGammaQ } from './statisticalCalculations';
+
+const DRAWS = 20000;
+const SEED = 987654321;
+
+const binomialPmf = (n: number, p: number, k: number): number => {
+  return Math.exp(logGamma(n + 1) - logGamma(k + 1) - logGamma(n - k + 1) + k * Math.log(p) + (n - k) * Math.log(1 - p));
+};
+
+// Pearson goodness of fit against the exact pmf, pooling outcomes until each cell expects at least 5 draws
+const goodnessOfFitPValue = (n: number, p: number): number => {
+  const random = createSeededRandom(SEED);
+  const counts = new Array<number>(n + 1).fill(0);
+  for (let i = 0; i < DRAWS; i++) counts[binomialRandom(n, p, random)]++;
+
+  const cells: Array<{ observed: number; expected: number }> = [];
+  let observed = 0;
+  let expected = 0;
+  for (let k = 0; k <= n; k++) {
+    observed += counts[k];
+    expected += DRAWS * binomialPmf(n, p, k);
+    if (expected >= 5) {
+      cells.push({ observed, expected });
+      observed = 0;
+      expected = 0;
+    }
+  }
+  cells[cells.length - 1].observed += observed;
+  cells[cells.length - 1].expected += expected;
+
+  const statistic = cells.reduce((sum, cell) => sum + (cell.observed - cell.expected) ** 2 / cell.expected, 0);
+  return regularizedGammaQ((cells.length - 1) / 2, statistic / 2);
+};
+
+describe('binomialRandom', () => {
+  it('matches the exact pmf by inversion for small means', () => {
+    expect(goodnessOfFitPValue(20, 0.1)).toBeGreaterThan(0.001);
+    expect(goodnessOfFitPValue(100, 0.25)).toBeGreaterThan(0.001);
+  });
+
+  it('matches the exact pmf with BTPE for large means', () => {
+    expect(goodnessOfFitPValue(1000, 0.3)).toBeGreaterThan(0.001);
+    expect(goodnessOfFitPValue(200, 0.5)).toBeGreaterThan(0.001);
+    expect(goodnessOfFitPValue(100000, 0.02)).toBeGreaterThan(0.001);
+  });
+
+  it('mirrors draws for rates above one half', () => {
+    expect(goodnessOfFitPValue(5000, 0.98)).toBeGreaterThan(0.001);
+  });
+
+  it('handles degenerate rates', () => {
+    expect(binomialRandom(50, 0)).toBe(0);
+    expect(binomialRandom(50, 1)).toBe(50);
+    expect(binomialRandom(0, 0.5)).toBe(0);
+  });
+});
@@ -0,0 +1,244 @@
+// Samplers take the uniform source as an argument so simulations can swap in other generators
+export type UniformRandom = () => number;
+
+// Seeds are unsigned 32-bit integers so they can be typed, shared and stored in JSON exactly
+export const MAX_SEED = 0xffffffff;
+
+export const isValidSeed = (seed: number): boolean => Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED;
+
+export const randomSeed = (): number => Math.floor(Math.random() * (MAX_SEED + 1));
+
+// Independent per-stream seed, e.g. one per simulation, so results do not depend on how runs
+// are split across workers or in which order they finish
+export const deriveSeed = (seed: number, stream: number): number => {
+  let z = (seed ^ Math.imul(stream + 1, 0x9e3779b9)) | 0;
+  z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+  z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+  return (z ^ (z >>> 16)) >>> 0;
+};
+
+// SplitMix32 expands one seed into the generator state, so nearby seeds give unrelated streams
+const splitMix32 = (seed: number): (() => number) => {
+  let state = seed | 0;
+  return () => {
+    state = (state + 0x9e3779b9) | 0;
+    let z = state;
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+    return (z ^ (z >>> 16)) >>> 0;
+  };
+};
+
+const rotateLeft = (x: number, k: number): number => (x << k) | (x >>> (32 - k));
+
+// xoshiro128**: 32-bit integer arithmetic only, so a seed reproduces the same stream in every browser
+export const createSeededRandom = (seed: number): UniformRandom => {
+  const next = splitMix32(seed);
+  let s0 = next();
+  let s1 = next();
+  let s2 = next();
+  let s3 = next();
+
+  return () => {
+    const result = Math.imul(rotateLeft(Math.imul(s1, 5), 7), 9);
+    const t = s1 << 9;
+    s2 ^= s0;
+    s3 ^= s1;
+    s1 ^= s2;
+    s0 ^= s3;
+    s2 ^= t;
+    s3 = rotateLeft(s3, 11);
+    return (result >>> 0) / 4294967296;
+  };
+};
+
+// Box–Muller transform
+export const normalRandom = (random: UniformRandom = Math.random): number => {
+  let u = 0;
+  while (u === 0) u = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+// Marsaglia–Tsang; shapes below 1 are boosted by one and corrected with U^(1/shape)
+export const gammaRandom = (shape: number, random: UniformRandom = Math.random): number => {
+  if (shape < 1) {
+    let u = 0;
+    while (u === 0) u = random();
+    return gammaRandom(shape + 1, random) * Math.pow(u, 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x = 0;
+    let v = 0;
+    do {
+      x = normalRandom(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+};
+
+// Inversion for the small rates used in simulations; above POISSON_NORMAL_LIMIT a rounded normal
+// is indistinguishable in practice and avoids a long CDF walk
+const POISSON_NORMAL_LIMIT = 50;
+
+export const poissonRandom = (lambda: number, random: UniformRandom = Math.random): number => {
+  if (lambda <= 0) return 0;
+  if (lambda >= POISSON_NORMAL_LIMIT) {
+    return Math.max(0, Math.round(lambda + Math.sqrt(lambda) * normalRandom(random)));
+  }
+
+  let x = 0;
+  let probability = Math.exp(-lambda);
+  let cumulative = probability;
+  const u = random();
+  while (u > cumulative && probability > 0) {
+    x++;
+    probability *= lambda / x;
+    cumulative += probability;
+  }
+  return x;
+};
+
+export const betaRandom = (alpha: number, beta: number, random: UniformRandom = Math.random): number => {
+  const x = gammaRandom(alpha, random);
+  const y = gammaRandom(beta, random);
+  return x / (x + y);
+};
+
+// Unit median; the mean is exp(sigma² / 2)
+export const lognormalRandom = (sigma: number, random: UniformRandom = Math.random): number => {
+  return Math.exp(sigma * normalRandom(random));
+};
+
+// Unit minimum, by inversion; the mean is finite only for tailIndex > 1 and the variance for tailIndex > 2
+export const paretoRandom = (tailIndex: number, random: UniformRandom = Math.random): number => {
+  let u = 0;
+  while (u === 0) u = random();
+  return Math.pow(u, -1 / tailIndex);
+};
+
+// Below this mean the inversion sampler is cheaper than setting up BTPE
+const BINOMIAL_INVERSION_LIMIT = 30;
+
+// Sequential search up the CDF; expected cost grows with n * p, so only used for small means
+const binomialInversion = (n: number, p: number, random: UniformRandom): number => {
+  const q = 1 - p;
+  const qn = Math.exp(n * Math.log(q));
+  const mean = n * p;
+  const bound = Math.min(n, mean + 10 * Math.sqrt(mean * q + 1));
+
+  let x = 0;
+  let px = qn;
+  let u = random();
+  while (u > px) {
+    x++;
+    if (x > bound) {
+      x = 0;
+      px = qn;
+      u = random();
+    } else {
+      u -= px;
+      px = ((n - x + 1) * p * px) / (x * q);
+    }
+  }
+  return x;
+};
+
+// Stirling-series correction used in BTPE's final acceptance test
+const stirlingTail = (x: number): number => {
+  const x2 = x * x;
+  return (13680 - (462 - (132 - (99 - 140 / x2) / x2) / x2) / x2) / x / 166320;
+};
+
+// Kachitvichyanukul & Schmeiser's BTPE: triangle/parallelogram/exponential envelope with
+// squeezes, so the cost does not depend on n. Requires p <= 0.5.
+const binomialBtpe = (n: number, p: number, random: UniformRandom): number => {
+  const q = 1 - p;
+  const fm = n * p + p;
+  const m = Math.floor(fm);
+  const p1 = Math.floor(2.195 * Math.sqrt(n * p * q) - 4.6 * q) + 0.5;
+  const xm = m + 0.5;
+  const xl = xm - p1;
+  const xr = xm + p1;
+  const c = 0.134 + 20.5 / (15.3 + m);
+  let a = (fm - xl) / (fm - xl * p);
+  const lambdaL = a * (1 + a / 2);
+  a = (xr - fm) / (xr * q);
+  const lambdaR = a * (1 + a / 2);
+  const p2 = p1 * (1 + 2 * c);
+  const p3 = p2 + c / lambdaL;
+  const p4 = p3 + c / lambdaR;
+  const npq = n * p * q;
+
+  for (;;) {
+    const u = random() * p4;
+    let v = random();
+    let y: number;
+
+    if (u <= p1) {
+      // Triangular centre: accepted without evaluating the density
+      return Math.floor(xm - p1 * v + u);
+    } else if (u <= p2) {
+      const x = xl + (u - p1) / c;
+      v = v * c + 1 - Math.abs(m - x + 0.5) / p1;
+      if (v > 1) continue;
+      y = Math.floor(x);
+    } else if (u <= p3) {
+      y = Math.floor(xl + Math.log(v) / lambdaL);
+      if (y < 0) continue;
+      v = v * (u - p2) * lambdaL;
+    } else {
+      y = Math.floor(xr - Math.log(v) / lambdaR);
+      if (y > n) continue;
+      v = v * (u - p3) * lambdaR;
+    }
+
+    const k = Math.abs(y - m);
+    if (k <= 20 || k >= npq / 2 - 1) {
+      // Explicit density ratio f(y) / f(m) by recursion
+      const s = p / q;
+      const b = s * (n + 1);
+      let f = 1;
+      if (m < y) {
+        for (let i = m + 1; i <= y; i++) f *= b / i - s;
+      } else if (m > y) {
+        for (let i = y + 1; i <= m; i++) f /= b / i - s;
+      }
+      if (v <= f) return y;
+      continue;
+    }
+
+    // Squeeze on log(v), then the Stirling-based exact test
+    const rho = (k / npq) * ((k * (k / 3 + 0.625) + 0.16666666666666666) / npq + 0.5);
+    const t = -(k * k) / (2 * npq);
+    const logV = Math.log(v);
+    if (logV < t - rho) return y;
+    if (logV > t + rho) continue;
+
+    const x1 = y + 1;
+    const f1 = m + 1;
+    const z = n + 1 - m;
+    const w = n - y + 1;
+    const bound = xm * Math.log(f1 / x1) +
+      (n - m + 0.5) * Math.log(z / w) +
+      (y - m) * Math.log((w * p) / (x1 * q)) +
+      stirlingTail(f1) + stirlingTail(z) + stirlingTail(x1) + stirlingTail(w);
+    if (logV <= bound) return y;
+  }
+};
+
+// Exact binomial draws in O(1) expected time, so a day of a million visitors costs one sample
+export const binomialRandom = (n: number, p: number, random: UniformRandom = Math.random): number => {
+  if (n <= 0 || p <= 0) return 0;
+  if (p >= 1) return n;
+
+  const r = Math.min(p, 1 - p);
+  const draw = n * r < BINOMIAL_INVERSION_LIMIT ? binomialInversion(n, r, random) : binomialBtpe(n, r, random);
+  return p > 0.5 ? n - draw : draw;
+};
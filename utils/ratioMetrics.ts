@@ -0,0 +1,115 @@
+import { RatioMetricSummary, RatioMetricTestResult } from '../types/statistics';
+import { normalCDF, normalInverse } from './statisticalCalculations';
+
+// Summary of per-unit [numerator, denominator] rows, e.g. clicks and sessions per user
+export const summarizeRatioRows = (rows: number[][]): RatioMetricSummary => {
+  const n = rows.length;
+  if (n === 0) {
+    return { n: 0, numeratorMean: 0, denominatorMean: 0, numeratorVariance: 0, denominatorVariance: 0, covariance: 0 };
+  }
+
+  const numeratorMean = rows.reduce((sum, [x]) => sum + x, 0) / n;
+  const denominatorMean = rows.reduce((sum, [, y]) => sum + y, 0) / n;
+  let numeratorVariance = 0;
+  let denominatorVariance = 0;
+  let covariance = 0;
+  rows.forEach(([x, y]) => {
+    numeratorVariance += (x - numeratorMean) * (x - numeratorMean);
+    denominatorVariance += (y - denominatorMean) * (y - denominatorMean);
+    covariance += (x - numeratorMean) * (y - denominatorMean);
+  });
+  const divisor = Math.max(n - 1, 1);
+
+  return {
+    n,
+    numeratorMean,
+    denominatorMean,
+    numeratorVariance: numeratorVariance / divisor,
+    denominatorVariance: denominatorVariance / divisor,
+    covariance: covariance / divisor
+  };
+};
+
+export const getRatio = (summary: RatioMetricSummary): number => {
+  return summary.denominatorMean !== 0 ? summary.numeratorMean / summary.denominatorMean : 0;
+};
+
+// Delta-method variance of mean(X) / mean(Y) contributed by a single unit; divide by n for the estimator
+export const ratioUnitVariance = (summary: RatioMetricSummary): number => {
+  const { numeratorMean: mx, denominatorMean: my, numeratorVariance, denominatorVariance, covariance } = summary;
+  if (my === 0) return 0;
+  return Math.max(0,
+    numeratorVariance / (my * my) -
+    (2 * mx * covariance) / Math.pow(my, 3) +
+    (mx * mx * denominatorVariance) / Math.pow(my, 4)
+  );
+};
+
+// Variance per unit if every denominator event were an independent Bernoulli trial,
+// which is what a naive proportion test on sessions or impressions assumes
+const naiveUnitVariance = (summary: RatioMetricSummary): number => {
+  const ratio = getRatio(summary);
+  return summary.denominatorMean > 0 && ratio > 0 && ratio < 1
+    ? (ratio * (1 - ratio)) / summary.denominatorMean
+    : 0;
+};
+
+export const ratioMetricTest = (
+  a: RatioMetricSummary,
+  b: RatioMetricSummary,
+  alpha: number
+): RatioMetricTestResult => {
+  const ratioA = getRatio(a);
+  const ratioB = getRatio(b);
+  const varianceA = ratioUnitVariance(a) / a.n;
+  const varianceB = ratioUnitVariance(b) / b.n;
+  const standardError = Math.sqrt(varianceA + varianceB);
+  const zCrit = normalInverse(1 - alpha / 2);
+
+  const absoluteDifference = ratioB - ratioA;
+  const zScore = standardError > 0 ? absoluteDifference / standardError : 0;
+  const pValue = standardError > 0 ? 2 * normalCDF(-Math.abs(zScore)) : 1;
+
+  // Second delta-method step for ratioB / ratioA
+  const relative = ratioA !== 0 ? ratioB / ratioA : 0;
+  const relativeSE = ratioA !== 0
+    ? Math.sqrt(varianceB / (ratioA * ratioA) + (relative * relative * varianceA) / (ratioA * ratioA))
+    : 0;
+
+  const naiveVariance = naiveUnitVariance(a) / a.n + naiveUnitVariance(b) / b.n;
+
+  return {
+    isSignificant: pValue < alpha,
+    pValue,
+    zScore,
+    ratioA,
+    ratioB,
+    standardError,
+    absoluteDifference,
+    absoluteConfidenceInterval: [absoluteDifference - zCrit * standardError, absoluteDifference + zCrit * standardError],
+    relativeDifference: (relative - 1) * 100,
+    relativeConfidenceInterval: [(relative - 1 - zCrit * relativeSE) * 100, (relative - 1 + zCrit * relativeSE) * 100],
+    designEffect: naiveVariance > 0 ? (varianceA + varianceB) / naiveVariance : 0
+  };
+};
+
+// Units per variant to detect a relative change of effectSize% in the ratio, two-sided
+export const calculateRatioSampleSize = (
+  baseline: RatioMetricSummary,
+  effectSize: number,
+  power: number,
+  alpha: number
+): number => {
+  const difference = getRatio(baseline) * effectSize / 100;
+  if (difference === 0) return Infinity;
+
+  const zAlpha = normalInverse(1 - alpha / 2);
+  const zBeta = normalInverse(power / 100);
+  return Math.ceil((2 * ratioUnitVariance(baseline) * Math.pow(zAlpha + zBeta, 2)) / (difference * difference));
+};
+
+// Design effect of the ratio against treating every denominator event as independent
+export const getRatioDesignEffect = (summary: RatioMetricSummary): number => {
+  const naive = naiveUnitVariance(summary);
+  return naive > 0 ? ratioUnitVariance(summary) / naive : 0;
+};
@@ -0,0 +1,202 @@
+import {
+  RevenueMethodOutcome,
+  RevenueRunResult,
+  RevenueSimulationSettings,
+  RevenueSimulationSummary,
+  RevenueTestMethod,
+  SimulationParameters
+} from '../types/simulation';
+import { SampleSummary } from '../types/statistics';
+import { welchTTest } from './hypothesisTests';
+import { normalCDF } from './statisticalCalculations';
+import {
+  binomialRandom,
+  createSeededRandom,
+  deriveSeed,
+  gammaRandom,
+  lognormalRandom,
+  paretoRandom,
+  UniformRandom
+} from './randomVariates';
+import { SIGNIFICANCE_LEVEL } from './virtualUsers';
+import { REVENUE_TEST_METHOD_OPTIONS } from '../constants/experimentDefaults';
+
+// Revenue of one arm: most users spend nothing, so only buyers' order values are stored
+interface ZeroInflatedSample {
+  zeros: number;
+  values: number[];
+}
+
+// Pareto needs a tail index above 1 for a finite mean order value
+export const isValidRevenueSettings = (settings: RevenueSimulationSettings): boolean => {
+  return settings.meanOrderValue > 0 &&
+    (settings.spendDistribution === 'pareto' ? settings.spendShape > 1 : settings.spendShape > 0) &&
+    settings.whaleRate >= 0 && settings.whaleRate <= 100 && settings.whaleMultiplier >= 1 &&
+    settings.winsorizePercentile > 50 && settings.winsorizePercentile < 100 &&
+    Number.isInteger(settings.bootstrapResamples) && settings.bootstrapResamples >= 100;
+};
+
+// Order value with mean 1 under the chosen distribution
+const unitOrderValue = (settings: RevenueSimulationSettings, random: UniformRandom): number => {
+  switch (settings.spendDistribution) {
+    case 'gamma':
+      return gammaRandom(settings.spendShape, random) / settings.spendShape;
+    case 'pareto':
+      return (paretoRandom(settings.spendShape, random) * (settings.spendShape - 1)) / settings.spendShape;
+    default:
+      return lognormalRandom(settings.spendShape, random) / Math.exp((settings.spendShape * settings.spendShape) / 2);
+  }
+};
+
+// Whales are drawn independently of the arm, so they scale both arms' mean by the same factor
+const simulateArm = (
+  users: number,
+  conversionRate: number,
+  meanOrderValue: number,
+  settings: RevenueSimulationSettings,
+  random: UniformRandom
+): { sample: ZeroInflatedSample; whaleRevenue: number } => {
+  const buyers = binomialRandom(users, Math.min(1, conversionRate), random);
+  const whaleRate = settings.whaleRate / 100;
+  let whaleRevenue = 0;
+  const values = Array.from({ length: buyers }, () => {
+    const value = meanOrderValue * unitOrderValue(settings, random);
+    if (random() >= whaleRate) return value;
+    whaleRevenue += value * settings.whaleMultiplier;
+    return value * settings.whaleMultiplier;
+  });
+  return { sample: { zeros: users - buyers, values }, whaleRevenue };
+};
+
+const summarize = (sample: ZeroInflatedSample): SampleSummary => {
+  const n = sample.zeros + sample.values.length;
+  const mean = sample.values.reduce((sum, v) => sum + v, 0) / n;
+  const sumOfSquares = sample.values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) + sample.zeros * mean * mean;
+  return { mean, standardDeviation: n > 1 ? Math.sqrt(sumOfSquares / (n - 1)) : 0, n };
+};
+
+const welchPValue = (control: ZeroInflatedSample, treatment: ZeroInflatedSample): number => {
+  const a = summarize(control);
+  const b = summarize(treatment);
+  return a.n > 1 && b.n > 1 ? welchTTest(a, b, SIGNIFICANCE_LEVEL).pValue : 1;
+};
+
+// Caps order values at a percentile of both arms' buyers, the usual treatment of revenue outliers;
+// capping at a percentile of all users would land on zero whenever few users buy
+const winsorizedPValue = (control: ZeroInflatedSample, treatment: ZeroInflatedSample, percentile: number): number => {
+  const pooled = [...control.values, ...treatment.values].sort((x, y) => x - y);
+  if (pooled.length === 0) return 1;
+  const cap = pooled[Math.min(pooled.length - 1, Math.floor((percentile / 100) * pooled.length))];
+  const winsorize = (sample: ZeroInflatedSample): ZeroInflatedSample => ({
+    zeros: sample.zeros,
+    values: sample.values.map(v => Math.min(v, cap))
+  });
+  return welchPValue(winsorize(control), winsorize(treatment));
+};
+
+// Normal approximation with the tie correction; the zeros form one large tie
+const mannWhitneyPValue = (control: ZeroInflatedSample, treatment: ZeroInflatedSample): number => {
+  const nA = control.zeros + control.values.length;
+  const nB = treatment.zeros + treatment.values.length;
+  const n = nA + nB;
+  const zeros = control.zeros + treatment.zeros;
+
+  let tieTerm = zeros * zeros * zeros - zeros;
+  let rankSumB = treatment.zeros * ((zeros + 1) / 2);
+
+  const pooled = [
+    ...control.values.map(value => ({ value, isTreatment: false })),
+    ...treatment.values.map(value => ({ value, isTreatment: true }))
+  ].sort((x, y) => x.value - y.value);
+  for (let i = 0; i < pooled.length;) {
+    let j = i;
+    while (j < pooled.length && pooled[j].value === pooled[i].value) j++;
+    const ties = j - i;
+    const averageRank = zeros + (i + 1 + j) / 2;
+    for (let k = i; k < j; k++) if (pooled[k].isTreatment) rankSumB += averageRank;
+    tieTerm += ties * ties * ties - ties;
+    i = j;
+  }
+
+  const u = rankSumB - (nB * (nB + 1)) / 2;
+  const variance = ((nA * nB) / 12) * ((n + 1) - tieTerm / (n * (n - 1)));
+  if (variance <= 0) return 1;
+  const z = (u - (nA * nB) / 2) / Math.sqrt(variance);
+  return 2 * normalCDF(-Math.abs(z));
+};
+
+// Mean of a resample of the arm: the number of buyers drawn is binomial, so only buyers are resampled
+const resampleMean = (sample: ZeroInflatedSample, random: UniformRandom): number => {
+  const n = sample.zeros + sample.values.length;
+  const buyers = binomialRandom(n, sample.values.length / n, random);
+  let sum = 0;
+  for (let i = 0; i < buyers; i++) sum += sample.values[Math.floor(random() * sample.values.length)];
+  return sum / n;
+};
+
+// Two-sided p-value from the smallest percentile interval of the mean difference that excludes zero
+const bootstrapPValue = (control: ZeroInflatedSample, treatment: ZeroInflatedSample, resamples: number, random: UniformRandom): number => {
+  let belowZero = 0;
+  let aboveZero = 0;
+  for (let b = 0; b < resamples; b++) {
+    const difference = resampleMean(treatment, random) - resampleMean(control, random);
+    if (difference <= 0) belowZero++;
+    if (difference >= 0) aboveZero++;
+  }
+  return Math.min(1, (2 * Math.min(belowZero, aboveZero)) / resamples);
+};
+
+// One experiment with sampleSizePerVariant users per arm, analysed with every method
+export const simulateRevenueRun = (
+  parameters: SimulationParameters,
+  settings: RevenueSimulationSettings,
+  random: UniformRandom = Math.random
+): RevenueRunResult => {
+  const lift = 1 + parameters.treatmentEffect / 100;
+  const conversionRate = parameters.baselineRate / 100;
+  const users = parameters.sampleSizePerVariant;
+  const control = simulateArm(users, conversionRate, settings.meanOrderValue, settings, random);
+  const treatment = settings.effectTarget === 'conversion'
+    ? simulateArm(users, conversionRate * lift, settings.meanOrderValue, settings, random)
+    : simulateArm(users, conversionRate, settings.meanOrderValue * lift, settings, random);
+
+  const totalRevenue = [...control.sample.values, ...treatment.sample.values].reduce((sum, v) => sum + v, 0);
+  return {
+    pValues: {
+      'welch-t': welchPValue(control.sample, treatment.sample),
+      'mann-whitney': mannWhitneyPValue(control.sample, treatment.sample),
+      'winsorized-t': winsorizedPValue(control.sample, treatment.sample, settings.winsorizePercentile),
+      'bootstrap': bootstrapPValue(control.sample, treatment.sample, settings.bootstrapResamples, random)
+    },
+    whaleRevenueShare: totalRevenue > 0 ? (control.whaleRevenue + treatment.whaleRevenue) / totalRevenue : 0
+  };
+};
+
+export const simulateRevenueRuns = (
+  parameters: SimulationParameters,
+  settings: RevenueSimulationSettings,
+  seed: number,
+  startIndex: number,
+  count: number
+): RevenueRunResult[] => {
+  return Array.from({ length: count }, (_, i) => (
+    simulateRevenueRun(parameters, settings, createSeededRandom(deriveSeed(seed, startIndex + i)))
+  ));
+};
+
+const rejectionRate = (runs: RevenueRunResult[], method: RevenueTestMethod): number => {
+  return (runs.filter(run => run.pValues[method] < SIGNIFICANCE_LEVEL).length / Math.max(runs.length, 1)) * 100;
+};
+
+// H0 runs give each method's false positive rate, H1 runs its power
+export const summarizeRevenueRuns = (nullRuns: RevenueRunResult[], alternativeRuns: RevenueRunResult[]): RevenueSimulationSummary => {
+  const outcomes: RevenueMethodOutcome[] = REVENUE_TEST_METHOD_OPTIONS.map(({ value: method }) => ({
+    method,
+    falsePositiveRate: rejectionRate(nullRuns, method),
+    power: rejectionRate(alternativeRuns, method)
+  }));
+  return {
+    outcomes,
+    whaleRevenueShare: (nullRuns.reduce((sum, run) => sum + run.whaleRevenueShare, 0) / Math.max(nullRuns.length, 1)) * 100
+  };
+};
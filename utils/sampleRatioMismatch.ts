@@ -0,0 +1,41 @@
+import { DailySampleRatioPoint, SampleRatioMismatchResult } from '../types/statistics';
+import { chiSquareGoodnessOfFit } from './hypothesisTests';
+
+// Compares observed visitors per variant with the planned traffic allocation (in percent)
+export const detectSampleRatioMismatch = (
+  visitors: number[],
+  allocations: number[],
+  threshold: number
+): SampleRatioMismatchResult => {
+  const totalVisitors = visitors.reduce((sum, v) => sum + v, 0);
+  const totalAllocation = allocations.reduce((sum, a) => sum + a, 0);
+  const test = chiSquareGoodnessOfFit(visitors, allocations);
+
+  return {
+    ...test,
+    expectedVisitors: allocations.map(a => totalAllocation > 0 ? totalVisitors * a / totalAllocation : 0),
+    observedShares: visitors.map(v => totalVisitors > 0 ? (v / totalVisitors) * 100 : 0),
+    isMismatch: test.pValue < threshold
+  };
+};
+
+// Per-day and cumulative SRM checks; each row holds one day's visitors per variant
+export const getDailySampleRatioTrend = (
+  dailyVisitors: number[][],
+  allocations: number[],
+  threshold: number
+): DailySampleRatioPoint[] => {
+  const cumulative = allocations.map(() => 0);
+
+  return dailyVisitors.map((day, index) => {
+    day.forEach((count, i) => { cumulative[i] += count; });
+    const cumulativeResult = detectSampleRatioMismatch(cumulative, allocations, threshold);
+
+    return {
+      day: index + 1,
+      dailyPValue: chiSquareGoodnessOfFit(day, allocations).pValue,
+      cumulativePValue: cumulativeResult.pValue,
+      isMismatch: cumulativeResult.isMismatch
+    };
+  });
+};
@@ -0,0 +1,189 @@
+import { ExperimentSegment } from '../types/experiment';
+import { ArmCounts } from '../types/statistics';
+import { SegmentComparison, SegmentRunResult, SegmentSimulationSummary, SimulationParameters } from '../types/simulation';
+import { pooledZScore } from './hypothesisTests';
+import { normalCDF } from './statisticalCalculations';
+import { binomialRandom, createSeededRandom, deriveSeed, UniformRandom } from './randomVariates';
+import { getDailyVisitors, SIGNIFICANCE_LEVEL, SIMULATION_DAYS } from './virtualUsers';
+
+// Segments need positive traffic and rates a treatment lift can apply to
+export const isValidSegmentation = (segments: ExperimentSegment[]): boolean => {
+  const isShare = (value: number) => value >= 0 && value <= 100;
+  return segments.length >= 2 && segments.every(segment => (
+    segment.trafficShare > 0 && segment.baselineRate > 0 && segment.baselineRate < 100 && segment.lift > -100 &&
+    isShare(segment.treatmentShare) && isShare(segment.finalTreatmentShare)
+  ));
+};
+
+// Share of the segment's visitors sent to treatment on the given day, moving linearly over the test
+export const getSegmentTreatmentShare = (segment: ExperimentSegment, day: number): number => {
+  const progress = SIMULATION_DAYS > 1 ? (day - 1) / (SIMULATION_DAYS - 1) : 0;
+  return (segment.treatmentShare + (segment.finalTreatmentShare - segment.treatmentShare) * progress) / 100;
+};
+
+const getSegmentRates = (segment: ExperimentSegment): [number, number] => {
+  const controlRate = segment.baselineRate / 100;
+  return [controlRate, Math.min(1, Math.max(0, controlRate * (1 + segment.lift / 100)))];
+};
+
+// Visitors of each segment on each day; both arms together get twice the per-variant sample size
+const getSegmentVisitors = (parameters: SimulationParameters, segments: ExperimentSegment[]): number[][] => {
+  const totalShare = segments.reduce((sum, segment) => sum + segment.trafficShare, 0);
+  return getDailyVisitors(parameters).map(visitors => segments.map(segment => (
+    totalShare > 0 ? Math.floor((2 * visitors * segment.trafficShare) / totalShare) : 0
+  )));
+};
+
+const emptyCounts = (): ArmCounts => ({ controlVisitors: 0, controlConversions: 0, treatmentVisitors: 0, treatmentConversions: 0 });
+
+const sumCounts = (counts: ArmCounts[]): ArmCounts => counts.reduce((total, c) => ({
+  controlVisitors: total.controlVisitors + c.controlVisitors,
+  controlConversions: total.controlConversions + c.controlConversions,
+  treatmentVisitors: total.treatmentVisitors + c.treatmentVisitors,
+  treatmentConversions: total.treatmentConversions + c.treatmentConversions
+}), emptyCounts());
+
+// One experiment: each day's visitors are randomized within their segment at that day's allocation
+export const simulateSegmentRun = (
+  parameters: SimulationParameters,
+  segments: ExperimentSegment[],
+  random: UniformRandom = Math.random
+): SegmentRunResult => {
+  const totals = segments.map(emptyCounts);
+  const rates = segments.map(getSegmentRates);
+
+  getSegmentVisitors(parameters, segments).forEach((dayVisitors, dayIndex) => {
+    segments.forEach((segment, s) => {
+      const treatmentVisitors = binomialRandom(dayVisitors[s], getSegmentTreatmentShare(segment, dayIndex + 1), random);
+      const controlVisitors = dayVisitors[s] - treatmentVisitors;
+      totals[s].controlVisitors += controlVisitors;
+      totals[s].controlConversions += binomialRandom(controlVisitors, rates[s][0], random);
+      totals[s].treatmentVisitors += treatmentVisitors;
+      totals[s].treatmentConversions += binomialRandom(treatmentVisitors, rates[s][1], random);
+    });
+  });
+
+  return { segments: totals, pooled: sumCounts(totals) };
+};
+
+export const simulateSegmentRuns = (
+  parameters: SimulationParameters,
+  segments: ExperimentSegment[],
+  seed: number,
+  startIndex: number,
+  count: number
+): SegmentRunResult[] => {
+  return Array.from({ length: count }, (_, i) => (
+    simulateSegmentRun(parameters, segments, createSeededRandom(deriveSeed(seed, startIndex + i)))
+  ));
+};
+
+// The same experiment without sampling noise: expected arm sizes and conversions
+const getExpectedSegmentCounts = (parameters: SimulationParameters, segments: ExperimentSegment[]): SegmentRunResult => {
+  const totals = segments.map(emptyCounts);
+  const rates = segments.map(getSegmentRates);
+
+  getSegmentVisitors(parameters, segments).forEach((dayVisitors, dayIndex) => {
+    segments.forEach((segment, s) => {
+      const treatmentVisitors = dayVisitors[s] * getSegmentTreatmentShare(segment, dayIndex + 1);
+      const controlVisitors = dayVisitors[s] - treatmentVisitors;
+      totals[s].controlVisitors += controlVisitors;
+      totals[s].controlConversions += controlVisitors * rates[s][0];
+      totals[s].treatmentVisitors += treatmentVisitors;
+      totals[s].treatmentConversions += treatmentVisitors * rates[s][1];
+    });
+  });
+
+  return { segments: totals, pooled: sumCounts(totals) };
+};
+
+const controlRate = (counts: ArmCounts): number => counts.controlVisitors > 0 ? counts.controlConversions / counts.controlVisitors : 0;
+const treatmentRate = (counts: ArmCounts): number => counts.treatmentVisitors > 0 ? counts.treatmentConversions / counts.treatmentVisitors : 0;
+
+// Relative lift in percent; undefined without control conversions
+const relativeLift = (counts: ArmCounts): number | null => {
+  const control = controlRate(counts);
+  return control > 0 ? (treatmentRate(counts) / control - 1) * 100 : null;
+};
+
+const isSignificant = (counts: ArmCounts): boolean => {
+  if (counts.controlVisitors === 0 || counts.treatmentVisitors === 0) return false;
+  const z = pooledZScore(counts.controlConversions, counts.controlVisitors, counts.treatmentConversions, counts.treatmentVisitors);
+  return 2 * normalCDF(-Math.abs(z)) < SIGNIFICANCE_LEVEL;
+};
+
+// The sign every segment's lift shares, or 0 when they disagree or any is zero
+const commonSign = (lifts: number[]): number => {
+  const sign = Math.sign(lifts[0] ?? 0);
+  return lifts.every(lift => Math.sign(lift) === sign) ? sign : 0;
+};
+
+// Reversal: all segments move one way and the pooled comparison the other
+const isReversal = (segmentLifts: number[], pooledLift: number): boolean => {
+  const sign = commonSign(segmentLifts);
+  return sign !== 0 && Math.sign(pooledLift) === -sign;
+};
+
+// Lift of the traffic-share-weighted treatment rate over the weighted control rate, i.e. what
+// the test would show with the same allocation in every segment
+const stratifiedLift = (counts: ArmCounts[], segments: ExperimentSegment[]): number | null => {
+  const weighted = (rate: (c: ArmCounts) => number) => counts.reduce((sum, c, s) => sum + segments[s].trafficShare * rate(c), 0);
+  const control = weighted(controlRate);
+  return control > 0 ? (weighted(treatmentRate) / control - 1) * 100 : null;
+};
+
+const average = (values: Array<number | null>): number => {
+  const defined = values.filter((value): value is number => value !== null);
+  return defined.reduce((sum, v) => sum + v, 0) / Math.max(defined.length, 1);
+};
+
+const compare = (
+  name: string,
+  trafficShare: number,
+  expected: ArmCounts,
+  runs: ArmCounts[]
+): SegmentComparison => ({
+  name,
+  trafficShare,
+  treatmentShare: (expected.treatmentVisitors / Math.max(expected.controlVisitors + expected.treatmentVisitors, 1)) * 100,
+  expectedControlRate: controlRate(expected) * 100,
+  expectedTreatmentRate: treatmentRate(expected) * 100,
+  expectedLift: relativeLift(expected) ?? 0,
+  averageLift: average(runs.map(relativeLift)),
+  significantRate: (runs.filter(isSignificant).length / Math.max(runs.length, 1)) * 100
+});
+
+export const summarizeSegmentRuns = (
+  runs: SegmentRunResult[],
+  parameters: SimulationParameters,
+  segments: ExperimentSegment[]
+): SegmentSimulationSummary => {
+  const expected = getExpectedSegmentCounts(parameters, segments);
+  const totalShare = segments.reduce((sum, segment) => sum + segment.trafficShare, 0);
+  const expectedPooledLift = relativeLift(expected.pooled) ?? 0;
+  const configuredSign = commonSign(segments.map(segment => segment.lift));
+
+  const reversals = runs.filter(run => {
+    const lifts = run.segments.map(relativeLift);
+    const pooledLift = relativeLift(run.pooled);
+    return pooledLift !== null && lifts.every(lift => lift !== null) && isReversal(lifts as number[], pooledLift);
+  }).length;
+  const misleading = configuredSign === 0 ? 0 : runs.filter(run => (
+    isSignificant(run.pooled) && Math.sign(treatmentRate(run.pooled) - controlRate(run.pooled)) === -configuredSign
+  )).length;
+
+  return {
+    segments: segments.map((segment, s) => compare(
+      segment.name,
+      totalShare > 0 ? (segment.trafficShare / totalShare) * 100 : 0,
+      expected.segments[s],
+      runs.map(run => run.segments[s])
+    )),
+    pooled: compare('Pooled', 100, expected.pooled, runs.map(run => run.pooled)),
+    expectedStratifiedLift: stratifiedLift(expected.segments, segments) ?? 0,
+    averageStratifiedLift: average(runs.map(run => stratifiedLift(run.segments, segments))),
+    isSimpsonsParadox: isReversal(segments.map(segment => segment.lift), expectedPooledLift),
+    reversalRate: (reversals / Math.max(runs.length, 1)) * 100,
+    misleadingSignificantRate: (misleading / Math.max(runs.length, 1)) * 100
+  };
+};
@@ -0,0 +1,94 @@
+import { SimulationChunkRequest, SimulationChunkResponse, SimulationPool, SimulationTask } from '../types/simulation';
+
+// Chunks per worker; more chunks give smoother progress and better balancing at a small messaging cost
+const CHUNKS_PER_WORKER = 10;
+const MAX_WORKERS = 8;
+
+// Leave one core for the UI thread
+export const getDefaultPoolSize = (): number => {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(MAX_WORKERS, cores - 1));
+};
+
+const spawnWorker = (): Worker => {
+  return new Worker(new URL('../workers/virtualUserSimulation.worker.ts', import.meta.url), { type: 'module' });
+};
+
+// Workers are created lazily and kept between runs. Cancelling a job in flight terminates them,
+// which stops its work, and the next run starts a fresh set.
+export const createSimulationPool = (size: number = getDefaultPoolSize()): SimulationPool => {
+  let workers: Worker[] = [];
+  let nextJobId = 0;
+  let cancelActive: (() => void) | null = null;
+
+  const terminate = () => {
+    workers.forEach(worker => worker.terminate());
+    workers = [];
+  };
+
+  // Idle workers are kept; only a running job needs its workers stopped
+  const cancel = () => {
+    if (!cancelActive) return;
+    terminate();
+    cancelActive();
+    cancelActive = null;
+  };
+
+  const run = <T>(task: SimulationTask, seed: number, onProgress: (completed: number) => void): Promise<T[] | null> => {
+    cancel();
+    const total = task.parameters.numberOfSimulations;
+    if (total <= 0) return Promise.resolve([]);
+    if (workers.length === 0) workers = Array.from({ length: size }, spawnWorker);
+
+    const jobId = ++nextJobId;
+    const chunkSize = Math.max(1, Math.ceil(total / (workers.length * CHUNKS_PER_WORKER)));
+    const results = new Array<T>(total);
+    let nextIndex = 0;
+    let completed = 0;
+
+    return new Promise<T[] | null>((resolve, reject) => {
+      cancelActive = () => resolve(null);
+
+      const dispatch = (worker: Worker) => {
+        if (nextIndex >= total) return;
+        const request: SimulationChunkRequest = {
+          jobId,
+          task,
+          seed,
+          startIndex: nextIndex,
+          count: Math.min(chunkSize, total - nextIndex)
+        };
+        nextIndex += request.count;
+        worker.postMessage(request);
+      };
+
+      workers.forEach(worker => {
+        worker.onmessage = (event: MessageEvent<SimulationChunkResponse<T>>) => {
+          const response = event.data;
+          if (response.jobId !== jobId) return;
+
+          response.results.forEach((simulation, i) => {
+            results[response.startIndex + i] = simulation;
+          });
+          completed += response.results.length;
+          onProgress(completed);
+
+          if (completed === total) {
+            cancelActive = null;
+            resolve(results);
+          } else {
+            dispatch(worker);
+          }
+        };
+        worker.onerror = (event: ErrorEvent) => {
+          terminate();
+          cancelActive = null;
+          reject(new Error(event.message));
+        };
+        dispatch(worker);
+      });
+    });
+  };
+
+  return { run, cancel, terminate };
+};
@@ -0,0 +1,73 @@
+import { SprtDesign, SprtOperatingPoint } from '../types/statistics';
+
+// Below this |h| the OC and ASN formulas are replaced by their limits at h = 0
+const LIMIT_THRESHOLD = 1e-4;
+
+// Wald's SPRT for Bernoulli trials, H0: p = p0 against H1: p = p1 > p0. After m trials with
+// x successes, reject H0 once x ≥ rejectIntercept + slope·m and accept it once
+// x ≤ acceptIntercept + slope·m, which keeps the error rates at about α and β.
+export const waldSprtDesign = (p0: number, p1: number, alpha: number, beta: number): SprtDesign => {
+  const logOdds = Math.log((p1 * (1 - p0)) / (p0 * (1 - p1)));
+  return {
+    nullProbability: p0,
+    alternativeProbability: p1,
+    slope: Math.log((1 - p0) / (1 - p1)) / logOdds,
+    acceptIntercept: Math.log(beta / (1 - alpha)) / logOdds,
+    rejectIntercept: Math.log((1 - beta) / alpha) / logOdds
+  };
+};
+
+export const sprtDecision = (
+  design: SprtDesign,
+  trials: number,
+  successes: number
+): 'accept' | 'reject' | 'continue' => {
+  if (successes >= design.rejectIntercept + design.slope * trials) return 'reject';
+  if (successes <= design.acceptIntercept + design.slope * trials) return 'accept';
+  return 'continue';
+};
+
+// Wald's approximations to the operating characteristic and average sample number, traced
+// through the auxiliary parameter h: h = 1 gives p0, h = -1 gives p1
+const operatingPointAt = (design: SprtDesign, h: number, alpha: number, beta: number): SprtOperatingPoint => {
+  const { nullProbability: p0, alternativeProbability: p1 } = design;
+  const logA = Math.log((1 - beta) / alpha);
+  const logB = Math.log(beta / (1 - alpha));
+  const logSuccess = Math.log(p1 / p0);
+  const logFailure = Math.log((1 - p1) / (1 - p0));
+
+  if (Math.abs(h) < LIMIT_THRESHOLD) {
+    return {
+      successProbability: design.slope,
+      acceptProbability: logA / (logA - logB),
+      expectedSampleSize: -(logA * logB) / (logSuccess * -logFailure)
+    };
+  }
+
+  const successProbability = (1 - Math.exp(h * logFailure)) / (Math.exp(h * logSuccess) - Math.exp(h * logFailure));
+  const acceptProbability = (Math.exp(h * logA) - 1) / (Math.exp(h * logA) - Math.exp(h * logB));
+  const drift = successProbability * logSuccess + (1 - successProbability) * logFailure;
+  return {
+    successProbability,
+    acceptProbability,
+    expectedSampleSize: (acceptProbability * logB + (1 - acceptProbability) * logA) / drift
+  };
+};
+
+// OC and ASN at a given true success probability, solving for h by bisection since the
+// success probability falls as h grows
+export const sprtOperatingCharacteristic = (
+  design: SprtDesign,
+  successProbability: number,
+  alpha: number,
+  beta: number
+): SprtOperatingPoint => {
+  let lo = -50;
+  let hi = 50;
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (operatingPointAt(design, mid, alpha, beta).successProbability > successProbability) lo = mid;
+    else hi = mid;
+  }
+  return operatingPointAt(design, (lo + hi) / 2, alpha, beta);
+};
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import {
+  betaQuantile,
+  chiSquareQuantile,
+  fQuantile,
+  normalCDF,
+  normalInverse,
+  regularizedBeta,
+  regularizedGammaP,
+  regularizedGammaQ,
+  studentTQuantile
+} from './statisticalCalculations';
+
+// Reference values are tabulated to at least 10 significant digits unless the tolerance says otherwise;
+// tail probabilities are compared on a relative scale since their absolute size is tiny
+const expectRelativelyClose = (actual: number, expected: number, tolerance: number) => {
+  expect(Math.abs(actual - expected) / Math.abs(expected)).toBeLessThan(tolerance);
+};
+
+describe('normalCDF', () => {
+  it('matches the standard normal table', () => {
+    expect(normalCDF(0)).toBeCloseTo(0.5, 14);
+    expect(normalCDF(1.96)).toBeCloseTo(0.9750021048517795, 12);
+    expect(normalCDF(-1.96)).toBeCloseTo(0.0249978951482205, 12);
+    expect(normalCDF(1)).toBeCloseTo(0.8413447460685429, 12);
+  });
+
+  it('keeps relative accuracy in the lower tail', () => {
+    expectRelativelyClose(normalCDF(-3), 1.349898031630095e-3, 1e-10);
+    expectRelativelyClose(normalCDF(-5), 2.866515718791946e-7, 1e-10);
+    expectRelativelyClose(normalCDF(-8), 6.220960574271819e-16, 1e-10);
+  });
+});
+
+describe('normalInverse', () => {
+  it('matches the standard normal quantiles', () => {
+    expect(normalInverse(0.5)).toBeCloseTo(0, 12);
+    expect(normalInverse(0.975)).toBeCloseTo(1.959963984540054, 10);
+    expect(normalInverse(0.025)).toBeCloseTo(-1.959963984540054, 10);
+    expect(normalInverse(0.8)).toBeCloseTo(0.8416212335729143, 10);
+  });
+
+  it('stays accurate in the tails', () => {
+    expect(normalInverse(0.999)).toBeCloseTo(3.090232306167814, 10);
+    expect(normalInverse(1e-6)).toBeCloseTo(-4.753424308822899, 10);
+    expect(normalInverse(1e-10)).toBeCloseTo(-6.361340902404056, 10);
+    expect(normalInverse(1 - 1e-10)).toBeCloseTo(6.361340902404056, 5);
+  });
+
+  it('inverts normalCDF', () => {
+    for (const z of [-6, -2.5, -0.3, 0.7, 4]) {
+      expect(normalInverse(normalCDF(z))).toBeCloseTo(z, 8);
+    }
+  });
+});
+
+describe('studentTQuantile', () => {
+  it('matches the closed forms for one and two degrees of freedom', () => {
+    // t(1) is Cauchy: tan(π(p - 1/2)); t(2): (2p - 1) / sqrt(2p(1 - p))
+    expect(studentTQuantile(0.975, 1)).toBeCloseTo(12.706204736174696, 10);
+    expect(studentTQuantile(0.975, 2)).toBeCloseTo(4.302652729749464, 10);
+  });
+
+  it('matches the t table', () => {
+    expect(studentTQuantile(0.95, 5)).toBeCloseTo(2.015048, 6);
+    expect(studentTQuantile(0.975, 10)).toBeCloseTo(2.228138851986274, 10);
+    expect(studentTQuantile(0.995, 30)).toBeCloseTo(2.749995653567, 10);
+    expect(studentTQuantile(0.025, 10)).toBeCloseTo(-2.228138851986274, 10);
+  });
+
+  it('approaches the normal quantile for large degrees of freedom', () => {
+    expect(studentTQuantile(0.975, 1e6)).toBeCloseTo(1.959963984540054, 5);
+  });
+});
+
+describe('chiSquareQuantile', () => {
+  it('matches the closed form for two degrees of freedom', () => {
+    // χ²(2) is exponential with mean 2: -2 ln(1 - p)
+    expect(chiSquareQuantile(0.95, 2)).toBeCloseTo(5.991464547107982, 10);
+    expect(chiSquareQuantile(0.05, 2)).toBeCloseTo(0.1025865887751011, 10);
+  });
+
+  it('matches the chi-square table', () => {
+    expect(chiSquareQuantile(0.95, 1)).toBeCloseTo(3.841458820694124, 10);
+    expect(chiSquareQuantile(0.99, 5)).toBeCloseTo(15.08627246938899, 9);
+    expect(chiSquareQuantile(0.95, 10)).toBeCloseTo(18.30703805327515, 9);
+  });
+});
+
+describe('fQuantile', () => {
+  it('matches the closed forms', () => {
+    // F(1, d) is the square of t(d); F(2, d): (d / 2)((1 - p)^(-2/d) - 1)
+    expect(fQuantile(0.95, 1, 1)).toBeCloseTo(12.706204736174696 ** 2, 7);
+    expect(fQuantile(0.99, 2, 20)).toBeCloseTo(10 * (0.01 ** -0.1 - 1), 9);
+  });
+
+  it('matches the F table', () => {
+    expect(fQuantile(0.95, 5, 10)).toBeCloseTo(3.325834530413011, 9);
+    expect(fQuantile(0.95, 10, 10)).toBeCloseTo(2.978237016, 9);
+  });
+});
+
+describe('betaQuantile', () => {
+  it('matches the closed forms', () => {
+    // Beta(1, 1) is uniform, Beta(a, 1) has CDF x^a and Beta(1/2, 1/2) is the arcsine law
+    expect(betaQuantile(0.025, 1, 1)).toBeCloseTo(0.025, 12);
+    expect(betaQuantile(0.1, 3, 1)).toBeCloseTo(Math.cbrt(0.1), 12);
+    expect(betaQuantile(0.975, 0.5, 0.5)).toBeCloseTo(Math.sin((Math.PI * 0.975) / 2) ** 2, 12);
+  });
+
+  it('matches the tabulated median of Beta(2, 3)', () => {
+    expect(betaQuantile(0.5, 2, 3)).toBeCloseTo(0.3857275681323, 11);
+  });
+
+  it('inverts regularizedBeta', () => {
+    for (const p of [0.001, 0.3, 0.999]) {
+      expect(regularizedBeta(betaQuantile(p, 15, 85), 15, 85)).toBeCloseTo(p, 10);
+    }
+  });
+});
+
+describe('regularizedGammaP', () => {
+  it('matches the closed forms', () => {
+    // P(1, x) = 1 - e^-x, P(3, x) = 1 - e^-x(1 + x + x²/2) and P(1/2, x) = erf(√x)
+    expect(regularizedGammaP(1, 1)).toBeCloseTo(0.6321205588285577, 13);
+    expect(regularizedGammaP(3, 2)).toBeCloseTo(0.3233235838169365, 13);
+    expect(regularizedGammaP(0.5, 2)).toBeCloseTo(0.9544997361036416, 13);
+  });
+
+  it('is complemented by regularizedGammaQ on both sides of a + 1', () => {
+    expect(regularizedGammaQ(3, 2)).toBeCloseTo(0.6766764161830635, 13);
+    expect(regularizedGammaP(2, 10) + regularizedGammaQ(2, 10)).toBeCloseTo(1, 14);
+  });
+
+  it('handles the boundaries', () => {
+    expect(regularizedGammaP(2, 0)).toBe(0);
+    expect(regularizedGammaP(2, Infinity)).toBe(1);
+  });
+});
+
+describe('regularizedBeta', () => {
+  it('matches the binomial tail identity', () => {
+    // For integer a and b, I_x(a, b) = P(Binomial(a + b - 1, x) >= a)
+    expect(regularizedBeta(0.5, 2, 3)).toBeCloseTo(0.6875, 13);
+    expect(regularizedBeta(0.2, 2, 5)).toBeCloseTo(0.34464, 13);
+    expect(regularizedBeta(0.9, 2, 5)).toBeCloseTo(0.999945, 13);
+  });
+
+  it('matches the closed forms and symmetry', () => {
+    expect(regularizedBeta(0.3, 1, 1)).toBeCloseTo(0.3, 13);
+    expect(regularizedBeta(0.4, 3, 1)).toBeCloseTo(0.064, 13);
+    expect(regularizedBeta(0.5, 7, 7)).toBeCloseTo(0.5, 13);
+    expect(regularizedBeta(0.3, 2.5, 4) + regularizedBeta(0.7, 4, 2.5)).toBeCloseTo(1, 13);
+  });
+
+  it('handles the boundaries', () => {
+    expect(regularizedBeta(0, 2, 3)).toBe(0);
+    expect(regularizedBeta(1, 2, 3)).toBe(1);
+  });
+});
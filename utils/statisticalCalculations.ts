@@ -1,4 +1,199 @@
+const EPSILON = 1e-15;
+const FPMIN = 1e-300;
+const MAX_ITERATIONS = 10000;
+const LOG_SQRT_2PI = 0.5 * Math.log(2 * Math.PI);
+
+// Lanczos approximation (g = 7, n = 9), accurate to ~15 significant digits
+const LANCZOS_COEFFICIENTS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7
+];
+
+export const logGamma = (x: number): number => {
+  if (x < 0.5) {
+    // Reflection formula
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+
+  const z = x - 1;
+  let sum = LANCZOS_COEFFICIENTS[0];
+  for (let i = 1; i < LANCZOS_COEFFICIENTS.length; i++) {
+    sum += LANCZOS_COEFFICIENTS[i] / (z + i);
+  }
+  const t = z + 7.5;
+
+  return LOG_SQRT_2PI + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+export const logBeta = (a: number, b: number): number => {
+  return logGamma(a) + logGamma(b) - logGamma(a + b);
+};
+
+// Series representation, converges quickly for x < a + 1
+const gammaSeries = (a: number, x: number): number => {
+  let ap = a;
+  let term = 1 / a;
+  let sum = term;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    ap++;
+    term *= x / ap;
+    sum += term;
+    if (Math.abs(term) < Math.abs(sum) * EPSILON) break;
+  }
+
+  return sum * Math.exp(-x + a * Math.log(x) - logGamma(a));
+};
+
+// Continued fraction (modified Lentz), converges quickly for x >= a + 1
+const gammaContinuedFraction = (a: number, x: number): number => {
+  let b = x + 1 - a;
+  let c = 1 / FPMIN;
+  let d = 1 / b;
+  let h = d;
+
+  for (let i = 1; i <= MAX_ITERATIONS; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = b + an / c;
+    if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+
+  return Math.exp(-x + a * Math.log(x) - logGamma(a)) * h;
+};
+
+// Regularized lower incomplete gamma function P(a, x)
+export const regularizedGammaP = (a: number, x: number): number => {
+  if (x <= 0) return 0;
+  if (!isFinite(x)) return 1;
+  return x < a + 1 ? gammaSeries(a, x) : 1 - gammaContinuedFraction(a, x);
+};
+
+// Regularized upper incomplete gamma function Q(a, x) = 1 - P(a, x)
+export const regularizedGammaQ = (a: number, x: number): number => {
+  if (x <= 0) return 1;
+  if (!isFinite(x)) return 0;
+  return x < a + 1 ? 1 - gammaSeries(a, x) : gammaContinuedFraction(a, x);
+};
+
+const betaContinuedFraction = (x: number, a: number, b: number): number => {
+  const qab = a + b;
+  const qap = a + 1;
+  const qam = a - 1;
+  let c = 1;
+  let d = 1 - (qab * x) / qap;
+  if (Math.abs(d) < FPMIN) d = FPMIN;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= MAX_ITERATIONS; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((qam + m2) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = 1 + aa / c;
+    if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (qab + m) * x) / ((a + m2) * (qap + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = 1 + aa / c;
+    if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+
+  return h;
+};
+
+// Regularized incomplete beta function I_x(a, b)
+export const regularizedBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(a * Math.log(x) + b * Math.log(1 - x) - logBeta(a, b));
+
+  // Use the symmetry relation where the continued fraction converges fastest
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(x, a, b)) / a;
+  }
+  return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+};
+
+// Safeguarded Newton iteration on a bracketed, monotone CDF
+const invertCDF = (
+  cdf: (x: number) => number,
+  pdf: (x: number) => number,
+  p: number,
+  lower: number,
+  upper: number,
+  initial: number
+): number => {
+  let lo = lower;
+  let hi = upper;
+  let x = initial > lo && initial < hi ? initial : (lo + hi) / 2;
+
+  for (let i = 0; i < 200; i++) {
+    const error = cdf(x) - p;
+    if (error === 0) return x;
+    if (error < 0) lo = x;
+    else hi = x;
+
+    const density = pdf(x);
+    let next = density > 0 ? x - error / density : NaN;
+    if (!(next > lo && next < hi)) next = (lo + hi) / 2;
+
+    if (Math.abs(next - x) <= 1e-14 * Math.max(1, Math.abs(x))) return next;
+    x = next;
+  }
+
+  return x;
+};
+
+// Doubles the upper end until the bracket contains the target probability
+const findUpperBracket = (cdf: (x: number) => number, p: number, start: number): number => {
+  let upper = Math.max(1, start);
+  while (cdf(upper) < p && upper < 1e300) upper *= 2;
+  return upper;
+};
+
+export const erf = (x: number): number => {
+  const value = regularizedGammaP(0.5, x * x);
+  return x >= 0 ? value : -value;
+};
+
+export const erfc = (x: number): number => {
+  const value = regularizedGammaQ(0.5, x * x);
+  return x >= 0 ? value : 2 - value;
+};
+
+// Normal distribution
+
+export const normalPDF = (x: number, mean: number = 0, sd: number = 1): number => {
+  const z = (x - mean) / sd;
+  return Math.exp(-0.5 * z * z - LOG_SQRT_2PI) / sd;
+};
+
+export const normalCDF = (x: number): number => {
+  return 0.5 * erfc(-x / Math.SQRT2);
+};
+
 export const normalInverse = (p: number): number => {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  // Acklam's rational approximation as a starting point
   const a = [0, -3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
   const b = [0, -5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
   const c = [0, -7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
@@ -20,43 +215,189 @@ export const normalInverse = (p: number): number => {
     x = -(((((c[1] * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) * q + c[6]) / ((((d[1] * q + d[2]) * q + d[3]) * q + d[4]) * q + 1);
   }
 
-  return x;
+  // One step of Halley's method brings the result to full double precision
+  const e = normalCDF(x) - p;
+  const u = e * Math.sqrt(2 * Math.PI) * Math.exp((x * x) / 2);
+  return x - u / (1 + (x * u) / 2);
 };
 
-export const normalCDF = (x: number): number => {
-  return 0.5 * (1 + erf(x / Math.sqrt(2)));
+// Gamma distribution (shape k, scale θ)
+
+export const gammaPDF = (x: number, shape: number, scale: number = 1): number => {
+  if (x < 0) return 0;
+  if (x === 0) return shape === 1 ? 1 / scale : shape < 1 ? Infinity : 0;
+  return Math.exp((shape - 1) * Math.log(x / scale) - x / scale - logGamma(shape)) / scale;
 };
 
-export const erf = (x: number): number => {
-  const a1 = 0.254829592;
-  const a2 = -0.284496736;
-  const a3 = 1.421413741;
-  const a4 = -1.453152027;
-  const a5 = 1.061405429;
-  const p = 0.3275911;
-  
-  const sign = x >= 0 ? 1 : -1;
-  x = Math.abs(x);
-  
-  const t = 1.0 / (1.0 + p * x);
-  const y = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-x * x);
-  
-  return sign * y;
+export const gammaCDF = (x: number, shape: number, scale: number = 1): number => {
+  return regularizedGammaP(shape, x / scale);
+};
+
+export const gammaQuantile = (p: number, shape: number, scale: number = 1): number => {
+  if (p <= 0) return 0;
+  if (p >= 1) return Infinity;
+
+  const cdf = (x: number) => regularizedGammaP(shape, x);
+  const pdf = (x: number) => gammaPDF(x, shape);
+  const upper = findUpperBracket(cdf, p, shape);
+
+  return invertCDF(cdf, pdf, p, 0, upper, shape) * scale;
+};
+
+// Beta distribution
+
+export const betaPDF = (x: number, a: number, b: number): number => {
+  if (x < 0 || x > 1) return 0;
+  if (x === 0) return a === 1 ? b : a < 1 ? Infinity : 0;
+  if (x === 1) return b === 1 ? a : b < 1 ? Infinity : 0;
+  return Math.exp((a - 1) * Math.log(x) + (b - 1) * Math.log(1 - x) - logBeta(a, b));
+};
+
+export const betaCDF = (x: number, a: number, b: number): number => {
+  return regularizedBeta(x, a, b);
+};
+
+export const betaQuantile = (p: number, a: number, b: number): number => {
+  if (p <= 0) return 0;
+  if (p >= 1) return 1;
+
+  return invertCDF(
+    x => regularizedBeta(x, a, b),
+    x => betaPDF(x, a, b),
+    p,
+    0,
+    1,
+    a / (a + b)
+  );
+};
+
+// Chi-square distribution
+
+export const chiSquarePDF = (x: number, df: number): number => {
+  return gammaPDF(x, df / 2, 2);
+};
+
+export const chiSquareCDF = (x: number, df: number): number => {
+  return regularizedGammaP(df / 2, x / 2);
+};
+
+export const chiSquareQuantile = (p: number, df: number): number => {
+  return gammaQuantile(p, df / 2, 2);
+};
+
+// Student's t distribution
+
+export const studentTPDF = (t: number, df: number): number => {
+  return Math.exp(
+    logGamma((df + 1) / 2) - logGamma(df / 2) - 0.5 * Math.log(df * Math.PI) -
+    ((df + 1) / 2) * Math.log(1 + (t * t) / df)
+  );
+};
+
+export const studentTCDF = (t: number, df: number): number => {
+  if (!isFinite(df)) return normalCDF(t);
+  const tail = 0.5 * regularizedBeta(df / (df + t * t), df / 2, 0.5);
+  return t >= 0 ? 1 - tail : tail;
+};
+
+export const studentTQuantile = (p: number, df: number): number => {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  if (!isFinite(df)) return normalInverse(p);
+  if (p === 0.5) return 0;
+  if (p < 0.5) return -studentTQuantile(1 - p, df);
+
+  const cdf = (t: number) => studentTCDF(t, df);
+  const pdf = (t: number) => studentTPDF(t, df);
+  const initial = normalInverse(p);
+  const upper = findUpperBracket(cdf, p, initial);
+
+  return invertCDF(cdf, pdf, p, 0, upper, initial);
+};
+
+// F distribution
+
+export const fPDF = (x: number, d1: number, d2: number): number => {
+  if (x <= 0) return 0;
+  return Math.exp(
+    (d1 / 2) * Math.log(d1 / d2) + (d1 / 2 - 1) * Math.log(x) -
+    ((d1 + d2) / 2) * Math.log(1 + (d1 * x) / d2) - logBeta(d1 / 2, d2 / 2)
+  );
+};
+
+export const fCDF = (x: number, d1: number, d2: number): number => {
+  if (x <= 0) return 0;
+  return regularizedBeta((d1 * x) / (d1 * x + d2), d1 / 2, d2 / 2);
+};
+
+export const fQuantile = (p: number, d1: number, d2: number): number => {
+  if (p <= 0) return 0;
+  if (p >= 1) return Infinity;
+  const q = betaQuantile(p, d1 / 2, d2 / 2);
+  return (d2 * q) / (d1 * (1 - q));
+};
+
+// Composite Simpson's rule; intervals is rounded up to an even number
+export const integrateSimpson = (f: (x: number) => number, a: number, b: number, intervals: number = 200): number => {
+  const n = intervals % 2 === 0 ? intervals : intervals + 1;
+  const h = (b - a) / n;
+  let sum = f(a) + f(b);
+
+  for (let i = 1; i < n; i++) {
+    sum += (i % 2 === 0 ? 2 : 4) * f(a + i * h);
+  }
+
+  return (sum * h) / 3;
 };
 
 export const calculateSampleSize = (baselineRate: number, effectSize: number, power: number, alpha: number): number => {
   const p1 = baselineRate / 100;
   const p2 = p1 * (1 + effectSize / 100);
-  
-  const z_alpha = 1.96; // 95% confidence
-  const z_beta = power === 80 ? 0.84 : power === 90 ? 1.28 : 0.67;
-  
+
+  const z_alpha = normalInverse(1 - alpha / 2);
+  const z_beta = normalInverse(power / 100);
+
   const pooledP = (p1 + p2) / 2;
   const n = (Math.pow(z_alpha * Math.sqrt(2 * pooledP * (1 - pooledP)) + z_beta * Math.sqrt(p1 * (1 - p1) + p2 * (1 - p2)), 2)) / Math.pow(p2 - p1, 2);
-  
+
+  return Math.ceil(n);
+};
+
+// Two-sample comparison of means with equal allocation; effectSize is relative to the baseline mean (%)
+export const calculateContinuousSampleSize = (
+  baselineMean: number,
+  standardDeviation: number,
+  effectSize: number,
+  power: number,
+  alpha: number,
+  tails: number = 2
+): number => {
+  const difference = Math.abs(baselineMean * effectSize / 100);
+
+  const z_alpha = normalInverse(1 - alpha / tails);
+  const z_beta = normalInverse(power / 100);
+
+  const n = 2 * Math.pow((z_alpha + z_beta) * standardDeviation / difference, 2);
+
   return Math.ceil(n);
 };
 
+export const calculateContinuousPower = (
+  sampleSizePerVariant: number,
+  baselineMean: number,
+  standardDeviation: number,
+  effectSize: number,
+  alpha: number,
+  tails: number = 2
+): number => {
+  const difference = Math.abs(baselineMean * effectSize / 100);
+  const se = standardDeviation * Math.sqrt(2 / sampleSizePerVariant);
+
+  const z_alpha = normalInverse(1 - alpha / tails);
+
+  return normalCDF(difference / se - z_alpha) * 100;
+};
+
 export const calculateBonferroniAdjustment = (numComparisons: number, alpha: number): number => {
   return alpha / numComparisons;
-};
\ No newline at end of file
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { SimulationParameters, StoppingRuleSettings } from '../types/simulation';
+import { applyStoppingRules, summarizeStoppingRules } from './stoppingRules';
+import { getExpectedLift, getNullParameters, simulateVirtualUserRuns } from './virtualUsers';
+
+const SETTINGS: StoppingRuleSettings = { groupSequentialLooks: 5, lossThreshold: 0.01 };
+const RUNS = 300;
+const SEED = 20240611;
+
+const study = (parameters: SimulationParameters) => {
+  const nullParameters = getNullParameters(parameters);
+  return summarizeStoppingRules(
+    applyStoppingRules(simulateVirtualUserRuns(nullParameters, SEED, 0, RUNS), nullParameters, SETTINGS),
+    applyStoppingRules(simulateVirtualUserRuns(parameters, SEED, 0, RUNS), parameters, SETTINGS),
+    getExpectedLift(parameters)
+  );
+};
+
+describe('summarizeStoppingRules', () => {
+  it('credits shipping control as power when the treatment is worse', () => {
+    const outcomes = study({
+      baselineRate: 5,
+      treatmentEffect: -10,
+      effectDynamics: 'constant',
+      initialEffect: 0,
+      effectHalfLife: 7,
+      sampleSizePerVariant: 30000,
+      numberOfSimulations: RUNS,
+      userBehaviorPattern: 'uniform',
+      seasonality: false,
+      weekendEffect: 0,
+      mixingSD: 1
+    });
+    const byRule = Object.fromEntries(outcomes.map(outcome => [outcome.rule, outcome]));
+
+    // About 80% power for a fixed-horizon test at this size; every rule should detect the drop
+    expect(byRule['fixed-horizon'].power).toBeGreaterThan(70);
+    expect(byRule['obrien-fleming'].power).toBeGreaterThan(70);
+    expect(byRule['expected-loss'].power).toBeGreaterThan(50);
+    outcomes.forEach(outcome => {
+      expect(outcome.wrongDirectionRate).toBeLessThan(5);
+      expect(outcome.power + outcome.wrongDirectionRate).toBeLessThanOrEqual(100);
+    });
+  });
+});
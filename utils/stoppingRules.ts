@@ -0,0 +1,122 @@
+import { SimulationParameters, SimulationResult, StoppingDecision, StoppingRule, StoppingRuleOutcome, StoppingRuleSettings } from '../types/simulation';
+import { STOPPING_RULE_OPTIONS } from '../constants/experimentDefaults';
+import { normalCDF, normalPDF } from './statisticalCalculations';
+import { pooledZScore } from './hypothesisTests';
+import { computeGroupSequentialBoundaries } from './groupSequential';
+import { getDailyVisitors, SIGNIFICANCE_LEVEL, SIMULATION_DAYS } from './virtualUsers';
+
+// Days on which a group-sequential design with `looks` equally spaced analyses looks
+export const getLookDays = (looks: number): number[] => {
+  return Array.from({ length: looks }, (_, k) => Math.round(((k + 1) * SIMULATION_DAYS) / looks));
+};
+
+const relativeLift = (result: SimulationResult): number => {
+  return result.controlRate > 0 ? (result.treatmentRate / result.controlRate - 1) * 100 : 0;
+};
+
+// E[max(θ_other - θ_arm, 0)] for each arm under a normal approximation to the Beta(1, 1)
+// posteriors. The exact integral in bayesianAnalysis is too slow to evaluate daily for
+// thousands of simulations, and with hundreds of visitors per arm the difference is negligible.
+const expectedLossPair = (x1: number, x2: number, n: number): [number, number] => {
+  const mean1 = (x1 + 1) / (n + 2);
+  const mean2 = (x2 + 1) / (n + 2);
+  const sd = Math.sqrt((mean1 * (1 - mean1) + mean2 * (1 - mean2)) / (n + 3));
+  const loss = (delta: number) => sd * normalPDF(delta / sd) + delta * normalCDF(delta / sd);
+  return [loss(mean2 - mean1), loss(mean1 - mean2)];
+};
+
+// Apply every rule to the same simulated experiments; a rule that never fires runs to day 30
+export const applyStoppingRules = (
+  simulations: SimulationResult[][],
+  parameters: SimulationParameters,
+  settings: StoppingRuleSettings
+): Record<StoppingRule, StoppingDecision[]> => {
+  const visitors = getDailyVisitors(parameters);
+  const cumulativeVisitors = visitors.map((_, i) => visitors.slice(0, i + 1).reduce((sum, n) => sum + n, 0));
+  const totalVisitors = cumulativeVisitors[SIMULATION_DAYS - 1];
+
+  // Boundaries at the information actually reached on each look day
+  const lookDays = getLookDays(settings.groupSequentialLooks);
+  const boundaries = computeGroupSequentialBoundaries(
+    lookDays.map(day => cumulativeVisitors[day - 1] / totalVisitors),
+    SIGNIFICANCE_LEVEL,
+    'obrien-fleming',
+    0
+  );
+  const lossThreshold = settings.lossThreshold / 100;
+
+  // A significant test ships the arm that looks better
+  const stopAt = (simulation: SimulationResult[], index: number, declaredWinner: boolean): StoppingDecision => {
+    const estimatedLift = relativeLift(simulation[index]);
+    return {
+      day: simulation[index].day,
+      declaredWinner,
+      shippedArm: declaredWinner ? (estimatedLift >= 0 ? 'treatment' : 'control') : null,
+      estimatedLift
+    };
+  };
+
+  // First day on which `fires` holds, otherwise the final day without a winner
+  const firstStop = (simulation: SimulationResult[], fires: (result: SimulationResult, index: number) => boolean): StoppingDecision => {
+    const index = simulation.findIndex(fires);
+    return index >= 0 ? stopAt(simulation, index, true) : stopAt(simulation, simulation.length - 1, false);
+  };
+
+  // Ships whichever arm first has an expected loss below the threshold; only shipping treatment
+  // rejects H0, while shipping control keeps the status quo
+  const expectedLossStop = (simulation: SimulationResult[]): StoppingDecision => {
+    for (let i = 0; i < simulation.length; i++) {
+      const result = simulation[i];
+      const [controlLoss, treatmentLoss] = expectedLossPair(result.cumulativeControlConversions, result.cumulativeTreatmentConversions, cumulativeVisitors[i]);
+      if (Math.min(controlLoss, treatmentLoss) < lossThreshold) {
+        const shippedArm = treatmentLoss <= controlLoss ? 'treatment' : 'control';
+        return { day: result.day, declaredWinner: shippedArm === 'treatment', shippedArm, estimatedLift: relativeLift(result) };
+      }
+    }
+    return stopAt(simulation, simulation.length - 1, false);
+  };
+
+  return {
+    'fixed-horizon': simulations.map(sim => stopAt(sim, sim.length - 1, sim[sim.length - 1].pValue < SIGNIFICANCE_LEVEL)),
+    'naive-peeking': simulations.map(sim => firstStop(sim, result => result.pValue < SIGNIFICANCE_LEVEL)),
+    'obrien-fleming': simulations.map(sim => firstStop(sim, (result, i) => {
+      const look = lookDays.indexOf(result.day);
+      if (look < 0) return false;
+      const z = pooledZScore(result.cumulativeControlConversions, cumulativeVisitors[i], result.cumulativeTreatmentConversions, cumulativeVisitors[i]);
+      return Math.abs(z) >= boundaries[look].efficacyBound;
+    })),
+    'msprt': simulations.map(sim => firstStop(sim, result => result.alwaysValidPValue < SIGNIFICANCE_LEVEL)),
+    'expected-loss': simulations.map(expectedLossStop)
+  };
+};
+
+const average = (values: number[]): number => values.reduce((sum, v) => sum + v, 0) / Math.max(values.length, 1);
+
+// Declaring treatment the winner under H0 is a false positive. Under H1 power counts every decision
+// that ships the better arm, including expected loss shipping control when the lift is negative, and
+// shipping the worse arm is reported separately. Bias is measured against the expected day-30 lift.
+export const summarizeStoppingRules = (
+  nullDecisions: Record<StoppingRule, StoppingDecision[]>,
+  alternativeDecisions: Record<StoppingRule, StoppingDecision[]>,
+  trueLift: number
+): StoppingRuleOutcome[] => {
+  return STOPPING_RULE_OPTIONS.map(({ value: rule }) => {
+    const underNull = nullDecisions[rule];
+    const underAlternative = alternativeDecisions[rule];
+    const shipped = underAlternative.filter(decision => decision.shippedArm !== null);
+    const betterArm = trueLift >= 0 ? 'treatment' : 'control';
+    const averageLiftH1 = average(underAlternative.map(decision => decision.estimatedLift));
+
+    return {
+      rule,
+      falsePositiveRate: (underNull.filter(decision => decision.declaredWinner).length / Math.max(underNull.length, 1)) * 100,
+      power: (shipped.filter(decision => decision.shippedArm === betterArm).length / Math.max(underAlternative.length, 1)) * 100,
+      wrongDirectionRate: (shipped.filter(decision => decision.shippedArm !== betterArm).length / Math.max(underAlternative.length, 1)) * 100,
+      averageStoppingDayH0: average(underNull.map(decision => decision.day)),
+      averageStoppingDayH1: average(underAlternative.map(decision => decision.day)),
+      averageLiftH1,
+      bias: averageLiftH1 - trueLift,
+      significantBias: shipped.length > 0 ? average(shipped.map(decision => decision.estimatedLift)) - trueLift : null
+    };
+  });
+};
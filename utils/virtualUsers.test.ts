@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { SimulationParameters, SimulationRunDescriptor } from '../types/simulation';
+import { isSameSummary, parseRunDescriptor, RUN_DESCRIPTOR_VERSION, simulateVirtualUserRuns, summarizeSimulations } from './virtualUsers';
+
+const PARAMETERS: SimulationParameters = {
+  baselineRate: 5,
+  treatmentEffect: 20,
+  effectDynamics: 'constant',
+  initialEffect: 40,
+  effectHalfLife: 7,
+  sampleSizePerVariant: 3000,
+  numberOfSimulations: 40,
+  userBehaviorPattern: 'weekend_effect',
+  seasonality: false,
+  weekendEffect: 10,
+  mixingSD: 1
+};
+const SEED = 123456789;
+
+const simulate = (parameters: SimulationParameters, seed: number) => {
+  return summarizeSimulations(simulateVirtualUserRuns(parameters, seed, 0, parameters.numberOfSimulations), parameters);
+};
+
+const descriptorText = (overrides: Record<string, unknown>, parameters: Record<string, unknown> = {}) => {
+  return JSON.stringify({ version: RUN_DESCRIPTOR_VERSION, seed: SEED, parameters: { ...PARAMETERS, ...parameters }, ...overrides });
+};
+
+describe('run descriptors', () => {
+  it('replay an exported run bit for bit', () => {
+    const summary = simulate(PARAMETERS, SEED);
+    const exported: SimulationRunDescriptor = { version: RUN_DESCRIPTOR_VERSION, seed: SEED, parameters: PARAMETERS, summary };
+
+    const { descriptor, error } = parseRunDescriptor(JSON.stringify(exported, null, 2));
+    expect(error).toBeNull();
+    expect(descriptor).not.toBeNull();
+    if (!descriptor?.summary) return;
+
+    const replayed = simulate(descriptor.parameters, descriptor.seed);
+    expect(isSameSummary(replayed, descriptor.summary)).toBe(true);
+    expect(isSameSummary(simulate(PARAMETERS, SEED + 1), summary)).toBe(false);
+  });
+
+  it('reject other versions, invalid seeds and parameters that cannot be simulated', () => {
+    const rejected: Array<[string, string]> = [
+      ['{ not json', 'the file is not valid JSON'],
+      ['42', 'the file does not contain a run descriptor'],
+      [descriptorText({ version: RUN_DESCRIPTOR_VERSION - 1 }), `only version ${RUN_DESCRIPTOR_VERSION} run descriptors can be replayed`],
+      [descriptorText({ seed: -1 }), 'seed must be a whole number from 0 to 4294967295'],
+      [descriptorText({ seed: 1.5 }), 'seed must be a whole number from 0 to 4294967295'],
+      [descriptorText({ seed: 2 ** 32 }), 'seed must be a whole number from 0 to 4294967295'],
+      [descriptorText({ parameters: null }), 'the descriptor has no parameters'],
+      [descriptorText({}, { numberOfSimulations: 2.5 }), 'numberOfSimulations must be a positive whole number'],
+      [descriptorText({}, { sampleSizePerVariant: 10 }), 'sampleSizePerVariant must be a whole number of at least 30'],
+      [descriptorText({}, { baselineRate: 0 }), 'baselineRate must be a number between 0 and 100'],
+      [descriptorText({}, { baselineRate: '5' }), 'baselineRate must be a number between 0 and 100'],
+      [descriptorText({}, { baselineRate: 90 }), 'the treatment conversion rate would exceed 100%']
+    ];
+    rejected.forEach(([text, message]) => {
+      expect(parseRunDescriptor(text)).toEqual({ descriptor: null, error: message });
+    });
+  });
+
+  it('fill in a constant effect for descriptors that predate effect dynamics', () => {
+    const { effectDynamics, initialEffect, effectHalfLife, ...older } = PARAMETERS;
+    const { descriptor } = parseRunDescriptor(JSON.stringify({ version: RUN_DESCRIPTOR_VERSION, seed: SEED, parameters: older }));
+    expect(descriptor?.parameters).toEqual({ ...older, effectDynamics: 'constant', initialEffect: 0, effectHalfLife: 7 });
+  });
+});
+
+describe('simulateVirtualUserRuns', () => {
+  it('gives the same simulations however the indices are split into chunks', () => {
+    const whole = simulateVirtualUserRuns(PARAMETERS, SEED, 0, 20);
+    const chunked = [
+      ...simulateVirtualUserRuns(PARAMETERS, SEED, 0, 7),
+      ...simulateVirtualUserRuns(PARAMETERS, SEED, 7, 1),
+      ...simulateVirtualUserRuns(PARAMETERS, SEED, 8, 12)
+    ];
+    expect(chunked).toEqual(whole);
+  });
+});
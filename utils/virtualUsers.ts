@@ -0,0 +1,298 @@
+import { HistogramBin, RunDescriptorParseResult, SimulationDistribution, SimulationParameters, SimulationResult, SimulationRunDescriptor, SimulationSummary } from '../types/simulation';
+import { normalCDF } from './statisticalCalculations';
+import { binomialDifference, mixtureLikelihoodRatio } from './alwaysValid';
+import { binomialRandom, createSeededRandom, deriveSeed, isValidSeed, UniformRandom } from './randomVariates';
+
+export const SIMULATION_DAYS = 30;
+
+// Level of the daily z-test and of the mSPRT rejection in every summary
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+// Bump when a change to the simulation would make old descriptors replay differently
+export const RUN_DESCRIPTOR_VERSION = 2;
+
+// Traffic multiplier for a day under the chosen behaviour pattern
+export const generateUserBehavior = (day: number, pattern: string, weekendEffect: number): number => {
+  let baseMultiplier = 1;
+
+  switch (pattern) {
+    case 'increasing':
+      baseMultiplier = 0.5 + (day * 0.5) / 30; // Increases over 30 days
+      break;
+    case 'decreasing':
+      baseMultiplier = 1.5 - (day * 0.5) / 30; // Decreases over 30 days
+      break;
+    case 'seasonal':
+      baseMultiplier = 1 + 0.3 * Math.sin((day * 2 * Math.PI) / 7); // Weekly pattern
+      break;
+    case 'weekend_effect': {
+      const dayOfWeek = day % 7;
+      baseMultiplier = (dayOfWeek === 0 || dayOfWeek === 6) ? 1 + weekendEffect / 100 : 1;
+      break;
+    }
+    default:
+      baseMultiplier = 1;
+  }
+
+  return Math.max(0.1, baseMultiplier);
+};
+
+// Older run descriptors predate time-varying effects; a constant effect replays them unchanged
+const DEFAULT_EFFECT_DYNAMICS: Pick<SimulationParameters, 'effectDynamics' | 'initialEffect' | 'effectHalfLife'> = {
+  effectDynamics: 'constant',
+  initialEffect: 0,
+  effectHalfLife: 7
+};
+
+// Relative lift in percent on the given day of exposure, moving from initialEffect towards the
+// long-run treatmentEffect by half of the remaining gap every effectHalfLife days
+export const getTreatmentEffect = (parameters: SimulationParameters, exposureDay: number): number => {
+  if (parameters.effectDynamics === 'constant') return parameters.treatmentEffect;
+  const remaining = Math.pow(0.5, (exposureDay - 1) / parameters.effectHalfLife);
+  return parameters.treatmentEffect + (parameters.initialEffect - parameters.treatmentEffect) * remaining;
+};
+
+export const isNullScenario = (parameters: SimulationParameters): boolean => {
+  return parameters.treatmentEffect === 0 && (parameters.effectDynamics === 'constant' || parameters.initialEffect === 0);
+};
+
+// The same scenario with no treatment effect at any time, for H0 runs
+export const getNullParameters = (parameters: SimulationParameters): SimulationParameters => ({
+  ...parameters,
+  treatmentEffect: 0,
+  effectDynamics: 'constant'
+});
+
+// Visitors per variant on each day; the same in both arms and in every simulation
+export const getDailyVisitors = (parameters: SimulationParameters): number[] => {
+  const dailyVisitors = Math.floor(parameters.sampleSizePerVariant / SIMULATION_DAYS);
+  return Array.from({ length: SIMULATION_DAYS }, (_, i) => (
+    Math.floor(dailyVisitors * generateUserBehavior(i + 1, parameters.userBehaviorPattern, parameters.weekendEffect))
+  ));
+};
+
+// Two-sided p-value from the pooled normal approximation
+const calculatePValue = (conversionsA: number, visitorsA: number, conversionsB: number, visitorsB: number): number => {
+  const pA = conversionsA / visitorsA;
+  const pB = conversionsB / visitorsB;
+
+  const pooledP = (conversionsA + conversionsB) / (visitorsA + visitorsB);
+  const se = Math.sqrt(pooledP * (1 - pooledP) * (1 / visitorsA + 1 / visitorsB));
+
+  if (se === 0) return 1;
+
+  const zScore = Math.abs(pB - pA) / se;
+
+  return 2 * normalCDF(-zScore);
+};
+
+// One simulated experiment, analysed cumulatively at the end of every day
+export const simulateVirtualUserRun = (parameters: SimulationParameters, random: UniformRandom = Math.random): SimulationResult[] => {
+  const simulationResults: SimulationResult[] = [];
+  let cumulativeControlConversions = 0;
+  let cumulativeTreatmentConversions = 0;
+  let cumulativeControlVisitors = 0;
+  let cumulativeTreatmentVisitors = 0;
+  let alwaysValidPValue = 1;
+
+  const visitorsByDay = getDailyVisitors(parameters);
+
+  for (let day = 1; day <= SIMULATION_DAYS; day++) {
+    const adjustedVisitors = visitorsByDay[day - 1];
+
+    // Control group
+    const controlRate = parameters.baselineRate / 100;
+    const controlConversions = binomialRandom(adjustedVisitors, controlRate, random);
+    cumulativeControlConversions += controlConversions;
+    cumulativeControlVisitors += adjustedVisitors;
+
+    // Treatment group; without user identities every visitor is treated as exposed since day 1
+    const treatmentRate = controlRate * (1 + getTreatmentEffect(parameters, day) / 100);
+    const treatmentConversions = binomialRandom(adjustedVisitors, treatmentRate, random);
+    cumulativeTreatmentConversions += treatmentConversions;
+    cumulativeTreatmentVisitors += adjustedVisitors;
+
+    const dailyControlRate = cumulativeControlVisitors > 0 ? (cumulativeControlConversions / cumulativeControlVisitors) * 100 : 0;
+    const dailyTreatmentRate = cumulativeTreatmentVisitors > 0 ? (cumulativeTreatmentConversions / cumulativeTreatmentVisitors) * 100 : 0;
+
+    const pValue = calculatePValue(
+      cumulativeControlConversions,
+      cumulativeControlVisitors,
+      cumulativeTreatmentConversions,
+      cumulativeTreatmentVisitors
+    );
+
+    // mSPRT evaluated every day; the running minimum keeps the p-value valid under peeking
+    const difference = binomialDifference(
+      cumulativeControlConversions,
+      cumulativeControlVisitors,
+      cumulativeTreatmentConversions,
+      cumulativeTreatmentVisitors
+    );
+    const mixingVariance = (parameters.mixingSD / 100) ** 2;
+    alwaysValidPValue = Math.min(alwaysValidPValue, 1 / mixtureLikelihoodRatio(difference.estimate, difference.variance, mixingVariance));
+
+    simulationResults.push({
+      day,
+      controlConversions,
+      treatmentConversions,
+      controlRate: dailyControlRate,
+      treatmentRate: dailyTreatmentRate,
+      pValue,
+      isSignificant: pValue < SIGNIFICANCE_LEVEL,
+      alwaysValidPValue,
+      cumulativeControlConversions,
+      cumulativeTreatmentConversions
+    });
+  }
+
+  return simulationResults;
+};
+
+// Each simulation draws from its own stream derived from the run seed, so any split of the
+// indices across workers reproduces the same results
+export const simulateVirtualUserRuns = (
+  parameters: SimulationParameters,
+  seed: number,
+  startIndex: number,
+  count: number
+): SimulationResult[][] => {
+  return Array.from({ length: count }, (_, i) => (
+    simulateVirtualUserRun(parameters, createSeededRandom(deriveSeed(seed, startIndex + i)))
+  ));
+};
+
+export const summarizeSimulations = (allSimulations: SimulationResult[][], parameters: SimulationParameters): SimulationSummary => {
+  const finalResults = allSimulations.map(sim => sim[sim.length - 1]);
+  const significantResults = finalResults.filter(result => result.isSignificant).length;
+  const averagePValue = finalResults.reduce((sum, result) => sum + result.pValue, 0) / finalResults.length;
+  const powerAchieved = (significantResults / parameters.numberOfSimulations) * 100;
+
+  // Calculate false positive rate (assuming no real effect for control)
+  const falsePositiveRate = isNullScenario(parameters) ? powerAchieved : 0;
+
+  const averageEffectSize = finalResults.reduce((sum, result) => sum + (result.treatmentRate - result.controlRate), 0) / finalResults.length;
+
+  // Share of runs that would have declared a winner on some day when checked daily
+  const peekingRejectionRate = (allSimulations.filter(sim => sim.some(result => result.isSignificant)).length / parameters.numberOfSimulations) * 100;
+  const alwaysValidRejectionRate = (finalResults.filter(result => result.alwaysValidPValue < SIGNIFICANCE_LEVEL).length / parameters.numberOfSimulations) * 100;
+
+  return {
+    significantResults,
+    averagePValue,
+    powerAchieved,
+    falsePositiveRate,
+    averageEffectSize,
+    peekingRejectionRate,
+    alwaysValidRejectionRate,
+    // Use results from first simulation for visualization
+    results: allSimulations[0] || []
+  };
+};
+
+const P_VALUE_BINS = 20;
+const LIFT_BINS = 30;
+
+// Equal-width bins over [min, max]; a degenerate range gets a single bin
+const buildHistogram = (values: number[], min: number, max: number, bins: number): HistogramBin[] => {
+  const width = max > min ? (max - min) / bins : 1;
+  const histogram = Array.from({ length: max > min ? bins : 1 }, (_, i) => ({ start: min + i * width, end: min + (i + 1) * width, count: 0 }));
+  values.forEach(value => {
+    histogram[Math.min(histogram.length - 1, Math.max(0, Math.floor((value - min) / width)))].count++;
+  });
+  return histogram;
+};
+
+// Expected day-30 lift: daily lifts weighted by that day's share of visitors
+export const getExpectedLift = (parameters: SimulationParameters): number => {
+  const visitorsByDay = getDailyVisitors(parameters);
+  const totalVisitors = visitorsByDay.reduce((sum, visitors) => sum + visitors, 0);
+  if (totalVisitors === 0) return parameters.treatmentEffect;
+  return visitorsByDay.reduce((sum, visitors, i) => sum + visitors * getTreatmentEffect(parameters, i + 1), 0) / totalVisitors;
+};
+
+// Day-30 p-values and lift estimates of every run. Significant estimates overstate the true lift
+// when power is low, because only the runs that happened to overshoot clear the threshold.
+export const summarizeRunDistribution = (allSimulations: SimulationResult[][], parameters: SimulationParameters): SimulationDistribution => {
+  const finalResults = allSimulations.map(sim => sim[sim.length - 1]);
+  const estimates = finalResults
+    .filter(result => result.controlRate > 0)
+    .map(result => ({ lift: (result.treatmentRate / result.controlRate - 1) * 100, isSignificant: result.isSignificant }));
+  const lifts = estimates.map(estimate => estimate.lift);
+  const significantLifts = estimates.filter(estimate => estimate.isSignificant).map(estimate => estimate.lift);
+  const trueLift = getExpectedLift(parameters);
+
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const hasTypeErrors = significantLifts.length > 0 && trueLift !== 0;
+  const minLift = Math.min(trueLift, ...lifts);
+  const maxLift = Math.max(trueLift, ...lifts);
+
+  return {
+    pValueHistogram: buildHistogram(finalResults.map(result => result.pValue), 0, 1, P_VALUE_BINS),
+    liftHistogram: buildHistogram(lifts, minLift, maxLift, LIFT_BINS),
+    significantLiftHistogram: buildHistogram(significantLifts, minLift, maxLift, LIFT_BINS),
+    trueLift,
+    averageLift: lifts.length > 0 ? mean(lifts) : 0,
+    averageSignificantLift: significantLifts.length > 0 ? mean(significantLifts) : null,
+    exaggerationRatio: hasTypeErrors ? mean(significantLifts.map(Math.abs)) / Math.abs(trueLift) : null,
+    signErrorRate: hasTypeErrors
+      ? (significantLifts.filter(lift => Math.sign(lift) !== Math.sign(trueLift)).length / significantLifts.length) * 100
+      : null
+  };
+};
+
+// JSON serializes doubles with round-trip precision, so equal strings mean bit-identical summaries
+export const isSameSummary = (a: SimulationSummary, b: SimulationSummary): boolean => {
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isPositiveInteger = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+// First problem with the parameters of a descriptor or of the form, or null when they can be simulated
+export const getParameterError = (parameters: Partial<Record<keyof SimulationParameters, unknown>>): string | null => {
+  const { baselineRate, treatmentEffect, effectDynamics, initialEffect, effectHalfLife } = parameters;
+  if (!isPositiveInteger(parameters.numberOfSimulations)) return 'numberOfSimulations must be a positive whole number';
+  if (!isPositiveInteger(parameters.sampleSizePerVariant) || parameters.sampleSizePerVariant < SIMULATION_DAYS) {
+    return `sampleSizePerVariant must be a whole number of at least ${SIMULATION_DAYS}`;
+  }
+  if (!isFiniteNumber(baselineRate) || baselineRate <= 0 || baselineRate >= 100) return 'baselineRate must be a number between 0 and 100';
+  if (!isFiniteNumber(treatmentEffect) || treatmentEffect <= -100) return 'treatmentEffect must be a number above -100';
+  if (typeof parameters.userBehaviorPattern !== 'string') return 'userBehaviorPattern must be a string';
+  if (typeof parameters.seasonality !== 'boolean') return 'seasonality must be true or false';
+  if (!isFiniteNumber(parameters.weekendEffect)) return 'weekendEffect must be a number';
+  if (!isFiniteNumber(parameters.mixingSD) || parameters.mixingSD < 0) return 'mixingSD must be a non-negative number';
+  if (effectDynamics !== 'constant' && effectDynamics !== 'novelty' && effectDynamics !== 'primacy') {
+    return "effectDynamics must be 'constant', 'novelty' or 'primacy'";
+  }
+  if (!isFiniteNumber(initialEffect) || initialEffect <= -100) return 'initialEffect must be a number above -100';
+  if (!isFiniteNumber(effectHalfLife) || effectHalfLife <= 0) return 'effectHalfLife must be a positive number';
+  if (baselineRate * (1 + Math.max(treatmentEffect, effectDynamics === 'constant' ? treatmentEffect : initialEffect) / 100) > 100) {
+    return 'the treatment conversion rate would exceed 100%';
+  }
+  return null;
+};
+
+// Either a descriptor this version can replay exactly or the reason the text is not one
+export const parseRunDescriptor = (text: string): RunDescriptorParseResult => {
+  const invalid = (error: string): RunDescriptorParseResult => ({ descriptor: null, error });
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return invalid('the file is not valid JSON');
+  }
+  if (typeof value !== 'object' || value === null) return invalid('the file does not contain a run descriptor');
+
+  const descriptor = value as Partial<SimulationRunDescriptor>;
+  if (descriptor.version !== RUN_DESCRIPTOR_VERSION) return invalid(`only version ${RUN_DESCRIPTOR_VERSION} run descriptors can be replayed`);
+  if (typeof descriptor.seed !== 'number' || !isValidSeed(descriptor.seed)) return invalid('seed must be a whole number from 0 to 4294967295');
+  if (typeof descriptor.parameters !== 'object' || descriptor.parameters === null) return invalid('the descriptor has no parameters');
+
+  const parameters = { ...DEFAULT_EFFECT_DYNAMICS, ...descriptor.parameters };
+  const error = getParameterError(parameters);
+  if (error) return invalid(error);
+
+  return { descriptor: { ...descriptor, parameters } as SimulationRunDescriptor, error: null };
+};
@@ -0,0 +1,31 @@
+import { SimulationChunkRequest, SimulationChunkResponse } from '../types/simulation';
+import { simulateVirtualUserRuns } from '../utils/virtualUsers';
+import { simulateAgentRuns } from '../utils/agentSimulation';
+import { simulateSegmentRuns } from '../utils/segmentSimulation';
+import { simulateRevenueRuns } from '../utils/revenueSimulation';
+
+// Typed as a Worker so postMessage takes no target origin; the DOM lib has no worker scope types
+const context = self as unknown as Worker;
+
+const runTask = ({ task, seed, startIndex, count }: SimulationChunkRequest): unknown[] => {
+  switch (task.kind) {
+    case 'agent-based':
+      return simulateAgentRuns(task.parameters, task.agents, seed, startIndex, count);
+    case 'segments':
+      return simulateSegmentRuns(task.parameters, task.segments, seed, startIndex, count);
+    case 'revenue':
+      return simulateRevenueRuns(task.parameters, task.revenue, seed, startIndex, count);
+    default:
+      return simulateVirtualUserRuns(task.parameters, seed, startIndex, count);
+  }
+};
+
+context.onmessage = (event: MessageEvent<SimulationChunkRequest>) => {
+  const { jobId, startIndex } = event.data;
+  const response: SimulationChunkResponse<unknown> = {
+    jobId,
+    startIndex,
+    results: runTask(event.data)
+  };
+  context.postMessage(response);
+};